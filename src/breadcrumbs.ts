@@ -0,0 +1,252 @@
+/**
+ * Breadcrumbs: a bounded ring buffer of the events leading up to a crash.
+ *
+ * Breadcrumbs come from three sources, each of which can be switched off
+ * with `configureBreadcrumbs`:
+ * - `console.*` calls (`log`, `info`, `warn`, `error`, `debug`),
+ * - `fetch` requests (method, URL without query string, status, duration),
+ * - manual `addBreadcrumb` calls.
+ *
+ * The buffer is process-wide, shared by all reporter instances. Console and
+ * fetch capture is installed by the hook (`instrumentBreadcrumbs`) while the
+ * default reporter is able to send reports; without the hook only manual
+ * breadcrumbs are recorded. Reporters attach a snapshot
+ * of the buffer to every payload (see `CrashReporterOptions.breadcrumbs`).
+ */
+
+import { serializeValueForReport } from "./utils.ts";
+
+/** Severity of a breadcrumb. */
+export type BreadcrumbLevel = "debug" | "info" | "warning" | "error";
+
+/** The breadcrumb levels, lowest first. */
+export const BREADCRUMB_LEVELS: readonly BreadcrumbLevel[] = [
+  "debug",
+  "info",
+  "warning",
+  "error",
+];
+
+/** Checks whether a value is one of the `BREADCRUMB_LEVELS`. */
+export function isBreadcrumbLevel(value: unknown): value is BreadcrumbLevel {
+  return BREADCRUMB_LEVELS.includes(value as BreadcrumbLevel);
+}
+
+/** One recorded event. */
+export interface Breadcrumb {
+  /** ISO 8601 timestamp of the event. */
+  timestamp: string;
+  /** Source of the event, e.g. `"console"`, `"fetch"` or an app-defined category. */
+  category: string;
+  level?: BreadcrumbLevel;
+  message?: string;
+  /** Additional structured data, serialized like report values. */
+  data?: Record<string, unknown>;
+}
+
+/** Breadcrumb input accepted by `addBreadcrumb`; the timestamp defaults to now. */
+export type BreadcrumbInput = Omit<Breadcrumb, "timestamp"> & {
+  timestamp?: string;
+};
+
+/** Breadcrumb settings, passed to `configureBreadcrumbs`. */
+export interface BreadcrumbOptions {
+  /** Number of breadcrumbs kept; the oldest are dropped first. Defaults to 50, at most 500. */
+  maxBreadcrumbs?: number;
+  /** Messages are cut to this many characters. Defaults to 1 000. */
+  maxMessageLength?: number;
+  /** Record `console.*` calls. Defaults to `true`. */
+  console?: boolean;
+  /** Record `fetch` requests. Defaults to `true`. */
+  fetch?: boolean;
+  /** Record `addBreadcrumb` calls. Defaults to `true`. */
+  manual?: boolean;
+}
+
+/** Upper bound for `maxBreadcrumbs`. */
+const MAX_BREADCRUMBS_LIMIT = 500;
+
+/** Marks `fetch` calls that must not be recorded (the reporter's own requests). */
+export const SKIP_BREADCRUMB: unique symbol = Symbol(
+  "crash-report.skipBreadcrumb",
+);
+
+/** A `RequestInit` that may carry the `SKIP_BREADCRUMB` marker. */
+export type UnrecordedRequestInit = RequestInit & {
+  [SKIP_BREADCRUMB]?: boolean;
+};
+
+const CONSOLE_LEVELS = {
+  debug: "debug",
+  log: "info",
+  info: "info",
+  warn: "warning",
+  error: "error",
+} as const satisfies Record<string, BreadcrumbLevel>;
+
+let settings: Required<BreadcrumbOptions> = {
+  maxBreadcrumbs: 50,
+  maxMessageLength: 1_000,
+  console: true,
+  fetch: true,
+  manual: true,
+};
+const buffer: Breadcrumb[] = [];
+/** Whether console and fetch capture was requested (by the hook). */
+let instrumented = false;
+/** The sources whose globals have been wrapped. */
+const wrapped = { console: false, fetch: false };
+
+/**
+ * Changes the breadcrumb settings. Omitted fields keep their current value.
+ * @param options The settings to change.
+ */
+export function configureBreadcrumbs(options: BreadcrumbOptions) {
+  settings = { ...settings, ...options };
+  settings.maxBreadcrumbs = Math.max(
+    0,
+    Math.min(MAX_BREADCRUMBS_LIMIT, Math.floor(settings.maxBreadcrumbs)),
+  );
+  trimBuffer();
+  if (instrumented) installWrappers();
+}
+
+/**
+ * Records a breadcrumb, unless manual breadcrumbs are switched off.
+ * @param breadcrumb The event; `timestamp` defaults to now.
+ */
+export function addBreadcrumb(breadcrumb: BreadcrumbInput) {
+  if (settings.manual) record(breadcrumb);
+}
+
+/** Returns a copy of the recorded breadcrumbs, oldest first. */
+export function getBreadcrumbs(): Breadcrumb[] {
+  return [...buffer];
+}
+
+/** Removes all recorded breadcrumbs. */
+export function clearBreadcrumbs() {
+  buffer.length = 0;
+}
+
+/**
+ * Wraps `console.*` and `fetch` to record breadcrumbs. Called by the hook
+ * once reporting is active; calling it again has no effect. Sources switched
+ * off with `configureBreadcrumbs` are left alone until they are switched on.
+ * The wrappers check the settings on every call, so capture can be switched
+ * off again later.
+ */
+export function instrumentBreadcrumbs() {
+  instrumented = true;
+  installWrappers();
+}
+
+/** Wraps the globals of the enabled sources that are not wrapped yet. */
+function installWrappers() {
+  if (settings.console && !wrapped.console) {
+    wrapped.console = true;
+    wrapConsole();
+  }
+  if (settings.fetch && !wrapped.fetch) {
+    wrapped.fetch = true;
+    wrapFetch();
+  }
+}
+
+function wrapConsole() {
+  for (const [method, level] of Object.entries(CONSOLE_LEVELS)) {
+    const original = console[method as keyof typeof CONSOLE_LEVELS];
+    console[method as keyof typeof CONSOLE_LEVELS] = (...args: unknown[]) => {
+      if (settings.console) {
+        record({ category: "console", level, message: formatArgs(args) });
+      }
+      original.apply(console, args);
+    };
+  }
+}
+
+function wrapFetch() {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    if (!settings.fetch || (init && SKIP_BREADCRUMB in init)) {
+      return await originalFetch(input, init);
+    }
+    const method = init?.method ??
+      (input instanceof Request ? input.method : "GET");
+    const url = input instanceof Request ? input.url : String(input);
+    const data: Record<string, unknown> = {
+      method: method.toUpperCase(),
+      // Query strings often carry tokens
+      url: url.replace(/[?#].*$/, ""),
+    };
+    const start = performance.now();
+    try {
+      const response = await originalFetch(input, init);
+      data.status = response.status;
+      data.durationMs = Math.round(performance.now() - start);
+      record({
+        category: "fetch",
+        level: response.ok ? "info" : "warning",
+        data,
+      });
+      return response;
+    } catch (err) {
+      data.error = err instanceof Error ? err.message : String(err);
+      data.durationMs = Math.round(performance.now() - start);
+      record({ category: "fetch", level: "error", data });
+      throw err;
+    }
+  };
+}
+
+function record(breadcrumb: BreadcrumbInput) {
+  if (settings.maxBreadcrumbs === 0) return;
+  const limits = {
+    maxDepth: 4,
+    maxItems: 20,
+    maxStringLength: settings.maxMessageLength,
+  };
+  // Untyped callers may pass anything; the collector refuses invalid fields
+  const { timestamp, level } = breadcrumb;
+  const entry: Breadcrumb = {
+    timestamp:
+      typeof timestamp === "string" && !Number.isNaN(Date.parse(timestamp))
+        ? timestamp
+        : new Date().toISOString(),
+    category: String(breadcrumb.category),
+  };
+  if (isBreadcrumbLevel(level)) entry.level = level;
+  if (breadcrumb.message !== undefined) {
+    entry.message = truncate(String(breadcrumb.message));
+  }
+  if (breadcrumb.data !== undefined) {
+    // Serialize now: the objects may change before a crash happens
+    const data = serializeValueForReport(breadcrumb.data, limits);
+    entry.data = typeof data === "object" && data !== null &&
+        !Array.isArray(data)
+      ? data
+      : { value: data };
+  }
+  buffer.push(entry);
+  trimBuffer();
+}
+
+function trimBuffer() {
+  if (buffer.length > settings.maxBreadcrumbs) {
+    buffer.splice(0, buffer.length - settings.maxBreadcrumbs);
+  }
+}
+
+function formatArgs(args: unknown[]): string {
+  return truncate(
+    args.map((arg) =>
+      typeof arg === "string" ? arg : Deno.inspect(arg, { depth: 2 })
+    ).join(" "),
+  );
+}
+
+function truncate(message: string): string {
+  return message.length > settings.maxMessageLength
+    ? `${message.slice(0, settings.maxMessageLength)}…`
+    : message;
+}
@@ -2,18 +2,152 @@
  * server.ts
  *
  * Deno HTTP server to receive crash reports via POST requests
- * and store them in Deno KV.
+ * and store them in Deno KV, SQLite or JSONL files (see `./collector/store.ts`).
+ *
+ * Payloads are validated and upgraded to the current `CrashReportPayload`
+ * schema (see `./payload.ts`) before they are stored, so legacy clients that
+ * double-encoded their reports end up in the same structured shape.
+ *
+ * Endpoints:
+ * - `POST /api/report`: Ingest a crash report.
+ * - `POST /api/:project/envelope/`: Ingest the event of a Sentry envelope
+ *   sent by a Sentry SDK, with a DSN like `https://<ingest key>@host/<project>`
+ *   (see `./sentry.ts`). Gzip and deflate bodies are accepted.
+ * - `GET /api/reports`: List reports, newest first. Query parameters:
+ *   `limit`, `cursor`, `from`/`to` (ISO 8601 or ms since epoch), `type`, `os`,
+ *   `appVersion`, `errorName`, `fingerprint`, `project`, `tag` (`key:value`,
+ *   repeatable).
+ * - `GET /api/export/otlp`: Export reports as an OTLP/HTTP JSON logs request
+ *   (see `./otlp.ts`), with the query parameters of `GET /api/reports`. The
+ *   cursor of the next page is returned in `X-Crash-Report-Cursor`.
+ * - `GET /api/reports/:id`: Fetch a single report, with its stack `frames`
+ *   resolved through the uploaded source maps.
+ * - `DELETE /api/reports/:id`: Delete a report.
+ * - `GET /api/issues`: List issues (reports grouped by stack fingerprint),
+ *   most recently seen first. Query parameters: `limit`, `cursor`.
+ * - `GET /api/issues/:fingerprint`: Fetch a single issue.
+ * - `PATCH /api/issues/:fingerprint`: Change the status (`unresolved`,
+ *   `resolved` optionally in a release, `ignored`, `muted` until a time),
+ *   assignee or notes of an issue (see `./collector/issues.ts`).
+ * - `POST /api/issues/:fingerprint/resolve[?release=...]`, `.../unresolve`:
+ *   Shorthands to resolve an issue, or reopen it. They require a JSON
+ *   content type, which cross-site HTML forms cannot send.
+ * - `POST /api/sourcemaps?release=...&file=...[&project=...]`: Upload the
+ *   source map of a generated file (see `./collector/source_maps.ts`).
+ * - `GET /api/sourcemaps`: List uploaded source maps (`release` filter).
+ * - `GET /`, `/reports`, `/issues/...`: Web dashboard (see `./collector/dashboard.ts`).
+ *
+ * Ingestion requires a project ingest key once one has been created.
+ * Everything else requires an admin token, and is refused until one has been
+ * created unless `CRASH_REPORT_ALLOW_ANONYMOUS_ADMIN` is set (see
+ * `./collector/auth.ts`). Credentials are managed with the commands in
+ * `./collector/cli.ts`, e.g. `deno run -A src/collector.ts keys create my-app`.
+ *
+ * Ingestion is limited by body size (`413`), per-IP and per-key rate limits
+ * (`429` with `Retry-After`) and a per-issue storage cap: once an issue
+ * reached its cap, further reports are counted but not stored (`202`). The
+ * limits are set with environment variables (see `./collector/config.ts`).
+ *
+ * Stored reports are pruned by a retention period, a per-issue report limit
+ * (keeping the first reports and a sample of later ones) and a global storage
+ * quota (see `./collector/retention.ts`).
+ *
+ * New issues, regressions of resolved issues and spikes raise alerts, which
+ * are sent to the webhooks configured with `CRASH_REPORT_WEBHOOKS` (see
+ * `./collector/alerts.ts` and `./collector/webhooks.ts`).
+ *
+ * The storage backend is chosen with `CRASH_REPORT_STORAGE`. One store is
+ * opened at startup and shared by all requests for the server's lifetime.
  */
 
+import { createSpikeDetector, detectAlerts } from "./collector/alerts.ts";
+import {
+  type AdminAuthResult,
+  authenticateAdmin,
+  authenticateIngest,
+  type IngestAuthResult,
+} from "./collector/auth.ts";
+import { runCommand } from "./collector/cli.ts";
+import { loadConfig } from "./collector/config.ts";
+import { renderDashboard, renderNotFound } from "./collector/dashboard.ts";
+import {
+  applyIssueUpdate,
+  getIssueStatus,
+  type Issue,
+  type IssueUpdate,
+  parseIssueUpdate,
+} from "./collector/issues.ts";
+import { createRateLimiter } from "./collector/rate_limit.ts";
+import {
+  parseReportFilter,
+  type ReportFilter,
+  type StoredReport,
+} from "./collector/reports.ts";
+import { enforceQuota, startSweeper } from "./collector/retention.ts";
+import {
+  resolveReportFrames,
+  storeSourceMap,
+} from "./collector/source_maps.ts";
+import { openReportStore, type ReportStore } from "./collector/store.ts";
+import { createWebhookDispatcher } from "./collector/webhooks.ts";
+import { computeFingerprint } from "./fingerprint.ts";
+import { encodeOtlpLogs } from "./otlp.ts";
+import {
+  type CrashReportPayload,
+  parseCrashReportPayload,
+  type PayloadFieldError,
+} from "./payload.ts";
+import { parseSentryEnvelope, sentryEventToPayload } from "./sentry.ts";
+
 // --- Configuration ---
 const REPORT_PATH = "/api/report"; // The endpoint path clients should POST to
+// Sentry SDKs POST envelopes to the project of their DSN
+const ENVELOPE_PATH = new URLPattern({
+  pathname: "/api/:project/envelope{/}?",
+});
+const REPORTS_PATH = "/api/reports"; // List stored reports
+const OTLP_EXPORT_PATH = "/api/export/otlp"; // Stored reports as OTLP logs
+const REPORT_BY_ID = new URLPattern({ pathname: "/api/reports/:id" });
+const ISSUES_PATH = "/api/issues"; // List crash groups
+const ISSUE_BY_FINGERPRINT = new URLPattern({
+  pathname: "/api/issues/:fingerprint",
+});
+const ISSUE_ACTION = new URLPattern({
+  pathname: "/api/issues/:fingerprint/:action(resolve|unresolve)",
+});
+const SOURCEMAPS_PATH = "/api/sourcemaps"; // Upload and list source maps
+const MAX_ISSUE_UPDATE_BYTES = 64 * 1024; // Notes are limited to 10,000 characters
+const ENVELOPE_ENCODINGS = ["identity", "gzip", "deflate"]; // Content-Encoding
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Limits and other settings, see ./collector/config.ts
+const config = loadConfig();
+const ipLimiter = createRateLimiter(config.ipRateLimit);
+const keyLimiter = createRateLimiter(config.keyRateLimit);
+const spikes = createSpikeDetector(
+  config.spikeThreshold,
+  config.spikeWindowMs,
+);
+const webhooks = createWebhookDispatcher(config.webhooks, {
+  maxAttempts: config.webhookMaxAttempts,
+  publicUrl: config.publicUrl,
+});
+/** The store shared by all requests, opened on first use. */
+let storePromise: Promise<ReportStore> | undefined;
+/** The running eviction of reports over the storage quota, if any. */
+let quotaEviction: Promise<void> | undefined;
 
 /**
  * Handles incoming HTTP requests.
  * @param req The incoming Request object.
+ * @param info Connection info from `Deno.serve`, used for the client IP.
  * @returns A Promise resolving to the Response object.
  */
-async function handler(req: Request): Promise<Response> {
+export async function handler(
+  req: Request,
+  info?: Deno.ServeHandlerInfo,
+): Promise<Response> {
   const url = new URL(req.url);
   const { pathname } = url;
   const { method } = req;
@@ -21,18 +155,143 @@ async function handler(req: Request): Promise<Response> {
   console.log(`Received request: ${method} ${pathname}`);
 
   // --- Routing and Method Check ---
-  if (pathname !== REPORT_PATH) {
-    console.log(`-> Responding 404 Not Found (path mismatch)`);
-    return new Response("Not Found", { status: 404 });
+  if (pathname === REPORT_PATH) {
+    if (method !== "POST") return methodNotAllowed(method, "POST");
+    return await handleIngest(req, info);
+  }
+
+  const envelope = ENVELOPE_PATH.exec(url);
+  if (envelope) {
+    if (method !== "POST") return methodNotAllowed(method, "POST");
+    return await handleEnvelope(req, envelope.pathname.groups.project!, info);
+  }
+
+  // --- Authentication ---
+  // Everything else exposes stored reports and requires an admin token
+  let admin: AdminAuthResult;
+  try {
+    admin = await withStore((store) =>
+      authenticateAdmin(store, req, config.allowAnonymousAdmin)
+    );
+  } catch (err) {
+    console.error("! Error checking admin token:", err);
+    return new Response("Internal Server Error: Failed to authenticate", {
+      status: 500,
+    });
+  }
+  if (!admin.ok) {
+    console.log(`-> Responding 401 Unauthorized (${admin.reason})`);
+    return new Response(`Unauthorized: ${admin.reason}`, {
+      status: 401,
+      headers: {
+        // Basic lets browsers prompt for the token on dashboard pages
+        "WWW-Authenticate": pathname.startsWith("/api/")
+          ? 'Bearer realm="crash-report"'
+          : 'Basic realm="crash-report"',
+      },
+    });
   }
 
-  if (method !== "POST") {
-    console.log(`-> Responding 405 Method Not Allowed (method was ${method})`);
-    return new Response("Method Not Allowed", {
-      status: 405,
-      headers: { "Allow": "POST" }, // Indicate allowed method
+  if (pathname === REPORTS_PATH) {
+    if (method !== "GET") return methodNotAllowed(method, "GET");
+    return await handleListReports(url);
+  }
+
+  if (pathname === OTLP_EXPORT_PATH) {
+    if (method !== "GET") return methodNotAllowed(method, "GET");
+    return await handleExportOtlp(url);
+  }
+
+  if (pathname === ISSUES_PATH) {
+    if (method !== "GET") return methodNotAllowed(method, "GET");
+    return await handleListIssues(url);
+  }
+
+  if (pathname === SOURCEMAPS_PATH) {
+    if (method === "POST") return await handleUploadSourceMap(req, url);
+    if (method === "GET") return await handleListSourceMaps(url);
+    return methodNotAllowed(method, "GET, POST");
+  }
+
+  const issueMatch = ISSUE_BY_FINGERPRINT.exec(url);
+  if (issueMatch) {
+    const fingerprint = issueMatch.pathname.groups.fingerprint!;
+    if (method === "GET") return await handleGetIssue(fingerprint);
+    if (method === "PATCH") return await handlePatchIssue(req, fingerprint);
+    return methodNotAllowed(method, "GET, PATCH");
+  }
+
+  const issueAction = ISSUE_ACTION.exec(url);
+  if (issueAction) {
+    if (method !== "POST") return methodNotAllowed(method, "POST");
+    // HTML forms cannot send JSON, so a page the admin visits cannot change
+    // issues with the credentials the browser keeps for the dashboard
+    const contentType = req.headers.get("content-type");
+    if (!contentType?.toLowerCase().includes("application/json")) {
+      console.log(
+        `-> Responding 415 Unsupported Media Type (Content-Type was ${contentType})`,
+      );
+      return new Response("Unsupported Media Type: Expected application/json", {
+        status: 415,
+      });
+    }
+    const { fingerprint, action } = issueAction.pathname.groups;
+    const release = url.searchParams.get("release");
+    return await updateIssue(
+      fingerprint!,
+      action === "resolve"
+        ? { status: "resolved", resolvedInRelease: release || undefined }
+        : { status: "unresolved" },
+    );
+  }
+
+  const match = REPORT_BY_ID.exec(url);
+  if (match) {
+    const id = match.pathname.groups.id!;
+    if (method === "GET") return await handleGetReport(id);
+    if (method === "DELETE") return await handleDeleteReport(id);
+    return methodNotAllowed(method, "GET, DELETE");
+  }
+
+  if (!pathname.startsWith("/api/")) {
+    if (method !== "GET") return methodNotAllowed(method, "GET");
+    return await handleDashboard(url);
+  }
+
+  console.log(`-> Responding 404 Not Found (path mismatch)`);
+  return new Response("Not Found", { status: 404 });
+}
+
+/**
+ * Handles the web dashboard pages.
+ * @param url The request URL.
+ */
+async function handleDashboard(url: URL): Promise<Response> {
+  try {
+    const html = await withStore((store) => renderDashboard(store, url));
+    if (html === null) {
+      console.log(`-> Responding 404 Not Found (no dashboard page)`);
+      return htmlResponse(renderNotFound(), 404);
+    }
+    return htmlResponse(html);
+  } catch (err) {
+    console.error("! Error rendering dashboard:", err);
+    return new Response("Internal Server Error: Failed to render page", {
+      status: 500,
     });
   }
+}
+
+/**
+ * Handles `POST /api/report`: validates and stores a crash report.
+ * @param req The incoming Request object.
+ */
+async function handleIngest(
+  req: Request,
+  info?: Deno.ServeHandlerInfo,
+): Promise<Response> {
+  const auth = await admitIngest(req, info);
+  if (auth instanceof Response) return auth;
 
   // --- Content Type Check ---
   const contentType = req.headers.get("content-type");
@@ -46,9 +305,12 @@ async function handler(req: Request): Promise<Response> {
   }
 
   // --- Request Body Processing ---
+  const body = await readBodyWithLimit(req, config.maxBodyBytes);
+  if (body === null) return contentTooLarge();
+
   let reportData: unknown;
   try {
-    reportData = await req.json();
+    reportData = JSON.parse(body);
     console.log("-> Successfully parsed JSON body.");
   } catch (err) {
     console.error("! Error parsing JSON body:", err);
@@ -57,86 +319,805 @@ async function handler(req: Request): Promise<Response> {
     });
   }
 
-  // --- Basic Payload Validation ---
-  // Ensure it's an object and has the expected fields from the client script
-  if (
-    typeof reportData !== "object" ||
-    reportData === null ||
-    !("report" in reportData) ||
-    !("timestamp" in reportData)
-    // You could add more checks here, e.g., for reporterInfo
-  ) {
-    console.error("! Invalid report data structure received:", reportData);
+  // --- Payload Validation ---
+  // Check every field of the schema, upgrading legacy payloads
+  const parsed = parseCrashReportPayload(reportData);
+  if (!parsed.ok) return invalidPayload(parsed.errors);
+
+  // --- Storage ---
+  try {
+    const { id, fingerprint, stored } = await storeReport(
+      parsed.payload,
+      auth.project,
+    );
+    if (!stored) {
+      return jsonResponse(
+        {
+          message: "Report counted, storage limit for this issue reached",
+          fingerprint,
+        },
+        202,
+      );
+    }
+
+    // --- Success Response ---
+    return jsonResponse(
+      { message: "Report received successfully", id, fingerprint },
+      201, // 201 Created is appropriate here
+    );
+  } catch (err) {
+    console.error("! Error storing report:", err);
+    // Avoid leaking internal error details to the client
+    return new Response("Internal Server Error: Failed to store report", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `POST /api/:project/envelope/`: stores the event of a Sentry
+ * envelope as a report (see `./sentry.ts`). Other items (sessions, client
+ * reports, attachments, ...) are accepted and dropped, like envelopes
+ * without an event.
+ * @param req The incoming Request object.
+ * @param project The project of the URL, i.e. of the DSN.
+ */
+async function handleEnvelope(
+  req: Request,
+  project: string,
+  info?: Deno.ServeHandlerInfo,
+): Promise<Response> {
+  const auth = await admitIngest(req, info);
+  if (auth instanceof Response) return auth;
+  if (auth.project !== undefined && auth.project !== project) {
+    console.log(
+      `-> Responding 401 Unauthorized (key of project ${auth.project} sent to ${project})`,
+    );
     return new Response(
-      "Bad Request: Payload missing required fields (e.g., timestamp, report)",
-      { status: 400 },
+      `Unauthorized: The ingest key does not belong to project ${project}`,
+      { status: 401 },
     );
   }
 
-  // --- Deno KV Interaction ---
+  // --- Request Body Processing ---
+  // Sentry SDKs may compress envelopes; the limit applies after decompression
+  const encoding = req.headers.get("content-encoding")?.toLowerCase() ||
+    "identity";
+  if (!ENVELOPE_ENCODINGS.includes(encoding)) {
+    console.log(
+      `-> Responding 415 Unsupported Media Type (Content-Encoding was ${encoding})`,
+    );
+    return new Response(
+      `Unsupported Media Type: Expected one of the encodings ${
+        ENVELOPE_ENCODINGS.join(", ")
+      }`,
+      { status: 415 },
+    );
+  }
+  let body: Uint8Array | null;
   try {
-    // Open the default Deno KV store.
-    // For persistent storage across restarts, specify a path:
-    // const kv = await Deno.openKv("/path/to/your/crash_reports.db");
-    // Or ensure the DENO_KV_PATH environment variable is set when running.
-    // If no path is specified, data might be lost when the server stops.
-    console.log("-> Opening Deno KV store...");
-    const kv = await Deno.openKv();
-    console.log("-> Deno KV store opened.");
+    body = await readBodyBytesWithLimit(
+      req,
+      config.maxBodyBytes,
+      encoding === "identity" ? undefined : encoding as CompressionFormat,
+    );
+  } catch (err) {
+    console.error(`! Error decompressing ${encoding} body:`, err);
+    return new Response(`Bad Request: Invalid ${encoding} body`, {
+      status: 400,
+    });
+  }
+  if (body === null) return contentTooLarge();
 
-    // Generate a unique key for this report.
+  const envelope = parseSentryEnvelope(body);
+  if (!envelope.ok) {
+    console.error("! Invalid envelope received:", envelope.error);
+    return new Response(`Bad Request: ${envelope.error}`, { status: 400 });
+  }
+  const { header, items } = envelope.envelope;
+  const item = items.find((item) => item.header.type === "event");
+  const ignored = items.filter((other) => other !== item)
+    .map((other) => String(other.header.type));
+  if (ignored.length > 0) {
+    console.log(`-> Ignoring envelope item(s): ${ignored.join(", ")}`);
+  }
+  if (!item) return jsonResponse({});
+
+  let event: unknown;
+  try {
+    event = JSON.parse(new TextDecoder().decode(item.payload));
+  } catch (err) {
+    console.error("! Error parsing envelope event:", err);
+    return new Response(`Bad Request: Invalid event JSON - ${err}`, {
+      status: 400,
+    });
+  }
+  if (typeof event !== "object" || event === null || Array.isArray(event)) {
+    return new Response("Bad Request: The event must be a JSON object", {
+      status: 400,
+    });
+  }
+  const eventId = (event as Record<string, unknown>).event_id ??
+    header.event_id;
+
+  // --- Payload Validation ---
+  const parsed = parseCrashReportPayload(
+    sentryEventToPayload(event as Record<string, unknown>),
+  );
+  if (!parsed.ok) return invalidPayload(parsed.errors);
+
+  // --- Storage ---
+  try {
+    await storeReport(parsed.payload, project);
+    // Sentry SDKs expect the event id back
+    return jsonResponse({ id: typeof eventId === "string" ? eventId : null });
+  } catch (err) {
+    console.error("! Error storing report:", err);
+    return new Response("Internal Server Error: Failed to store report", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Applies the rate limits and checks the ingest key of a report.
+ * @param req The incoming Request object.
+ * @param info Connection info, for the client IP.
+ * @returns The authentication result, or the response refusing the report.
+ */
+async function admitIngest(
+  req: Request,
+  info?: Deno.ServeHandlerInfo,
+): Promise<{ project?: string; keyId?: string } | Response> {
+  // --- Rate Limiting (per client IP) ---
+  const clientIp = getClientIp(req, info);
+  const ipRetryAfter = ipLimiter.take(clientIp);
+  if (ipRetryAfter > 0) return tooManyRequests(`IP ${clientIp}`, ipRetryAfter);
+
+  // --- Authentication ---
+  let auth: IngestAuthResult;
+  try {
+    auth = await withStore((store) => authenticateIngest(store, req));
+  } catch (err) {
+    console.error("! Error checking ingest key:", err);
+    return new Response("Internal Server Error: Failed to authenticate", {
+      status: 500,
+    });
+  }
+  if (!auth.ok) {
+    console.log(`-> Responding 401 Unauthorized (${auth.reason})`);
+    return new Response(`Unauthorized: ${auth.reason}`, {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="crash-report"' },
+    });
+  }
+
+  // --- Rate Limiting (per ingest key) ---
+  const keyRetryAfter = keyLimiter.take(auth.keyId ?? "anonymous");
+  if (keyRetryAfter > 0) {
+    return tooManyRequests(`key ${auth.keyId ?? "anonymous"}`, keyRetryAfter);
+  }
+  return auth;
+}
+
+/**
+ * Stores a validated report under its fingerprint and raises its alerts.
+ * @param payload The validated payload.
+ * @param project The project of the ingest key, if any.
+ * @returns The report id and fingerprint, and whether the report was stored
+ *   or only counted because its issue reached the storage cap.
+ */
+async function storeReport(
+  payload: CrashReportPayload,
+  project: string | undefined,
+): Promise<{ id: string; fingerprint: string; stored: boolean }> {
+  const fingerprint = await computeFingerprint(payload);
+  const report: StoredReport & { fingerprint: string } = {
     // Using a UUID ensures uniqueness even if reports arrive simultaneously.
-    const reportId = crypto.randomUUID();
-    const key = ["reports", reportId]; // Store under a "reports" namespace
+    id: crypto.randomUUID(),
+    receivedAt: new Date().toISOString(),
+    payload,
+    fingerprint,
+    project,
+  };
+  const result = await withStore((store) =>
+    store.insertReport(report, {
+      maxPerWindow: config.fingerprintCap,
+      windowMs: config.fingerprintWindowMs,
+      maxPerIssue: config.maxReportsPerIssue,
+      samplePerIssue: config.issueSampleSize,
+    })
+  );
+  for (
+    const event of detectAlerts(
+      result,
+      report.id,
+      spikes,
+      config.spikeWindowMs,
+    )
+  ) {
+    console.log(`-> Raising ${event.type} alert for issue ${fingerprint}`);
+    webhooks.dispatch(event);
+  }
+
+  if (result.stored) {
+    console.log(
+      `-> Successfully stored report: ${report.id} (issue ${fingerprint})`,
+    );
+    await evictOverQuota();
+  } else {
+    // Crash loop: the occurrence is counted on the issue, the report dropped
+    console.log(`-> Counted report for capped issue ${fingerprint}`);
+  }
+  return { id: report.id, fingerprint, stored: result.stored };
+}
 
-    console.log(`-> Storing report with ID: ${reportId}`);
+/**
+ * Evicts the oldest reports once the stored reports take more than
+ * `CRASH_REPORT_MAX_STORAGE_MB`, rather than waiting for the next sweep.
+ * Reports stored meanwhile wait for the running eviction instead of starting
+ * another one. Failures are logged: the report is stored either way.
+ */
+function evictOverQuota(): Promise<void> {
+  quotaEviction ??= withStore((store) =>
+    enforceQuota(store, config.maxStorageBytes)
+  )
+    .then((evicted) => {
+      if (evicted) {
+        console.log(`-> Evicted ${evicted} report(s) over the storage quota`);
+      }
+    })
+    .catch((err) => console.error("! Error enforcing the storage quota:", err))
+    .finally(() => quotaEviction = undefined);
+  return quotaEviction;
+}
 
-    // Store the entire received JSON payload as the value.
-    const commitResult = await kv.set(key, reportData);
+/**
+ * Handles `GET /api/reports`: lists reports matching the query filters.
+ * @param url The request URL, holding the query parameters.
+ */
+async function handleListReports(url: URL): Promise<Response> {
+  const query = parseReportQuery(url);
+  if (query instanceof Response) return query;
 
-    // kv.set returns an AtomicOperationResult, check if it was successful
-    if (!commitResult.ok) {
-      throw new Error(
-        `KV commit failed for versionstamp: ${commitResult.versionstamp}`,
-      );
-    }
+  try {
+    const page = await withStore((store) =>
+      store.queryReports(query.filter, query.limit, query.cursor)
+    );
+    console.log(`-> Listing ${page.reports.length} report(s)`);
+    return jsonResponse(page);
+  } catch (err) {
+    console.error("! Error listing reports:", err);
+    return new Response("Internal Server Error: Failed to list reports", {
+      status: 500,
+    });
+  }
+}
 
-    kv.close(); // Close the KV connection when done with the request
-    console.log(`-> Successfully stored report: ${reportId}`);
+/**
+ * Handles `GET /api/export/otlp`: exports reports matching the query filters
+ * as an OTLP/HTTP JSON logs request, ready to be POSTed to the `/v1/logs`
+ * endpoint of an OpenTelemetry collector.
+ * @param url The request URL, holding the query parameters.
+ */
+async function handleExportOtlp(url: URL): Promise<Response> {
+  const query = parseReportQuery(url);
+  if (query instanceof Response) return query;
 
-    // --- Success Response ---
-    return new Response(
-      JSON.stringify({ message: "Report received successfully", id: reportId }),
-      {
-        status: 201, // 201 Created is appropriate here
-        headers: { "Content-Type": "application/json" },
+  try {
+    const page = await withStore((store) =>
+      store.queryReports(query.filter, query.limit, query.cursor)
+    );
+    console.log(`-> Exporting ${page.reports.length} report(s) as OTLP logs`);
+    const response = jsonResponse(encodeOtlpLogs(page.reports.map((report) => ({
+      payload: report.payload,
+      id: report.id,
+      observedAt: report.receivedAt,
+      attributes: {
+        "crash_report.fingerprint": report.fingerprint,
+        "crash_report.project": report.project,
       },
+    }))));
+    if (page.cursor) response.headers.set("X-Crash-Report-Cursor", page.cursor);
+    return response;
+  } catch (err) {
+    console.error("! Error exporting reports:", err);
+    return new Response("Internal Server Error: Failed to export reports", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `GET /api/issues`: lists crash groups, most recently seen first.
+ * @param url The request URL, holding the query parameters.
+ */
+async function handleListIssues(url: URL): Promise<Response> {
+  const params = url.searchParams;
+  const limit = parseLimitParam(params.get("limit"));
+  if (limit === null) return invalidLimit();
+
+  try {
+    const page = await withStore((store) =>
+      store.listIssues(limit, params.get("cursor") ?? undefined)
     );
+    console.log(`-> Listing ${page.issues.length} issue(s)`);
+    return jsonResponse({ ...page, issues: page.issues.map(withStatus) });
   } catch (err) {
-    console.error("! Error interacting with Deno KV:", err);
-    // Avoid leaking internal error details to the client
-    return new Response("Internal Server Error: Failed to store report", {
+    console.error("! Error listing issues:", err);
+    return new Response("Internal Server Error: Failed to list issues", {
       status: 500,
     });
   }
 }
 
-// Start the HTTP server
-Deno.serve({
-  port: 0,
-  onListen: ({ hostname, port }) => {
-    console.log(`Server listening on http://${hostname}:${port}`);
-    // --- Server Startup ---
-    console.log(`Crash Report Server starting...`);
+/**
+ * Handles `GET /api/issues/:fingerprint`.
+ * @param fingerprint The issue fingerprint.
+ */
+async function handleGetIssue(fingerprint: string): Promise<Response> {
+  try {
+    const issue = await withStore((store) => store.getIssue(fingerprint));
+    if (!issue) {
+      console.log(`-> Responding 404 Not Found (no issue ${fingerprint})`);
+      return new Response("Not Found", { status: 404 });
+    }
+    return jsonResponse(withStatus(issue));
+  } catch (err) {
+    console.error("! Error fetching issue:", err);
+    return new Response("Internal Server Error: Failed to fetch issue", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `PATCH /api/issues/:fingerprint`: changes the status, assignee or
+ * notes of an issue (see `parseIssueUpdate`).
+ * @param req The incoming request.
+ * @param fingerprint The issue fingerprint.
+ */
+async function handlePatchIssue(
+  req: Request,
+  fingerprint: string,
+): Promise<Response> {
+  const body = await readBodyWithLimit(req, MAX_ISSUE_UPDATE_BYTES);
+  if (body === null) {
+    console.log(`-> Responding 413 Content Too Large (issue update)`);
+    return new Response("Content Too Large", { status: 413 });
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch (err) {
+    console.log(`-> Responding 400 Bad Request (invalid JSON)`);
+    return new Response(`Bad Request: Invalid JSON - ${err}`, { status: 400 });
+  }
+  const parsed = parseIssueUpdate(data);
+  if (!parsed.ok) {
+    console.log(`-> Responding 400 Bad Request (${parsed.error})`);
+    return new Response(`Bad Request: ${parsed.error}`, { status: 400 });
+  }
+  return await updateIssue(fingerprint, parsed.update);
+}
+
+/**
+ * Applies an update to an issue and responds with the updated issue.
+ * @param fingerprint The issue fingerprint.
+ * @param update The validated update.
+ */
+async function updateIssue(
+  fingerprint: string,
+  update: IssueUpdate,
+): Promise<Response> {
+  try {
+    const issue = await withStore((store) =>
+      store.updateIssue(
+        fingerprint,
+        (issue) => applyIssueUpdate(issue, update),
+      )
+    );
+    if (!issue) {
+      console.log(`-> Responding 404 Not Found (no issue ${fingerprint})`);
+      return new Response("Not Found", { status: 404 });
+    }
     console.log(
-      `Listening for POST requests on http://localhost:${port}${REPORT_PATH}`,
+      `-> Updated issue ${fingerprint}: ${
+        Object.keys(update).join(", ")
+      } (status ${getIssueStatus(issue)})`,
+    );
+    return jsonResponse(withStatus(issue));
+  } catch (err) {
+    console.error("! Error updating issue:", err);
+    return new Response("Internal Server Error: Failed to update issue", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `GET /api/reports/:id`.
+ * @param id The report id.
+ */
+async function handleGetReport(id: string): Promise<Response> {
+  try {
+    const result = await withStore(async (store) => {
+      const report = await store.getReport(id);
+      return report &&
+        { ...report, frames: await resolveReportFrames(store, report) };
+    });
+    if (!result) {
+      console.log(`-> Responding 404 Not Found (no report ${id})`);
+      return new Response("Not Found", { status: 404 });
+    }
+    return jsonResponse(result);
+  } catch (err) {
+    console.error("! Error fetching report:", err);
+    return new Response("Internal Server Error: Failed to fetch report", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `DELETE /api/reports/:id`.
+ * @param id The report id.
+ */
+async function handleDeleteReport(id: string): Promise<Response> {
+  try {
+    const deleted = await withStore((store) => store.deleteReport(id));
+    if (!deleted) {
+      console.log(`-> Responding 404 Not Found (no report ${id})`);
+      return new Response("Not Found", { status: 404 });
+    }
+    console.log(`-> Deleted report: ${id}`);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    console.error("! Error deleting report:", err);
+    return new Response("Internal Server Error: Failed to delete report", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `POST /api/sourcemaps`: stores the source map in the request body
+ * for the generated file and release given as query parameters.
+ * @param req The incoming request.
+ * @param url The request URL, holding the query parameters.
+ */
+async function handleUploadSourceMap(
+  req: Request,
+  url: URL,
+): Promise<Response> {
+  const params = url.searchParams;
+  const release = params.get("release");
+  const file = params.get("file");
+  if (!release || !file) {
+    return new Response(
+      "Bad Request: 'release' and 'file' query parameters are required",
+      { status: 400 },
     );
-    console.log(`Using Deno KV for storage.`);
+  }
+
+  const content = await readBodyWithLimit(req, config.maxSourceMapBytes);
+  if (content === null) {
     console.log(
-      `  - To persist data, run with DENO_KV_PATH=./my_reports.kv or use Deno.openKv("./my_reports.kv")`,
+      `-> Responding 413 Content Too Large (limit ${config.maxSourceMapBytes} bytes)`,
     );
+    return new Response(
+      `Content Too Large: Source maps are limited to ${config.maxSourceMapBytes} bytes`,
+      { status: 413 },
+    );
+  }
+
+  try {
+    const result = await withStore((store) =>
+      storeSourceMap(store, {
+        project: params.get("project") ?? undefined,
+        release,
+        file,
+      }, content)
+    );
+    if (!result.ok) {
+      console.log(`-> Responding 400 Bad Request (${result.error})`);
+      return new Response(`Bad Request: ${result.error}`, { status: 400 });
+    }
     console.log(
-      `  - Required permissions: --allow-net --allow-read --allow-write (or --allow-env=DENO_KV_PATH)`,
+      `-> Stored source map for ${result.record.fileName} (release ${release})`,
+    );
+    return jsonResponse(result.record, 201);
+  } catch (err) {
+    console.error("! Error storing source map:", err);
+    return new Response("Internal Server Error: Failed to store source map", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Handles `GET /api/sourcemaps`: lists the uploaded source maps.
+ * @param url The request URL, holding the query parameters.
+ */
+async function handleListSourceMaps(url: URL): Promise<Response> {
+  try {
+    const sourceMaps = await withStore((store) =>
+      store.listSourceMaps(url.searchParams.get("release") ?? undefined)
     );
-  },
-}, handler);
+    return jsonResponse({ sourceMaps });
+  } catch (err) {
+    console.error("! Error listing source maps:", err);
+    return new Response("Internal Server Error: Failed to list source maps", {
+      status: 500,
+    });
+  }
+}
+
+// --- Helpers ---
+
+/**
+ * Returns the shared store, opening it on first use. A failed open is
+ * retried by the next request.
+ */
+function getStore(): Promise<ReportStore> {
+  if (!storePromise) {
+    storePromise = openReportStore(config, {
+      retentionMs: config.retentionMs,
+    });
+    storePromise.catch(() => {
+      storePromise = undefined;
+    });
+  }
+  return storePromise;
+}
+
+/**
+ * Runs `fn` against the shared store.
+ * @param fn The operation to run against the store.
+ */
+async function withStore<T>(
+  fn: (store: ReportStore) => Promise<T>,
+): Promise<T> {
+  return await fn(await getStore());
+}
+
+/**
+ * Parses a `limit` query parameter.
+ * @returns The page size, or `null` if invalid.
+ */
+function parseLimitParam(value: string | null): number | null {
+  const limit = Number(value ?? DEFAULT_PAGE_SIZE);
+  return Number.isInteger(limit) && limit >= 1 && limit <= MAX_PAGE_SIZE
+    ? limit
+    : null;
+}
+
+/**
+ * Parses the query parameters of report listings: `limit`, `cursor` and the
+ * filters (see `parseReportFilter`).
+ * @returns The query, or the `400` response for invalid parameters.
+ */
+function parseReportQuery(
+  url: URL,
+): { filter: ReportFilter; limit: number; cursor?: string } | Response {
+  const params = url.searchParams;
+
+  const limit = parseLimitParam(params.get("limit"));
+  if (limit === null) return invalidLimit();
+
+  const filter = parseReportFilter(params);
+  if (!filter) {
+    return new Response(
+      "Bad Request: from/to must be ISO 8601 dates or milliseconds since epoch, tag must be key:value",
+      { status: 400 },
+    );
+  }
+  return { filter, limit, cursor: params.get("cursor") ?? undefined };
+}
+
+function invalidLimit(): Response {
+  return new Response(
+    `Bad Request: limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+    { status: 400 },
+  );
+}
+
+function methodNotAllowed(method: string, allow: string): Response {
+  console.log(`-> Responding 405 Method Not Allowed (method was ${method})`);
+  return new Response("Method Not Allowed", {
+    status: 405,
+    headers: { "Allow": allow }, // Indicate allowed methods
+  });
+}
+
+/**
+ * Reads the request body as text, giving up once it exceeds `maxBytes`.
+ * @returns The body, or `null` if it is too large.
+ */
+async function readBodyWithLimit(
+  req: Request,
+  maxBytes: number,
+): Promise<string | null> {
+  const body = await readBodyBytesWithLimit(req, maxBytes);
+  return body && new TextDecoder().decode(body);
+}
+
+/**
+ * Reads the request body, giving up once it exceeds `maxBytes`.
+ * The `Content-Length` header is checked first, but not trusted: chunked
+ * bodies are counted while streaming.
+ * @param encoding Compression of the body to undo; the limit then applies to
+ *   the decompressed body as well.
+ * @returns The body, or `null` if it is too large.
+ */
+async function readBodyBytesWithLimit(
+  req: Request,
+  maxBytes: number,
+  encoding?: CompressionFormat,
+): Promise<Uint8Array | null> {
+  const declared = Number(req.headers.get("content-length"));
+  if (declared > maxBytes) return null;
+  if (!req.body) return new Uint8Array();
+
+  const stream = encoding
+    ? req.body.pipeThrough(new DecompressionStream(encoding))
+    : req.body;
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * Determines the client IP for rate limiting: the first `X-Forwarded-For`
+ * entry when running behind a trusted proxy, the peer address otherwise.
+ */
+function getClientIp(req: Request, info?: Deno.ServeHandlerInfo): string {
+  if (config.trustProxy) {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0].trim();
+    if (forwarded) return forwarded;
+  }
+  const addr = info?.remoteAddr;
+  return addr && "hostname" in addr ? addr.hostname : "unknown";
+}
+
+function contentTooLarge(): Response {
+  console.log(
+    `-> Responding 413 Content Too Large (limit ${config.maxBodyBytes} bytes)`,
+  );
+  return new Response(
+    `Content Too Large: Reports are limited to ${config.maxBodyBytes} bytes`,
+    { status: 413 },
+  );
+}
+
+function invalidPayload(errors: PayloadFieldError[]): Response {
+  console.error("! Invalid report data received:", errors);
+  return jsonResponse(
+    { error: "Bad Request: Invalid report payload", details: errors },
+    400,
+  );
+}
+
+function tooManyRequests(subject: string, retryAfter: number): Response {
+  console.log(`-> Responding 429 Too Many Requests (${subject})`);
+  return new Response("Too Many Requests", {
+    status: 429,
+    headers: { "Retry-After": String(retryAfter) },
+  });
+}
+
+function htmlResponse(html: string, status = 200): Response {
+  return new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+/** Fills in the effective status of an issue for API responses. */
+function withStatus(issue: Issue): Issue {
+  return { ...issue, status: getIssueStatus(issue) };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Run a management command, or start the HTTP server
+if (import.meta.main && Deno.args.length > 0) {
+  const store = await openReportStore(config);
+  let code: number;
+  try {
+    code = await runCommand(store, config, Deno.args);
+  } finally {
+    await store.close();
+  }
+  Deno.exit(code);
+} else if (import.meta.main) {
+  // Open the store before listening, so a misconfiguration fails right away
+  const store = await getStore();
+  startSweeper(store, {
+    maxAgeMs: config.retentionMs,
+    maxBytes: config.maxStorageBytes,
+  }, config.sweepIntervalMs);
+  if (
+    !config.allowAnonymousAdmin && !await store.hasCredentials("admin_tokens")
+  ) {
+    console.warn(
+      "No admin token created yet: the read API and the dashboard refuse all requests until one is (deno run -A src/collector.ts admin-tokens create <name>).",
+    );
+  }
+  Deno.serve({
+    port: 0,
+    onListen: ({ hostname, port }) => {
+      console.log(`Server listening on http://${hostname}:${port}`);
+      // --- Server Startup ---
+      console.log(`Crash Report Server starting...`);
+      console.log(
+        `Listening for POST requests on http://localhost:${port}${REPORT_PATH}`,
+      );
+      console.log(
+        `  - Sentry SDKs can use the DSN http://<ingest key>@localhost:${port}/<project>`,
+      );
+      console.log(
+        `Query stored reports at http://localhost:${port}${REPORTS_PATH}`,
+      );
+      console.log(
+        `  - Export them as OTLP logs from http://localhost:${port}${OTLP_EXPORT_PATH}`,
+      );
+      console.log(`Dashboard available at http://localhost:${port}/`);
+      console.log(
+        `  - Manage ingest keys and admin tokens with: deno run -A src/collector.ts keys|admin-tokens ...`,
+      );
+      console.log(
+        `  - Body limit ${config.maxBodyBytes} bytes, rate limits ${config.ipRateLimit}/min per IP and ${config.keyRateLimit}/min per key`,
+      );
+      console.log(
+        `Using ${store.backend} storage${
+          config.storagePath ? ` at ${config.storagePath}` : ""
+        }.`,
+      );
+      console.log(
+        `  - Choose with CRASH_REPORT_STORAGE=kv|sqlite|jsonl and CRASH_REPORT_STORAGE_PATH=...`,
+      );
+      console.log(
+        `  - Retention ${config.retentionMs || "off"} ms, storage quota ${
+          config.maxStorageBytes || "off"
+        } bytes, first ${
+          config.maxReportsPerIssue || "all"
+        } report(s) per issue kept (set with CRASH_REPORT_RETENTION_DAYS, CRASH_REPORT_MAX_STORAGE_MB, CRASH_REPORT_MAX_REPORTS_PER_ISSUE)`,
+      );
+      console.log(
+        `Sending alerts to ${config.webhooks.length} webhook(s), spikes above ${
+          config.spikeThreshold || "(off)"
+        } events in ${config.spikeWindowMs / 60_000} min.`,
+      );
+      console.log(
+        `  - Configure with CRASH_REPORT_WEBHOOKS='[{"url": "...", "format": "json|slack|discord"}]', test with: deno run -A src/collector.ts webhooks test`,
+      );
+      console.log(
+        `  - Required permissions: --allow-net --allow-read --allow-write (and --allow-env for the settings)`,
+      );
+    },
+  }, handler);
+}
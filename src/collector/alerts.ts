@@ -0,0 +1,151 @@
+/**
+ * Alerts of the collector: events worth telling someone about, detected at
+ * ingest and delivered through the configured webhooks (see `./webhooks.ts`).
+ *
+ * - `new`: The first occurrence of an issue.
+ * - `regressed`: An occurrence that reopens a resolved issue (see
+ *   `./issues.ts`).
+ * - `spike`: More than `CRASH_REPORT_SPIKE_THRESHOLD` occurrences of an issue
+ *   within `CRASH_REPORT_SPIKE_WINDOW_MIN` minutes. An issue alerts at most
+ *   once per window, so a crash loop sends one alert, not one per report.
+ *   Ignored and muted issues do not raise it.
+ * - `test`: Sent by the `webhooks test` command (see `./cli.ts`).
+ *
+ * Spikes are counted in memory, per minute, so the counts start over when the
+ * collector restarts.
+ */
+
+import { getIssueStatus, type Issue, type OccurrenceResult } from "./issues.ts";
+
+/** Kinds of alerts. */
+export type AlertEventType = "new" | "regressed" | "spike" | "test";
+
+/** All kinds of alerts, e.g. to validate configured webhooks. */
+export const ALERT_EVENT_TYPES: readonly AlertEventType[] = [
+  "new",
+  "regressed",
+  "spike",
+  "test",
+];
+
+/** An alert about an issue. */
+export interface AlertEvent {
+  type: AlertEventType;
+  /** The issue, after the occurrence that triggered the alert. */
+  issue: Issue;
+  /** The report that triggered the alert, if it was stored. */
+  reportId?: string;
+  /** For `spike`: the occurrences counted within the window. */
+  spike?: { count: number; windowMs: number };
+  /** ISO 8601 timestamp of the alert. */
+  timestamp: string;
+}
+
+/** Counts recent occurrences per issue, see `createSpikeDetector`. */
+export interface SpikeDetector {
+  /**
+   * Counts an occurrence.
+   * @param fingerprint The issue fingerprint.
+   * @param now The time of the occurrence (ms since epoch).
+   * @returns The occurrences within the window if this one makes the issue
+   *   spike (once per window), otherwise `null`.
+   */
+  record(fingerprint: string, now?: number): number | null;
+}
+
+interface SpikeCounter {
+  /** Occurrences per minute (minutes since epoch), for the last window. */
+  minutes: Map<number, number>;
+  /** Minute of the last spike alert. */
+  alertedAt?: number;
+}
+
+const MINUTE_MS = 60_000;
+/** Above this many tracked issues, issues without recent occurrences are dropped. */
+const MAX_IDLE_COUNTERS = 10_000;
+
+/**
+ * Creates a spike detector.
+ * @param threshold Occurrences within the window above which an issue spikes;
+ *   `0` disables detection.
+ * @param windowMs Length of the window, rounded up to whole minutes.
+ */
+export function createSpikeDetector(
+  threshold: number,
+  windowMs: number,
+): SpikeDetector {
+  const counters = new Map<string, SpikeCounter>();
+  const windowMinutes = Math.max(1, Math.ceil(windowMs / MINUTE_MS));
+
+  function dropOld(counter: SpikeCounter, minute: number) {
+    for (const key of counter.minutes.keys()) {
+      if (key <= minute - windowMinutes) counter.minutes.delete(key);
+    }
+  }
+
+  function pruneIdle(minute: number) {
+    for (const [fingerprint, counter] of counters) {
+      dropOld(counter, minute);
+      if (counter.minutes.size === 0) counters.delete(fingerprint);
+    }
+  }
+
+  return {
+    record(fingerprint, now = Date.now()) {
+      if (threshold <= 0) return null;
+      const minute = Math.floor(now / MINUTE_MS);
+      if (counters.size > MAX_IDLE_COUNTERS) pruneIdle(minute);
+
+      let counter = counters.get(fingerprint);
+      if (!counter) {
+        counter = { minutes: new Map() };
+        counters.set(fingerprint, counter);
+      }
+      dropOld(counter, minute);
+      counter.minutes.set(minute, (counter.minutes.get(minute) ?? 0) + 1);
+
+      let count = 0;
+      for (const n of counter.minutes.values()) count += n;
+      const quiet = counter.alertedAt === undefined ||
+        minute - counter.alertedAt >= windowMinutes;
+      if (count <= threshold || !quiet) return null;
+      counter.alertedAt = minute;
+      return count;
+    },
+  };
+}
+
+/**
+ * Lists the alerts raised by a new occurrence.
+ * @param result The result of `ReportStore.insertReport`.
+ * @param reportId The id of the new report.
+ * @param spikes The spike detector of the collector.
+ * @param spikeWindowMs The window of the spike detector, for the alert.
+ */
+export function detectAlerts(
+  result: OccurrenceResult,
+  reportId: string,
+  spikes: SpikeDetector,
+  spikeWindowMs: number,
+): AlertEvent[] {
+  const { issue } = result;
+  const base = {
+    issue,
+    reportId: result.stored ? reportId : undefined,
+    timestamp: new Date().toISOString(),
+  };
+  const events: AlertEvent[] = [];
+  if (result.isNew) events.push({ type: "new", ...base });
+  if (result.regressed) events.push({ type: "regressed", ...base });
+  const now = Date.parse(issue.lastSeen);
+  const count = spikes.record(issue.fingerprint, now);
+  const status = getIssueStatus(issue, now);
+  if (count !== null && status !== "ignored" && status !== "muted") {
+    events.push({
+      type: "spike",
+      ...base,
+      spike: { count, windowMs: spikeWindowMs },
+    });
+  }
+  return events;
+}
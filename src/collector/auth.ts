@@ -0,0 +1,279 @@
+/**
+ * Authentication for the collector.
+ *
+ * Two kinds of credentials, both stored as SHA-256 hashes only (the
+ * plain value is shown once, when it is created):
+ * - **Ingest keys** belong to a project and authorize `POST /api/report` and
+ *   the Sentry envelope endpoint. Reporters send them as
+ *   `Authorization: Bearer <key>`, or embed them in a DSN-style URL
+ *   (`https://<key>@collector.example.com`). Sentry SDKs send them as the
+ *   `sentry_key` of the `X-Sentry-Auth` header or of the query string.
+ * - **Admin tokens** authorize the read/delete API and the dashboard, sent as
+ *   `Authorization: Bearer <token>` or as the Basic auth password (so
+ *   browsers can prompt for it).
+ *
+ * Ingest keys are only enforced once the first one has been created, so a
+ * fresh collector accepts reports from anyone until keys are set up. Admin
+ * requests are refused until an admin token has been created, unless
+ * anonymous admin access is explicitly allowed
+ * (`CRASH_REPORT_ALLOW_ANONYMOUS_ADMIN`, e.g. for local development).
+ * Revoking every credential does not switch enforcement off again.
+ *
+ * Revoking a credential marks the record revoked; its hash no longer matches.
+ */
+
+import type { ReportStore } from "./store.ts";
+
+/** A project ingest key (without the secret). */
+export interface IngestKey {
+  id: string;
+  /** Project the reports sent with this key are filed under. */
+  project: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+/** An admin token (without the secret). */
+export interface AdminToken {
+  id: string;
+  /** Free-form label, e.g. who or what uses the token. */
+  name: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+/** Result of `authenticateIngest`. */
+export type IngestAuthResult =
+  | { ok: true; project?: string; keyId?: string }
+  | { ok: false; reason: string };
+
+/** Result of `authenticateAdmin`. */
+export type AdminAuthResult = { ok: true } | { ok: false; reason: string };
+
+/** The kinds of credentials. */
+export type CredentialKind = "ingest_keys" | "admin_tokens";
+
+/** A credential as stored, with the hash of its secret. */
+export type StoredCredential = (IngestKey | AdminToken) & { hash: string };
+
+/** Prefix of generated secrets, to make leaked ones easy to recognize. */
+const SECRET_PREFIX: Record<CredentialKind, string> = {
+  ingest_keys: "crk_",
+  admin_tokens: "cra_",
+};
+
+/**
+ * Creates a new ingest key for a project.
+ * @param store The report store.
+ * @param project The project name.
+ * @returns The key record and the secret, which is not stored and cannot be shown again.
+ */
+export async function createIngestKey(
+  store: ReportStore,
+  project: string,
+): Promise<{ secret: string; record: IngestKey }> {
+  const record: IngestKey = {
+    id: crypto.randomUUID(),
+    project,
+    createdAt: new Date().toISOString(),
+  };
+  return {
+    secret: await storeCredential(store, "ingest_keys", record),
+    record,
+  };
+}
+
+/**
+ * Creates a new admin token.
+ * @param store The report store.
+ * @param name A label for the token.
+ * @returns The token record and the secret, which is not stored and cannot be shown again.
+ */
+export async function createAdminToken(
+  store: ReportStore,
+  name: string,
+): Promise<{ secret: string; record: AdminToken }> {
+  const record: AdminToken = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: new Date().toISOString(),
+  };
+  return {
+    secret: await storeCredential(store, "admin_tokens", record),
+    record,
+  };
+}
+
+/**
+ * Revokes an ingest key.
+ * @returns `false` if no active key with this id exists.
+ */
+export function revokeIngestKey(
+  store: ReportStore,
+  id: string,
+): Promise<boolean> {
+  return store.revokeCredential("ingest_keys", id, new Date().toISOString());
+}
+
+/**
+ * Revokes an admin token.
+ * @returns `false` if no active token with this id exists.
+ */
+export function revokeAdminToken(
+  store: ReportStore,
+  id: string,
+): Promise<boolean> {
+  return store.revokeCredential("admin_tokens", id, new Date().toISOString());
+}
+
+/** Lists all ingest keys, including revoked ones. */
+export function listIngestKeys(store: ReportStore): Promise<IngestKey[]> {
+  return listCredentials<IngestKey>(store, "ingest_keys");
+}
+
+/** Lists all admin tokens, including revoked ones. */
+export function listAdminTokens(store: ReportStore): Promise<AdminToken[]> {
+  return listCredentials<AdminToken>(store, "admin_tokens");
+}
+
+/**
+ * Checks the ingest key of a request.
+ * @param store The report store.
+ * @param req The incoming request.
+ * @returns The project of the key, or the reason the request is refused.
+ */
+export async function authenticateIngest(
+  store: ReportStore,
+  req: Request,
+): Promise<IngestAuthResult> {
+  if (!await store.hasCredentials("ingest_keys")) return { ok: true };
+
+  const secret = getCredential(req) ?? getSentryKey(req);
+  if (!secret) return { ok: false, reason: "Missing ingest key" };
+  const record = await findCredential<IngestKey>(store, "ingest_keys", secret);
+  if (!record) return { ok: false, reason: "Invalid or revoked ingest key" };
+  return { ok: true, project: record.project, keyId: record.id };
+}
+
+/**
+ * Checks the admin token of a request. Until an admin token has been created,
+ * requests are refused unless anonymous access is allowed.
+ * @param store The report store.
+ * @param req The incoming request.
+ * @param allowAnonymous Whether to accept any request while no admin token
+ * exists (`CRASH_REPORT_ALLOW_ANONYMOUS_ADMIN`).
+ * @returns Whether the request may use the read/delete API, or the reason it
+ * is refused.
+ */
+export async function authenticateAdmin(
+  store: ReportStore,
+  req: Request,
+  allowAnonymous: boolean,
+): Promise<AdminAuthResult> {
+  if (!await store.hasCredentials("admin_tokens")) {
+    return allowAnonymous
+      ? { ok: true }
+      : { ok: false, reason: "No admin token has been created" };
+  }
+
+  const secret = getCredential(req);
+  if (!secret) return { ok: false, reason: "Admin token required" };
+  const record = await findCredential<AdminToken>(
+    store,
+    "admin_tokens",
+    secret,
+  );
+  if (!record) return { ok: false, reason: "Invalid or revoked admin token" };
+  return { ok: true };
+}
+
+/**
+ * Extracts the secret from the `Authorization` header: the Bearer token, or
+ * the Basic auth password (the user name if the password is empty, as with
+ * DSN-style URLs).
+ */
+function getCredential(req: Request): string | undefined {
+  const header = req.headers.get("authorization");
+  if (!header) return undefined;
+
+  const [scheme, value] = header.split(/\s+/, 2);
+  if (!value) return undefined;
+  if (scheme.toLowerCase() === "bearer") return value;
+  if (scheme.toLowerCase() === "basic") {
+    try {
+      const decoded = atob(value);
+      const separator = decoded.indexOf(":");
+      if (separator === -1) return decoded || undefined;
+      return decoded.slice(separator + 1) || decoded.slice(0, separator) ||
+        undefined;
+    } catch (_) {
+      return undefined; // Not valid base64
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the key sent by Sentry SDKs: the `sentry_key` of the
+ * `X-Sentry-Auth` header, or of the query string (browser SDKs avoid custom
+ * headers).
+ */
+function getSentryKey(req: Request): string | undefined {
+  const header = req.headers.get("x-sentry-auth");
+  const match = header?.match(/sentry_key=([^,\s]+)/);
+  if (match) return match[1];
+  return new URL(req.url).searchParams.get("sentry_key") || undefined;
+}
+
+/**
+ * Stores a credential under a newly generated secret.
+ * @returns The secret.
+ */
+async function storeCredential(
+  store: ReportStore,
+  kind: CredentialKind,
+  record: IngestKey | AdminToken,
+): Promise<string> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const secret = SECRET_PREFIX[kind] +
+    btoa(String.fromCharCode(...bytes))
+      .replaceAll("+", "-").replaceAll("/", "_").replaceAll("=", "");
+  await store.insertCredential(kind, {
+    ...record,
+    hash: await hashSecret(secret),
+  });
+  return secret;
+}
+
+async function listCredentials<T>(
+  store: ReportStore,
+  kind: CredentialKind,
+): Promise<T[]> {
+  return (await store.listCredentials(kind)).map(({ hash: _hash, ...record }) =>
+    record as T
+  );
+}
+
+async function findCredential<T>(
+  store: ReportStore,
+  kind: CredentialKind,
+  secret: string,
+): Promise<T | null> {
+  const credential = await store.findCredential(
+    kind,
+    await hashSecret(secret),
+  );
+  if (!credential) return null;
+  const { hash: _hash, ...record } = credential;
+  return record as T;
+}
+
+async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(secret),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
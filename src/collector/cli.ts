@@ -0,0 +1,152 @@
+/**
+ * Command line management commands for the collector.
+ *
+ * Run through the collector entry point, e.g.
+ * `deno run -A src/collector.ts keys create my-app`:
+ *
+ * - `keys create <project>`: Create an ingest key for a project.
+ * - `keys list`: List ingest keys.
+ * - `keys revoke <id>`: Revoke an ingest key.
+ * - `admin-tokens create <name>`: Create an admin token.
+ * - `admin-tokens list`: List admin tokens.
+ * - `admin-tokens revoke <id>`: Revoke an admin token.
+ * - `webhooks test`: Send a test alert to every configured webhook, e.g. to
+ *   check a receiver before pointing real alerts at it.
+ */
+
+import {
+  createAdminToken,
+  createIngestKey,
+  listAdminTokens,
+  listIngestKeys,
+  revokeAdminToken,
+  revokeIngestKey,
+} from "./auth.ts";
+import type { CollectorConfig } from "./config.ts";
+import type { ReportStore } from "./store.ts";
+import { deliverWebhook } from "./webhooks.ts";
+
+const USAGE = `Usage: collector.ts <command>
+
+Commands:
+  (none)                      Start the collector server
+  keys create <project>       Create an ingest key for a project
+  keys list                   List ingest keys
+  keys revoke <id>            Revoke an ingest key
+  admin-tokens create <name>  Create an admin token for the read API and dashboard
+  admin-tokens list           List admin tokens
+  admin-tokens revoke <id>    Revoke an admin token
+  webhooks test               Send a test alert to the configured webhooks`;
+
+/**
+ * Runs a management command.
+ * @param store The report store.
+ * @param config The collector configuration.
+ * @param args The command line arguments (without the script name).
+ * @returns The process exit code.
+ */
+export async function runCommand(
+  store: ReportStore,
+  config: CollectorConfig,
+  args: string[],
+): Promise<number> {
+  const [group, action, arg] = args;
+
+  if (group === "webhooks" && action === "test") {
+    return await testWebhooks(config);
+  }
+
+  if (group === "keys" || group === "admin-tokens") {
+    const isKeys = group === "keys";
+    switch (action) {
+      case "create": {
+        if (!arg) break;
+        const { secret, record } = isKeys
+          ? await createIngestKey(store, arg)
+          : await createAdminToken(store, arg);
+        console.log(
+          `Created ${isKeys ? "ingest key" : "admin token"} ${record.id}`,
+        );
+        console.log(`Secret (shown only once): ${secret}`);
+        return 0;
+      }
+      case "list": {
+        const records = isKeys
+          ? await listIngestKeys(store)
+          : await listAdminTokens(store);
+        for (const record of records) {
+          const label = "project" in record ? record.project : record.name;
+          const state = record.revokedAt
+            ? `revoked ${record.revokedAt}`
+            : "active";
+          console.log(
+            `${record.id}  ${label}  created ${record.createdAt}  ${state}`,
+          );
+        }
+        if (records.length === 0) console.log("(none)");
+        return 0;
+      }
+      case "revoke": {
+        if (!arg) break;
+        const revoked = isKeys
+          ? await revokeIngestKey(store, arg)
+          : await revokeAdminToken(store, arg);
+        if (!revoked) {
+          console.error(`No active entry with id ${arg}`);
+          return 1;
+        }
+        console.log(`Revoked ${arg}`);
+        return 0;
+      }
+    }
+  }
+
+  console.error(USAGE);
+  return 2;
+}
+
+/**
+ * Sends a test alert about a made-up issue to every configured webhook.
+ * @returns The process exit code: `1` if a webhook did not accept it.
+ */
+async function testWebhooks(config: CollectorConfig): Promise<number> {
+  if (config.webhooks.length === 0) {
+    console.error("No webhooks configured, set CRASH_REPORT_WEBHOOKS");
+    return 1;
+  }
+  const now = new Date().toISOString();
+  const event = {
+    type: "test" as const,
+    issue: {
+      fingerprint: "test",
+      type: "error",
+      errorName: "Error",
+      title: "Test alert from the crash report collector",
+      culprit: "main (main.ts)",
+      firstSeen: now,
+      lastSeen: now,
+      count: 1,
+      versions: [],
+      lastReportId: "test",
+      windowStart: now,
+      windowStored: 1,
+      droppedCount: 0,
+    },
+    timestamp: now,
+  };
+
+  let failed = 0;
+  for (const webhook of config.webhooks) {
+    const delivered = await deliverWebhook(webhook, event, {
+      maxAttempts: config.webhookMaxAttempts,
+      publicUrl: config.publicUrl,
+    });
+    if (!delivered) failed++;
+  }
+  console.log(
+    `Delivered to ${
+      config.webhooks.length - failed
+    } of ${config.webhooks.length} webhook(s)`,
+  );
+  return failed ? 1 : 0;
+}
@@ -0,0 +1,247 @@
+/**
+ * Collector configuration, read from environment variables with defaults.
+ *
+ * Every variable is optional. Without `--allow-env` for a variable, its
+ * default is used.
+ *
+ * | Variable                              | Default    | Meaning                                            |
+ * | ------------------------------------- | ---------- | -------------------------------------------------- |
+ * | `CRASH_REPORT_MAX_BODY_BYTES`         | `262144`   | Maximum size of a report body                      |
+ * | `CRASH_REPORT_IP_RATE_LIMIT`          | `60`       | Reports per minute per client IP (`0` disables)    |
+ * | `CRASH_REPORT_KEY_RATE_LIMIT`         | `600`      | Reports per minute per ingest key (`0` disables)   |
+ * | `CRASH_REPORT_TRUST_PROXY`            | `false`    | Take the client IP from `X-Forwarded-For`          |
+ * | `CRASH_REPORT_ALLOW_ANONYMOUS_ADMIN`  | `false`    | No admin token needed until one is created         |
+ * | `CRASH_REPORT_FINGERPRINT_CAP`        | `100`      | Reports stored per issue per window (`0` disables) |
+ * | `CRASH_REPORT_FINGERPRINT_WINDOW_SEC` | `3600`     | Length of the per-issue window                     |
+ * | `CRASH_REPORT_MAX_SOURCEMAP_BYTES`    | `33554432` | Maximum size of an uploaded source map             |
+ * | `CRASH_REPORT_MAX_REPORTS_PER_ISSUE`  | `0`        | First reports kept per issue (`0` disables)        |
+ * | `CRASH_REPORT_ISSUE_SAMPLE_SIZE`      | `20`       | Later reports kept per issue as a random sample    |
+ * | `CRASH_REPORT_RETENTION_DAYS`         | `0`        | Delete reports older than this (`0` keeps them)    |
+ * | `CRASH_REPORT_MAX_STORAGE_MB`         | `0`        | Evict the oldest reports above this (`0` disables) |
+ * | `CRASH_REPORT_SWEEP_INTERVAL_SEC`     | `600`      | How often retention and the quota are enforced     |
+ * | `CRASH_REPORT_STORAGE`                | `kv`       | Storage backend: `kv`, `sqlite` or `jsonl`         |
+ * | `CRASH_REPORT_STORAGE_PATH`           | (backend)  | Database file or directory, see `./store.ts`       |
+ * | `CRASH_REPORT_WEBHOOKS`               | `[]`       | Alert webhooks as JSON, see below                  |
+ * | `CRASH_REPORT_WEBHOOK_MAX_ATTEMPTS`   | `5`        | Delivery attempts per alert and webhook            |
+ * | `CRASH_REPORT_SPIKE_THRESHOLD`        | `100`      | Events per window that make an issue spike         |
+ * | `CRASH_REPORT_SPIKE_WINDOW_MIN`       | `10`       | Window in which spike events are counted           |
+ * | `CRASH_REPORT_PUBLIC_URL`             | (none)     | Public URL of the collector, for links in alerts   |
+ *
+ * `CRASH_REPORT_WEBHOOKS` is a JSON array of webhooks (see `./webhooks.ts`),
+ * e.g. `[{ "url": "https://hooks.slack.com/...", "format": "slack",
+ * "events": ["new", "regressed"] }]`. `format` defaults to `json` and
+ * `events` to `new`, `regressed` and `spike`. Invalid entries are skipped
+ * with a warning.
+ */
+
+import { ALERT_EVENT_TYPES, type AlertEventType } from "./alerts.ts";
+import type { StorageBackend } from "./store.ts";
+import {
+  type Webhook,
+  WEBHOOK_FORMATS,
+  type WebhookFormat,
+} from "./webhooks.ts";
+
+const STORAGE_BACKENDS: readonly StorageBackend[] = ["kv", "sqlite", "jsonl"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Alert kinds a webhook gets when it lists none. */
+const DEFAULT_WEBHOOK_EVENTS: readonly AlertEventType[] = [
+  "new",
+  "regressed",
+  "spike",
+];
+
+/** Settings of the collector. */
+export interface CollectorConfig {
+  /** Maximum size of a report body in bytes; larger bodies get `413`. */
+  maxBodyBytes: number;
+  /** Reports per minute per client IP, `0` to disable. */
+  ipRateLimit: number;
+  /** Reports per minute per ingest key (or anonymous), `0` to disable. */
+  keyRateLimit: number;
+  /** Whether to take the client IP from the `X-Forwarded-For` header. */
+  trustProxy: boolean;
+  /**
+   * Whether the read/delete API and the dashboard accept requests without a
+   * token while no admin token has been created. Otherwise they refuse all
+   * requests until one is.
+   */
+  allowAnonymousAdmin: boolean;
+  /**
+   * Reports stored per issue per window. Further reports of the same issue
+   * are only counted, so a crash loop cannot fill the store. `0` to disable.
+   */
+  fingerprintCap: number;
+  /** Length of the per-issue window in milliseconds. */
+  fingerprintWindowMs: number;
+  /** Maximum size of an uploaded source map in bytes; larger ones get `413`. */
+  maxSourceMapBytes: number;
+  /**
+   * First reports kept per issue, `0` to disable. Later reports of the issue
+   * are only kept as part of a random sample of `issueSampleSize` reports.
+   */
+  maxReportsPerIssue: number;
+  /** Later reports kept per issue once `maxReportsPerIssue` is reached. */
+  issueSampleSize: number;
+  /** Age in milliseconds after which reports are deleted, `0` to keep them. */
+  retentionMs: number;
+  /** Size of the stored reports in bytes above which the oldest are evicted, `0` to disable. */
+  maxStorageBytes: number;
+  /** Interval of the sweeper enforcing retention and the quota, in milliseconds. */
+  sweepIntervalMs: number;
+  /** Where reports, issues, credentials and source maps are stored. */
+  storage: StorageBackend;
+  /** Database file (`kv`, `sqlite`) or directory (`jsonl`); backend default if unset. */
+  storagePath?: string;
+  /** Webhooks alerts are sent to. */
+  webhooks: Webhook[];
+  /** Delivery attempts per alert and webhook, including the first one. */
+  webhookMaxAttempts: number;
+  /** Events of an issue within the spike window above which it spikes, `0` to disable. */
+  spikeThreshold: number;
+  /** Length of the spike window in milliseconds. */
+  spikeWindowMs: number;
+  /** Public base URL of the collector, for links to the dashboard in alerts. */
+  publicUrl?: string;
+}
+
+/**
+ * Reads the configuration from the environment.
+ * @returns The configuration, with defaults for unset variables.
+ */
+export function loadConfig(): CollectorConfig {
+  return {
+    maxBodyBytes: envNumber("CRASH_REPORT_MAX_BODY_BYTES", 256 * 1024),
+    ipRateLimit: envNumber("CRASH_REPORT_IP_RATE_LIMIT", 60),
+    keyRateLimit: envNumber("CRASH_REPORT_KEY_RATE_LIMIT", 600),
+    trustProxy: envBoolean("CRASH_REPORT_TRUST_PROXY", false),
+    allowAnonymousAdmin: envBoolean(
+      "CRASH_REPORT_ALLOW_ANONYMOUS_ADMIN",
+      false,
+    ),
+    fingerprintCap: envNumber("CRASH_REPORT_FINGERPRINT_CAP", 100),
+    fingerprintWindowMs:
+      envNumber("CRASH_REPORT_FINGERPRINT_WINDOW_SEC", 3600) *
+      1000,
+    maxSourceMapBytes: envNumber(
+      "CRASH_REPORT_MAX_SOURCEMAP_BYTES",
+      32 * 1024 * 1024,
+    ),
+    maxReportsPerIssue: envNumber("CRASH_REPORT_MAX_REPORTS_PER_ISSUE", 0),
+    issueSampleSize: envNumber("CRASH_REPORT_ISSUE_SAMPLE_SIZE", 20),
+    retentionMs: envNumber("CRASH_REPORT_RETENTION_DAYS", 0) * DAY_MS,
+    maxStorageBytes: envNumber("CRASH_REPORT_MAX_STORAGE_MB", 0) * 1024 * 1024,
+    sweepIntervalMs: envNumber("CRASH_REPORT_SWEEP_INTERVAL_SEC", 600) * 1000,
+    storage: envStorageBackend("CRASH_REPORT_STORAGE", "kv"),
+    storagePath: env("CRASH_REPORT_STORAGE_PATH") || undefined,
+    webhooks: envWebhooks("CRASH_REPORT_WEBHOOKS"),
+    webhookMaxAttempts: Math.max(
+      1,
+      envNumber("CRASH_REPORT_WEBHOOK_MAX_ATTEMPTS", 5),
+    ),
+    spikeThreshold: envNumber("CRASH_REPORT_SPIKE_THRESHOLD", 100),
+    spikeWindowMs: envNumber("CRASH_REPORT_SPIKE_WINDOW_MIN", 10) * 60 * 1000,
+    publicUrl: env("CRASH_REPORT_PUBLIC_URL") || undefined,
+  };
+}
+
+/**
+ * Reads an environment variable, treating a missing permission like an unset
+ * variable.
+ */
+function env(name: string): string | undefined {
+  try {
+    return Deno.env.get(name);
+  } catch (_) {
+    return undefined; // No --allow-env for this variable
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = env(name);
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.warn(`Ignoring invalid ${name}=${value}, using ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+}
+
+function envBoolean(name: string, fallback: boolean): boolean {
+  const value = env(name)?.toLowerCase();
+  if (value === undefined || value === "") return fallback;
+  return value === "1" || value === "true" || value === "yes";
+}
+
+function envStorageBackend(
+  name: string,
+  fallback: StorageBackend,
+): StorageBackend {
+  const value = env(name)?.toLowerCase();
+  if (value === undefined || value === "") return fallback;
+  if (STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    return value as StorageBackend;
+  }
+  console.warn(`Ignoring invalid ${name}=${value}, using ${fallback}`);
+  return fallback;
+}
+
+function envWebhooks(name: string): Webhook[] {
+  const value = env(name);
+  if (value === undefined || value === "") return [];
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch (err) {
+    console.warn(`Ignoring invalid ${name} (not JSON): ${err}`);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.warn(`Ignoring invalid ${name}: expected a JSON array`);
+    return [];
+  }
+
+  const webhooks: Webhook[] = [];
+  entries.forEach((entry, i) => {
+    const problem = checkWebhook(entry);
+    if (problem) {
+      console.warn(`Ignoring webhook ${i} of ${name}: ${problem}`);
+      return;
+    }
+    const { url, format, events, secret } = entry as Partial<Webhook>;
+    webhooks.push({
+      url: url!,
+      format: format ?? "json",
+      events: events ?? [...DEFAULT_WEBHOOK_EVENTS],
+      secret: secret || undefined,
+    });
+  });
+  return webhooks;
+}
+
+/** Returns what is wrong with a configured webhook, if anything. */
+function checkWebhook(entry: unknown): string | null {
+  if (typeof entry !== "object" || entry === null) return "not an object";
+  const { url, format, events, secret } = entry as Record<string, unknown>;
+  if (typeof url !== "string" || !/^https?:\/\/./.test(url)) {
+    return "`url` must be an http(s) URL";
+  }
+  if (
+    format !== undefined &&
+    !WEBHOOK_FORMATS.includes(format as WebhookFormat)
+  ) {
+    return `\`format\` must be one of ${WEBHOOK_FORMATS.join(", ")}`;
+  }
+  if (
+    events !== undefined &&
+    (!Array.isArray(events) ||
+      !events.every((event) => ALERT_EVENT_TYPES.includes(event)))
+  ) {
+    return `\`events\` must list some of ${ALERT_EVENT_TYPES.join(", ")}`;
+  }
+  if (secret !== undefined && typeof secret !== "string") {
+    return "`secret` must be a string";
+  }
+  return null;
+}
@@ -0,0 +1,587 @@
+/**
+ * Server-rendered web dashboard for the collector.
+ *
+ * Plain HTML with inline CSS: no JavaScript, no external CDN or fonts, so it
+ * works on an air-gapped box. Pages:
+ * - `/`: Issues (grouped reports) with their occurrence counts over the last
+ *   14 days.
+ * - `/issues/:fingerprint`: One issue, with its status, assignee and notes, a
+ *   30-day chart and its latest reports.
+ * - `/reports`: Report list with filters (same query parameters as `GET /api/reports`).
+ * - `/reports/:id`: Report detail with the highlighted stack trace, the
+ *   user's comment, breadcrumbs, tags, user, contexts and `reporterInfo`.
+ *   Frames resolved through uploaded source maps are shown with their
+ *   original locations and source lines.
+ */
+
+import { type Breadcrumb, isBreadcrumbLevel } from "../breadcrumbs.ts";
+import {
+  getIssueHistory,
+  getIssueStatus,
+  type Issue,
+  type IssueDayCount,
+} from "./issues.ts";
+import {
+  getErrorName,
+  parseReportFilter,
+  type ReportFilter,
+  type StoredReport,
+} from "./reports.ts";
+import { type ResolvedFrame, resolveReportFrames } from "./source_maps.ts";
+import type { ReportStore } from "./store.ts";
+
+const PAGE_SIZE = 50;
+
+const ISSUE_PAGE = new URLPattern({ pathname: "/issues/:fingerprint" });
+const REPORT_PAGE = new URLPattern({ pathname: "/reports/:id" });
+
+/**
+ * Renders the dashboard page for a URL.
+ * @param store The report store.
+ * @param url The request URL.
+ * @returns The HTML document, or `null` if no page matches the path.
+ */
+export async function renderDashboard(
+  store: ReportStore,
+  url: URL,
+): Promise<string | null> {
+  const params = url.searchParams;
+  const cursor = params.get("cursor") ?? undefined;
+
+  if (url.pathname === "/") {
+    const page = await store.listIssues(PAGE_SIZE, cursor);
+    const histories = await Promise.all(
+      page.issues.map((issue) => getIssueHistory(store, issue.fingerprint, 14)),
+    );
+    return layout(
+      "Issues",
+      renderIssueTable(page.issues, histories) +
+        renderPager(url, page.cursor),
+    );
+  }
+
+  if (url.pathname === "/reports") {
+    const filter = parseReportFilter(params) ?? {};
+    const page = await store.queryReports(filter, PAGE_SIZE, cursor);
+    return layout(
+      "Reports",
+      renderFilterForm(filter) + renderReportTable(page.reports) +
+        renderPager(url, page.cursor),
+    );
+  }
+
+  const issueMatch = ISSUE_PAGE.exec(url);
+  if (issueMatch) {
+    const issue = await store.getIssue(issueMatch.pathname.groups.fingerprint!);
+    if (!issue) return null;
+    const history = await getIssueHistory(store, issue.fingerprint, 30);
+    const reports = await store.queryReports(
+      { fingerprint: issue.fingerprint },
+      20,
+    );
+    return layout(
+      issue.title,
+      renderIssueDetail(issue, history, reports.reports),
+    );
+  }
+
+  const reportMatch = REPORT_PAGE.exec(url);
+  if (reportMatch) {
+    const report = await store.getReport(reportMatch.pathname.groups.id!);
+    if (!report) return null;
+    const frames = await resolveReportFrames(store, report);
+    return layout(`Report ${report.id}`, renderReportDetail(report, frames));
+  }
+
+  return null;
+}
+
+/**
+ * Renders the "not found" page.
+ */
+export function renderNotFound(): string {
+  return layout("Not Found", `<p>Nothing here.</p>`);
+}
+
+// --- Pages ---
+
+function renderIssueTable(
+  issues: Issue[],
+  histories: IssueDayCount[][],
+): string {
+  if (issues.length === 0) return `<p class="muted">No issues yet.</p>`;
+  const rows = issues.map((issue, i) => `
+    <tr>
+      <td>
+        <a href="/issues/${encodeURIComponent(issue.fingerprint)}">
+          <strong>${escapeHtml(issue.errorName)}</strong>: ${
+    escapeHtml(truncate(issue.title, 120))
+  }
+        </a>
+        <div class="muted">${escapeHtml(issue.culprit ?? issue.type)}</div>
+      </td>
+      <td>${renderChart(histories[i], 84, 24)}</td>
+      <td class="num">${issue.count}</td>
+      <td>${describeStatus(issue)}</td>
+      <td>${escapeHtml(issue.versions.join(", "))}</td>
+      <td>${formatTime(issue.lastSeen)}</td>
+    </tr>`).join("");
+  return `
+    <table>
+      <thead><tr>
+        <th>Issue</th><th>Last 14 days</th><th>Events</th><th>Status</th><th>Versions</th><th>Last seen</th>
+      </tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+function renderIssueDetail(
+  issue: Issue,
+  history: IssueDayCount[],
+  reports: StoredReport[],
+): string {
+  // Issues stored before retention was added do not track their stored count
+  const storedCount = issue.storedCount ?? issue.count - issue.droppedCount;
+  return `
+    <dl>
+      <dt>Error</dt><dd>${escapeHtml(issue.errorName)}</dd>
+      <dt>Culprit</dt><dd>${escapeHtml(issue.culprit ?? "-")}</dd>
+      <dt>Status</dt><dd>${describeStatus(issue)}</dd>
+      <dt>Assignee</dt><dd>${escapeHtml(issue.assignee ?? "-")}</dd>
+      <dt>Events</dt><dd>${issue.count}</dd>
+      <dt>Stored reports</dt><dd>${storedCount}</dd>
+      <dt>First seen</dt><dd>${formatTime(issue.firstSeen)}</dd>
+      <dt>Last seen</dt><dd>${formatTime(issue.lastSeen)}</dd>
+      <dt>Versions</dt><dd>${escapeHtml(issue.versions.join(", ") || "-")}</dd>
+      <dt>Fingerprint</dt><dd><code>${escapeHtml(issue.fingerprint)}</code></dd>
+    </dl>
+    ${
+    issue.notes
+      ? `<h2>Notes</h2><p class="comment">${escapeHtml(issue.notes)}</p>`
+      : ""
+  }
+    <h2>Last 30 days</h2>
+    ${renderChart(history, 600, 80)}
+    <h2>Latest reports</h2>
+    ${renderReportTable(reports)}
+    <p><a href="/reports?fingerprint=${
+    encodeURIComponent(issue.fingerprint)
+  }">All reports of this issue</a></p>`;
+}
+
+function renderFilterForm(filter: ReportFilter): string {
+  const field = (name: keyof ReportFilter, label: string) => `
+    <label>${label}
+      <input name="${name}" value="${escapeHtml(String(filter[name] ?? ""))}">
+    </label>`;
+  const dateField = (name: "from" | "to", label: string) => `
+    <label>${label}
+      <input type="date" name="${name}" value="${
+    filter[name] === undefined
+      ? ""
+      : new Date(filter[name]!).toISOString().slice(0, 10)
+  }">
+    </label>`;
+  const tags = Object.entries(filter.tags ?? {}).map(([key, value]) =>
+    `${key}:${value}`
+  );
+  return `
+    <form method="get" action="/reports" class="filters">
+      ${field("type", "Type")}
+      ${field("os", "OS")}
+      ${field("appVersion", "App version")}
+      ${field("errorName", "Error name")}
+      <label>Tag (key:value)
+        <input name="tag" value="${escapeHtml(tags[0] ?? "")}">
+      </label>
+      ${
+    tags.slice(1).map((tag) =>
+      `<input type="hidden" name="tag" value="${escapeHtml(tag)}">`
+    ).join("")
+  }
+      ${dateField("from", "From")}
+      ${dateField("to", "To")}
+      ${
+    filter.fingerprint
+      ? `<input type="hidden" name="fingerprint" value="${
+        escapeHtml(filter.fingerprint)
+      }">`
+      : ""
+  }
+      <button type="submit">Filter</button>
+      <a href="/reports">Reset</a>
+    </form>`;
+}
+
+function renderReportTable(reports: StoredReport[]): string {
+  if (reports.length === 0) return `<p class="muted">No reports.</p>`;
+  const rows = reports.map((report) => {
+    const { payload } = report;
+    return `
+    <tr>
+      <td><a href="/reports/${encodeURIComponent(report.id)}">${
+      formatTime(report.receivedAt)
+    }</a></td>
+      <td>${escapeHtml(payload.report.type ?? "unknown")}</td>
+      <td>${escapeHtml(getErrorName(payload) ?? "-")}</td>
+      <td>${escapeHtml(truncate(reportMessage(report), 100))}</td>
+      <td>${escapeHtml(payload.reporterInfo.os)}</td>
+      <td>${escapeHtml(payload.reporterInfo.appVersion ?? "-")}</td>
+    </tr>`;
+  }).join("");
+  return `
+    <table>
+      <thead><tr>
+        <th>Received</th><th>Type</th><th>Error</th><th>Message</th><th>OS</th><th>Version</th>
+      </tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+function renderReportDetail(
+  report: StoredReport,
+  frames: ResolvedFrame[],
+): string {
+  const { payload } = report;
+  const thrown = thrownValue(report);
+  const stack = typeof thrown?.stack === "string" ? thrown.stack : undefined;
+  const info = Object.entries(payload.reporterInfo)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) =>
+      `<dt>${escapeHtml(key)}</dt><dd>${escapeHtml(formatValue(value))}</dd>`
+    ).join("");
+
+  return `
+    <dl>
+      <dt>Received</dt><dd>${formatTime(report.receivedAt)}</dd>
+      <dt>Sent</dt><dd>${formatTime(payload.timestamp)}</dd>
+      <dt>Type</dt><dd>${escapeHtml(payload.report.type ?? "unknown")}</dd>
+      <dt>Message</dt><dd>${escapeHtml(reportMessage(report))}</dd>
+      ${
+    payload.userComment
+      ? `<dt>User comment</dt><dd class="comment">${
+        escapeHtml(payload.userComment)
+      }</dd>`
+      : ""
+  }
+      ${
+    payload.suppressedDuplicates
+      ? `<dt>Suppressed duplicates</dt><dd>${payload.suppressedDuplicates}</dd>`
+      : ""
+  }
+      ${
+    report.fingerprint
+      ? `<dt>Issue</dt><dd><a href="/issues/${
+        encodeURIComponent(report.fingerprint)
+      }"><code>${escapeHtml(report.fingerprint)}</code></a></dd>`
+      : ""
+  }
+    </dl>
+    ${
+    frames.some((frame) => frame.generated)
+      ? `<h2>Stack trace</h2>${renderFrames(frames)}${
+        stack
+          ? `<details><summary>Raw stack trace</summary>${
+            highlightStack(stack)
+          }</details>`
+          : ""
+      }`
+      : stack
+      ? `<h2>Stack trace</h2>${highlightStack(stack)}`
+      : ""
+  }
+    ${
+    Array.isArray(payload.breadcrumbs) && payload.breadcrumbs.length
+      ? `<h2>Breadcrumbs</h2>${renderBreadcrumbs(payload.breadcrumbs)}`
+      : ""
+  }
+    ${
+    payload.tags && Object.keys(payload.tags).length
+      ? `<h2>Tags</h2>${renderTags(payload.tags)}`
+      : ""
+  }
+    ${payload.user ? `<h2>User</h2>${renderFields(payload.user)}` : ""}
+    ${
+    Object.entries(payload.contexts ?? {}).map(([name, context]) =>
+      `<h2>Context: ${escapeHtml(name)}</h2>${renderFields(context)}`
+    ).join("")
+  }
+    <h2>Environment</h2>
+    <dl>${info}</dl>
+    <h2>Raw report</h2>
+    <pre>${escapeHtml(JSON.stringify(payload.report, null, 2))}</pre>`;
+}
+
+// --- Components ---
+
+/**
+ * Renders a bar chart of daily counts as inline SVG.
+ */
+function renderChart(
+  history: IssueDayCount[],
+  width: number,
+  height: number,
+): string {
+  const max = Math.max(1, ...history.map((d) => d.count));
+  const barWidth = width / history.length;
+  const bars = history.map((d, i) => {
+    const h = d.count === 0 ? 1 : Math.max(2, (d.count / max) * height);
+    return `<rect x="${(i * barWidth).toFixed(1)}" y="${
+      (height - h).toFixed(1)
+    }" width="${Math.max(1, barWidth - 1).toFixed(1)}" height="${
+      h.toFixed(1)
+    }" class="${
+      d.count ? "bar" : "bar empty"
+    }"><title>${d.day}: ${d.count}</title></rect>`;
+  }).join("");
+  return `<svg class="chart" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${bars}</svg>`;
+}
+
+/**
+ * Highlights a V8 stack trace: the header line, function names, file
+ * locations and line/column numbers get their own classes. Deno-internal and
+ * dependency frames are dimmed.
+ */
+function highlightStack(stack: string): string {
+  const lines = stack.split("\n").map((line) => {
+    const match = line.match(
+      /^(\s*at\s+)(?:(.*?)(\s+\())?(.*?)(:\d+:\d+)?(\)?)$/,
+    );
+    if (!match) return `<span class="st-head">${escapeHtml(line)}</span>`;
+    const [, at, fn, open, file, pos, close] = match;
+    const external = /^(ext:|node:|jsr:|npm:|https?:)/.test(file) ||
+      file.includes("/node_modules/");
+    return `<span${external ? ` class="st-ext"` : ""}>${escapeHtml(at)}${
+      fn
+        ? `<span class="st-fn">${escapeHtml(fn)}</span>${escapeHtml(open)}`
+        : ""
+    }<span class="st-file">${escapeHtml(file)}</span>${
+      pos ? `<span class="st-pos">${escapeHtml(pos)}</span>` : ""
+    }${escapeHtml(close)}</span>`;
+  });
+  return `<pre class="stack">${lines.join("\n")}</pre>`;
+}
+
+/**
+ * Renders the breadcrumbs of a report, oldest first, as the crash happened
+ * right after the last one. Reports stored before breadcrumbs were validated
+ * at ingest may hold anything, so every field is checked.
+ */
+function renderBreadcrumbs(breadcrumbs: unknown[]): string {
+  const rows = breadcrumbs.map((entry) => {
+    const crumb: Partial<Record<keyof Breadcrumb, unknown>> =
+      typeof entry === "object" && entry !== null ? entry : {};
+    const level = isBreadcrumbLevel(crumb.level) ? crumb.level : undefined;
+    const details = [
+      crumb.message === undefined ? undefined : String(crumb.message),
+      crumb.data === undefined ? undefined : JSON.stringify(crumb.data),
+    ].filter((part) => part !== undefined).join(" ");
+    return `<tr class="level-${level ?? "info"}">
+      <td class="muted">${
+      typeof crumb.timestamp === "string" ? formatTime(crumb.timestamp) : ""
+    }</td>
+      <td>${escapeHtml(String(crumb.category ?? ""))}</td>
+      <td>${level ?? ""}</td>
+      <td><code>${escapeHtml(truncate(details, 300))}</code></td>
+    </tr>`;
+  }).join("");
+  return `<table>
+      <thead><tr><th>Time</th><th>Category</th><th>Level</th><th>Details</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+/** Renders tags as links to the reports with the same tag. */
+function renderTags(tags: Record<string, string>): string {
+  return `<p class="tags">${
+    Object.entries(tags).map(([key, value]) =>
+      `<a class="tag" href="/reports?tag=${
+        encodeURIComponent(`${key}:${value}`)
+      }">${escapeHtml(key)}: ${escapeHtml(value)}</a>`
+    ).join(" ")
+  }</p>`;
+}
+
+/** Renders the fields of an object as a definition list. */
+function renderFields(fields: Record<string, unknown>): string {
+  return `<dl>${
+    Object.entries(fields).map(([key, value]) =>
+      `<dt>${escapeHtml(key)}</dt><dd>${escapeHtml(formatValue(value))}</dd>`
+    ).join("")
+  }</dl>`;
+}
+
+/**
+ * Renders source-mapped stack frames: the original location of each frame,
+ * its position in the bundle, and the surrounding source lines of in-app
+ * frames.
+ */
+function renderFrames(frames: ResolvedFrame[]): string {
+  return frames.map((frame) => {
+    const position = frame.line !== undefined
+      ? `:${frame.line}${frame.column !== undefined ? `:${frame.column}` : ""}`
+      : "";
+    const generated = frame.generated
+      ? ` <span class="muted">(${
+        escapeHtml(
+          `${frame.generated.file}:${frame.generated.line}:${frame.generated.column}`,
+        )
+      })</span>`
+      : "";
+    const heading = `<div class="frame-head">${
+      frame.function
+        ? `<span class="st-fn">${escapeHtml(frame.function)}</span> `
+        : ""
+    }<span class="st-file">${escapeHtml(frame.file)}</span>${
+      position ? `<span class="st-pos">${escapeHtml(position)}</span>` : ""
+    }${generated}</div>`;
+
+    if (!frame.inApp || frame.contextLine === undefined) {
+      return `<div class="frame${
+        frame.inApp ? "" : " st-ext"
+      }">${heading}</div>`;
+    }
+    const first = frame.line! - (frame.preContext?.length ?? 0);
+    const lines = [
+      ...(frame.preContext ?? []),
+      frame.contextLine,
+      ...(frame.postContext ?? []),
+    ].map((line, i) => {
+      const number = String(first + i).padStart(5);
+      const current = first + i === frame.line;
+      return `<span${current ? ` class="current"` : ""}>${number}  ${
+        escapeHtml(line)
+      }</span>`;
+    });
+    return `<div class="frame">${heading}<pre class="source">${
+      lines.join("\n")
+    }</pre></div>`;
+  }).join("");
+}
+
+function renderPager(url: URL, cursor: string | null): string {
+  if (!cursor) return "";
+  const next = new URL(url);
+  next.searchParams.set("cursor", cursor);
+  return `<p><a href="${
+    escapeHtml(next.pathname + next.search)
+  }">Next page →</a></p>`;
+}
+
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · Crash Reports</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { background: #24292f; padding: 10px 24px; }
+  header a { color: #fff; margin-right: 16px; text-decoration: none; font-weight: 600; }
+  main { padding: 16px 24px; }
+  h1 { font-size: 20px; word-break: break-word; }
+  h2 { font-size: 16px; margin-top: 24px; }
+  a { color: #0969da; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d0d7de; vertical-align: top; }
+  th { background: #eaeef2; }
+  td.num { text-align: right; }
+  .muted { color: #656d76; font-size: 12px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; }
+  dt { font-weight: 600; }
+  dd { margin: 0; word-break: break-word; }
+  pre { background: #fff; border: 1px solid #d0d7de; padding: 12px; overflow-x: auto; }
+  .filters { display: flex; flex-wrap: wrap; gap: 8px; align-items: end; margin-bottom: 12px; }
+  .filters label { display: flex; flex-direction: column; font-size: 12px; }
+  .chart .bar { fill: #cf222e; }
+  .chart .bar.empty { fill: #d0d7de; }
+  .stack .st-head { color: #cf222e; font-weight: 600; }
+  .stack .st-fn { color: #8250df; }
+  .stack .st-file { color: #0550ae; }
+  .stack .st-pos { color: #953800; }
+  .stack .st-ext { opacity: 0.55; }
+  .frame { background: #fff; border: 1px solid #d0d7de; padding: 6px 12px; margin-bottom: -1px; font-family: ui-monospace, monospace; }
+  .frame.st-ext { opacity: 0.55; }
+  .frame .st-fn { color: #8250df; }
+  .frame .st-file { color: #0550ae; }
+  .frame .st-pos { color: #953800; }
+  .frame .source { margin: 6px 0 0; padding: 6px 0; }
+  .frame .source .current { display: inline-block; width: 100%; background: #fff8c5; }
+  details { margin-top: 12px; }
+  tr.level-warning td { background: #fff8c5; }
+  tr.level-error td { background: #ffebe9; }
+  .comment { white-space: pre-wrap; }
+  .tag { display: inline-block; background: #ddf4ff; border-radius: 10px; padding: 1px 8px; text-decoration: none; }
+</style>
+</head>
+<body>
+<header><a href="/">Issues</a><a href="/reports">Reports</a></header>
+<main>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</main>
+</body>
+</html>`;
+}
+
+// --- Helpers ---
+
+/** Returns the thrown value of a report (`error` or `reason`), if it is an object. */
+function thrownValue(
+  report: StoredReport,
+): Record<string, unknown> | undefined {
+  const content = report.payload.report as Record<string, unknown>;
+  const thrown = content.error ?? content.reason;
+  return typeof thrown === "object" && thrown !== null
+    ? thrown as Record<string, unknown>
+    : undefined;
+}
+
+/** Picks the most useful message of a report for display. */
+function reportMessage(report: StoredReport): string {
+  const content = report.payload.report as Record<string, unknown>;
+  const thrown = thrownValue(report);
+  if (typeof thrown?.message === "string") return thrown.message;
+  if (typeof content.message === "string") return content.message;
+  const raw = content.reason ?? content.error;
+  return raw === undefined ? "" : formatValue(raw);
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** Describes the workflow status of an issue, e.g. "Resolved in 1.4.0". */
+function describeStatus(issue: Issue): string {
+  switch (getIssueStatus(issue)) {
+    case "unresolved":
+      return "Unresolved";
+    case "resolved":
+      return issue.resolvedInRelease
+        ? `Resolved in ${escapeHtml(issue.resolvedInRelease)}`
+        : "Resolved";
+    case "ignored":
+      return "Ignored";
+    case "muted":
+      return `Muted until ${formatTime(issue.mutedUntil!)}`;
+  }
+}
+
+function formatTime(iso: string): string {
+  return escapeHtml(iso.replace("T", " ").replace(/\.\d+Z$/, " UTC"));
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Escapes text for use in HTML content and attribute values. */
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
@@ -0,0 +1,529 @@
+/**
+ * Crash grouping ("issues") for the collector.
+ *
+ * At ingest, every report gets a fingerprint computed from the error name and
+ * the normalized top frames of its stack trace (see `../fingerprint.ts`).
+ * Reports sharing a fingerprint belong to the same issue, with first/last-seen
+ * timestamps, an occurrence count and the affected versions. The store keeps
+ * per-day occurrence counts for the counts-over-time charts.
+ *
+ * To keep crash loops from filling the store, only a limited number of
+ * reports per issue is stored per time window; further occurrences are only
+ * counted. With a per-issue maximum, an issue keeps its first reports plus a
+ * fixed-size random sample of the later ones (reservoir sampling): a sampled
+ * report may replace an earlier sample, which is then deleted. Stores write
+ * the report, the replaced sample and the issue update in one transaction, so
+ * the counters always agree with what was stored.
+ *
+ * Issues have a workflow status, changed with `applyIssueUpdate`:
+ *
+ * - `unresolved`: The default.
+ * - `resolved`: Fixed, optionally in a given release. A new occurrence
+ *   reopens the issue, unless it comes from a release that is not newer than
+ *   the one the fix shipped in (users who have not upgraded yet). Reopening
+ *   counts as a regression, which raises an alert (see `./alerts.ts`).
+ * - `ignored`: Not worth fixing; occurrences are counted but raise no alerts.
+ * - `muted`: Like `ignored`, until a given time, after which the issue is
+ *   unresolved again.
+ *
+ * An assignee and notes are stored alongside.
+ */
+
+import {
+  getErrorName,
+  getThrown,
+  getTitle,
+  normalizeStackFrames,
+} from "../fingerprint.ts";
+import type { StoredReport } from "./reports.ts";
+import type { ReportStore } from "./store.ts";
+
+/** A group of reports sharing the same fingerprint. */
+export interface Issue {
+  fingerprint: string;
+  /** Report type of the first occurrence, e.g. `"error"`. */
+  type: string;
+  /** Error name, e.g. `"TypeError"` (`"Error"` when unknown). */
+  errorName: string;
+  /** Error message of the first occurrence. */
+  title: string;
+  /** Normalized top frame, where the error was thrown. */
+  culprit?: string;
+  /** ISO 8601 timestamp of the first occurrence. */
+  firstSeen: string;
+  /** ISO 8601 timestamp of the latest occurrence. */
+  lastSeen: string;
+  /** Number of occurrences. */
+  count: number;
+  /** App versions the issue was seen in (`reporterInfo.appVersion`). */
+  versions: string[];
+  /** Id of the latest stored report. */
+  lastReportId: string;
+  /** Start of the current storage window (ISO 8601). */
+  windowStart: string;
+  /** Reports stored in the current window. */
+  windowStored: number;
+  /** Occurrences counted but not stored because a cap was reached. */
+  droppedCount: number;
+  /**
+   * Reports of the issue currently stored, after caps, deletions and
+   * retention. Missing on issues created before it was tracked.
+   */
+  storedCount?: number;
+  /** Ids of the first stored reports, up to the per-issue maximum. */
+  firstReportIds?: string[];
+  /** Ids of the sampled later reports, up to the sample size. */
+  sampledReportIds?: string[];
+  /** Later occurrences considered for the sample so far. */
+  sampleSeen?: number;
+  /** Workflow status, `unresolved` if missing; see `getIssueStatus`. */
+  status?: IssueStatus;
+  /** ISO 8601 timestamp at which the issue was marked resolved, if it is. */
+  resolvedAt?: string;
+  /**
+   * For `resolved`: the release the fix shipped in. Only occurrences from
+   * newer releases reopen the issue.
+   */
+  resolvedInRelease?: string;
+  /** For `muted`: ISO 8601 timestamp at which the mute ends. */
+  mutedUntil?: string;
+  /** Who is handling the issue. */
+  assignee?: string;
+  /** Free-form notes. */
+  notes?: string;
+}
+
+/** Workflow states of an issue, see the module documentation. */
+export type IssueStatus = "unresolved" | "resolved" | "ignored" | "muted";
+
+/** All workflow states, e.g. to validate requests. */
+export const ISSUE_STATUSES: readonly IssueStatus[] = [
+  "unresolved",
+  "resolved",
+  "ignored",
+  "muted",
+];
+
+/** A change of the workflow fields of an issue, see `parseIssueUpdate`. */
+export interface IssueUpdate {
+  /** The new status. */
+  status?: IssueStatus;
+  /** With `status: "resolved"`: the release the fix shipped in. */
+  resolvedInRelease?: string;
+  /** With `status: "muted"`: when the mute ends (ms since epoch). */
+  mutedUntil?: number;
+  /** The new assignee, `null` to clear it. */
+  assignee?: string | null;
+  /** The new notes, `null` to clear them. */
+  notes?: string | null;
+}
+
+/** Result of `parseIssueUpdate`. */
+export type IssueUpdateParseResult =
+  | { ok: true; update: IssueUpdate }
+  | { ok: false; error: string };
+
+/** Limit on the number of reports stored per issue. */
+export interface StorageCap {
+  /** Reports stored per issue per window, `0` for no limit. */
+  maxPerWindow: number;
+  /** Length of the window in milliseconds. */
+  windowMs: number;
+  /**
+   * First reports kept per issue, `0` (the default) for no limit. Later
+   * reports are only kept as part of the sample.
+   */
+  maxPerIssue?: number;
+  /** Later reports kept per issue as a random sample, once `maxPerIssue` is reached. */
+  samplePerIssue?: number;
+}
+
+/** Result of `applyOccurrence` and `ReportStore.insertReport`. */
+export interface OccurrenceResult {
+  issue: Issue;
+  /** Whether the report was stored, or only counted because of a cap. */
+  stored: boolean;
+  /** Id of a sampled report replaced by this one, to be deleted. */
+  evicted?: string;
+  /** Whether this is the first occurrence of the issue. */
+  isNew: boolean;
+  /** Whether the issue was resolved and this occurrence reopened it. */
+  regressed: boolean;
+}
+
+/** Maximum length of `Issue.assignee`. */
+const MAX_ASSIGNEE_LENGTH = 200;
+/** Maximum length of `Issue.notes`. */
+const MAX_NOTES_LENGTH = 10_000;
+
+/** Workflow fields of an issue that is unresolved again. */
+const REOPENED: Partial<Issue> = {
+  status: "unresolved",
+  resolvedAt: undefined,
+  resolvedInRelease: undefined,
+  mutedUntil: undefined,
+};
+
+/** Number of occurrences of an issue on one (UTC) day. */
+export interface IssueDayCount {
+  /** The day, as `YYYY-MM-DD`. */
+  day: string;
+  count: number;
+}
+
+/** A page of results returned by `ReportStore.listIssues`. */
+export interface IssuePage {
+  issues: Issue[];
+  /** Pass this back to get the next page; `null` when there are no more results. */
+  cursor: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Computes the state of an issue after a new occurrence, creating the issue
+ * on first sight, and whether the report is stored or only counted because
+ * the issue reached its storage cap for the current window. A resolved issue
+ * is reopened (see the module documentation), an expired mute lifted. Stores
+ * call this inside their insert transaction.
+ * @param previous The issue before the occurrence, `null` if it is new.
+ * @param report The new report, with its fingerprint.
+ * @param cap The per-issue storage cap.
+ * @returns The updated issue, whether the report is stored, and whether the
+ *   issue is new or regressed.
+ */
+export function applyOccurrence(
+  previous: Issue | null,
+  report: StoredReport & { fingerprint: string },
+  cap: StorageCap,
+): OccurrenceResult {
+  const { fingerprint, payload } = report;
+  const appVersion = payload.reporterInfo.appVersion;
+  const receivedAtMs = Date.parse(report.receivedAt);
+  const status = previous
+    ? getIssueStatus(previous, receivedAtMs)
+    : "unresolved";
+  const regressed = status === "resolved" &&
+    isRegression(previous!, appVersion);
+  const muteExpired = previous?.status === "muted" && status === "unresolved";
+
+  // Issues created before the cap existed have no window yet
+  const windowExpired = !previous?.windowStart ||
+    receivedAtMs - Date.parse(previous.windowStart) >= cap.windowMs;
+  const windowStored = windowExpired || !previous ? 0 : previous.windowStored;
+  let stored = cap.maxPerWindow <= 0 || windowStored < cap.maxPerWindow;
+
+  // The first reports are kept, later ones are sampled
+  const maxPerIssue = cap.maxPerIssue ?? 0;
+  const firstReportIds = [...previous?.firstReportIds ?? []];
+  const sampledReportIds = [...previous?.sampledReportIds ?? []];
+  let sampleSeen = previous?.sampleSeen ?? 0;
+  let evicted: string | undefined;
+  if (stored && maxPerIssue > 0) {
+    const sampleSize = cap.samplePerIssue ?? 0;
+    if (firstReportIds.length < maxPerIssue) {
+      firstReportIds.push(report.id);
+    } else if (sampleSize <= 0) {
+      stored = false;
+    } else {
+      sampleSeen++;
+      if (sampledReportIds.length < sampleSize) {
+        sampledReportIds.push(report.id);
+      } else {
+        // Keeps every later report with the same probability
+        const slot = Math.floor(Math.random() * sampleSeen);
+        if (slot < sampleSize) {
+          evicted = sampledReportIds[slot];
+          sampledReportIds[slot] = report.id;
+        } else {
+          stored = false;
+        }
+      }
+    }
+  }
+  const storedCount =
+    (previous ? previous.storedCount ?? storedEstimate(previous) : 0) +
+    (stored ? 1 : 0) - (evicted ? 1 : 0);
+
+  const issue: Issue = previous
+    ? {
+      ...previous,
+      lastSeen: report.receivedAt,
+      count: previous.count + 1,
+      lastReportId: stored ? report.id : previous.lastReportId,
+      windowStart: windowExpired ? report.receivedAt : previous.windowStart,
+      windowStored: windowStored + (stored ? 1 : 0),
+      droppedCount: (previous.droppedCount ?? 0) + (stored ? 0 : 1),
+      storedCount,
+      firstReportIds,
+      sampledReportIds,
+      sampleSeen,
+      ...(regressed || muteExpired ? REOPENED : {}),
+    }
+    : {
+      fingerprint,
+      type: payload.report.type ?? "unknown",
+      errorName: getErrorName(payload) ?? "Error",
+      title: getTitle(payload),
+      culprit: typeof getThrown(payload).stack === "string"
+        ? normalizeStackFrames(getThrown(payload).stack as string)[0]
+        : undefined,
+      status: "unresolved",
+      firstSeen: report.receivedAt,
+      lastSeen: report.receivedAt,
+      count: 1,
+      versions: [],
+      lastReportId: report.id,
+      windowStart: report.receivedAt,
+      windowStored: stored ? 1 : 0,
+      droppedCount: stored ? 0 : 1,
+      storedCount,
+      firstReportIds,
+      sampledReportIds,
+      sampleSeen,
+    };
+  if (appVersion && !issue.versions.includes(appVersion)) {
+    issue.versions = [...issue.versions, appVersion];
+  }
+  return {
+    issue,
+    stored,
+    evicted,
+    isNew: !previous,
+    regressed,
+  };
+}
+
+/**
+ * Whether an occurrence reopens a resolved issue: always if it was resolved
+ * without a release, otherwise only if it comes from a newer release.
+ */
+function isRegression(issue: Issue, appVersion: string | undefined): boolean {
+  if (!issue.resolvedInRelease) return true;
+  return appVersion !== undefined &&
+    compareVersions(appVersion, issue.resolvedInRelease) > 0;
+}
+
+/**
+ * Computes the state of an issue after one of its reports was deleted (by the
+ * API, retention or the storage quota). The occurrence stays counted.
+ * @param issue The issue of the report.
+ * @param reportId The deleted report.
+ * @returns The updated issue.
+ */
+export function removeReport(issue: Issue, reportId: string): Issue {
+  return {
+    ...issue,
+    storedCount: Math.max(
+      0,
+      (issue.storedCount ?? storedEstimate(issue)) - 1,
+    ),
+    firstReportIds: issue.firstReportIds?.filter((id) => id !== reportId),
+    sampledReportIds: issue.sampledReportIds?.filter((id) => id !== reportId),
+  };
+}
+
+/**
+ * Returns the effective workflow status of an issue: a mute that ended counts
+ * as `unresolved`.
+ * @param issue The issue.
+ * @param now The current time (ms since epoch).
+ */
+export function getIssueStatus(issue: Issue, now = Date.now()): IssueStatus {
+  // Issues resolved before statuses existed only have `resolvedAt`
+  const status = issue.status ?? (issue.resolvedAt ? "resolved" : "unresolved");
+  if (
+    status === "muted" &&
+    (!issue.mutedUntil || Date.parse(issue.mutedUntil) <= now)
+  ) {
+    return "unresolved";
+  }
+  return status;
+}
+
+/**
+ * Validates the body of an issue update request.
+ * @param body The parsed JSON body, e.g.
+ *   `{ "status": "resolved", "resolvedInRelease": "1.4.0" }`,
+ *   `{ "status": "muted", "mutedUntil": "2026-01-01T00:00:00Z" }` or
+ *   `{ "assignee": "alice", "notes": "..." }`.
+ * @param now The current time (ms since epoch); mutes must end after it.
+ */
+export function parseIssueUpdate(
+  body: unknown,
+  now = Date.now(),
+): IssueUpdateParseResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const { status, resolvedInRelease, mutedUntil, assignee, notes, ...rest } =
+    body as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) {
+    return { ok: false, error: `Unknown field(s): ${unknown.join(", ")}` };
+  }
+
+  const update: IssueUpdate = {};
+  if (status !== undefined) {
+    if (!ISSUE_STATUSES.includes(status as IssueStatus)) {
+      return {
+        ok: false,
+        error: `status must be one of ${ISSUE_STATUSES.join(", ")}`,
+      };
+    }
+    update.status = status as IssueStatus;
+  }
+  if (resolvedInRelease !== undefined) {
+    if (update.status !== "resolved") {
+      return {
+        ok: false,
+        error: 'resolvedInRelease requires status "resolved"',
+      };
+    }
+    if (typeof resolvedInRelease !== "string" || !resolvedInRelease) {
+      return { ok: false, error: "resolvedInRelease must be a version string" };
+    }
+    update.resolvedInRelease = resolvedInRelease;
+  }
+  if (update.status === "muted") {
+    const until = typeof mutedUntil === "number"
+      ? mutedUntil
+      : typeof mutedUntil === "string"
+      ? Date.parse(mutedUntil)
+      : NaN;
+    if (!(until > now)) {
+      return {
+        ok: false,
+        error:
+          "mutedUntil must be a future ISO 8601 date or milliseconds since epoch",
+      };
+    }
+    update.mutedUntil = until;
+  } else if (mutedUntil !== undefined) {
+    return { ok: false, error: 'mutedUntil requires status "muted"' };
+  }
+  for (
+    const [name, value, max] of [
+      ["assignee", assignee, MAX_ASSIGNEE_LENGTH],
+      ["notes", notes, MAX_NOTES_LENGTH],
+    ] as const
+  ) {
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== "string" || value.length > max)) {
+      return {
+        ok: false,
+        error: `${name} must be null or a string of up to ${max} characters`,
+      };
+    }
+    update[name] = value || null;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { ok: false, error: "Nothing to update" };
+  }
+  return { ok: true, update };
+}
+
+/**
+ * Computes the state of an issue after an update of its workflow fields.
+ * Changing the status clears the fields of the previous one.
+ * @param issue The issue.
+ * @param update The update, see `parseIssueUpdate`.
+ * @param now The current time (ms since epoch), recorded as `resolvedAt`.
+ * @returns The updated issue.
+ */
+export function applyIssueUpdate(
+  issue: Issue,
+  update: IssueUpdate,
+  now = Date.now(),
+): Issue {
+  const next: Issue = { ...issue };
+  if (update.status) {
+    Object.assign(next, REOPENED, { status: update.status });
+    if (update.status === "resolved") {
+      next.resolvedAt = new Date(now).toISOString();
+      next.resolvedInRelease = update.resolvedInRelease;
+    } else if (update.status === "muted") {
+      next.mutedUntil = new Date(update.mutedUntil!).toISOString();
+    }
+  }
+  if (update.assignee !== undefined) {
+    next.assignee = update.assignee ?? undefined;
+  }
+  if (update.notes !== undefined) next.notes = update.notes ?? undefined;
+  return next;
+}
+
+/**
+ * Compares two release versions, e.g. `appVersion`s. Versions are compared
+ * like semantic versions: dot-separated numbers numerically (`1.10` >
+ * `1.9`), a pre-release (`1.2.0-beta.1`) before its release, a leading `v`
+ * and build metadata (`+...`) ignored. Other versions fall back to comparing
+ * their parts as strings.
+ * @returns A negative number if `a` is older, positive if newer, `0` if equal.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const core = version.trim().replace(/^v/i, "").replace(/\+.*$/, "");
+    const dash = core.indexOf("-");
+    return {
+      main: (dash < 0 ? core : core.slice(0, dash)).split("."),
+      pre: dash < 0 ? [] : core.slice(dash + 1).split("."),
+    };
+  };
+  const compareParts = (x: string, y: string) => {
+    const numeric = /^\d+$/;
+    if (numeric.test(x) && numeric.test(y)) return Number(x) - Number(y);
+    if (numeric.test(x) !== numeric.test(y)) return numeric.test(x) ? -1 : 1;
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+
+  const left = parse(a);
+  const right = parse(b);
+  for (let i = 0; i < Math.max(left.main.length, right.main.length); i++) {
+    const order = compareParts(left.main[i] ?? "0", right.main[i] ?? "0");
+    if (order !== 0) return order;
+  }
+  // A release is newer than its pre-releases
+  if (left.pre.length === 0 || right.pre.length === 0) {
+    return right.pre.length - left.pre.length;
+  }
+  for (let i = 0; i < Math.min(left.pre.length, right.pre.length); i++) {
+    const order = compareParts(left.pre[i], right.pre[i]);
+    if (order !== 0) return order;
+  }
+  return left.pre.length - right.pre.length;
+}
+
+/** Stored reports of an issue created before `storedCount` was tracked. */
+function storedEstimate(issue: Issue): number {
+  return issue.count - (issue.droppedCount ?? 0);
+}
+
+/**
+ * Returns the daily occurrence counts of an issue, oldest day first.
+ * Days without occurrences are included with a count of 0.
+ * @param store The report store.
+ * @param fingerprint The issue fingerprint.
+ * @param days Number of days to return, ending today (UTC).
+ */
+export async function getIssueHistory(
+  store: ReportStore,
+  fingerprint: string,
+  days: number,
+): Promise<IssueDayCount[]> {
+  const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  const history: IssueDayCount[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    history.push({
+      day: new Date(today - i * DAY_MS).toISOString().slice(0, 10),
+      count: 0,
+    });
+  }
+
+  const counts = await store.countOccurrences(fingerprint, history[0].day);
+  for (const day of history) {
+    day.count = counts[day.day] ?? 0;
+  }
+  return history;
+}
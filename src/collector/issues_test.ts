@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import {
+  applyIssueUpdate,
+  applyOccurrence,
+  compareVersions,
+  getIssueStatus,
+  type Issue,
+  type IssueUpdate,
+  parseIssueUpdate,
+  type StorageCap,
+} from "./issues.ts";
+import type { StoredReport } from "./reports.ts";
+
+const NO_CAP: StorageCap = { maxPerWindow: 0, windowMs: 60_000 };
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+
+function makeReport(
+  id: string,
+  appVersion?: string,
+  minute = 0,
+): StoredReport & { fingerprint: string } {
+  return {
+    id,
+    receivedAt: new Date(NOW + minute * 60_000).toISOString(),
+    fingerprint: "fp",
+    payload: {
+      schemaVersion: 1,
+      timestamp: new Date(NOW).toISOString(),
+      report: { type: "message", message: "Disk full" },
+      reporterInfo: {
+        os: "linux",
+        arch: "x86_64",
+        denoVersion: "2.0.0",
+        appVersion,
+      },
+    },
+  };
+}
+
+/** An issue with one occurrence, after the given update. */
+function issueAfter(update: IssueUpdate): Issue {
+  const { issue } = applyOccurrence(null, makeReport("r0", "1.0.0"), NO_CAP);
+  return applyIssueUpdate(issue, update, NOW);
+}
+
+Deno.test("compares versions numerically", () => {
+  assert.ok(compareVersions("1.10.0", "1.9.0") > 0);
+  assert.ok(compareVersions("1.9", "1.10") < 0);
+  assert.ok(compareVersions("2.0.0", "10.0.0") < 0);
+  assert.equal(compareVersions("1.2", "1.2.0"), 0);
+  assert.equal(compareVersions("v1.2.0", "1.2.0+build.5"), 0);
+});
+
+Deno.test("orders pre-releases before their release", () => {
+  assert.ok(compareVersions("1.4.0-beta.1", "1.4.0") < 0);
+  assert.ok(compareVersions("1.4.0", "1.4.0-rc.1") > 0);
+  assert.ok(compareVersions("1.4.0-beta.2", "1.4.0-beta.10") < 0);
+  assert.ok(compareVersions("1.4.0-alpha", "1.4.0-beta") < 0);
+  assert.ok(compareVersions("1.4.0-beta", "1.4.0-beta.1") < 0);
+  // Numeric identifiers sort before alphanumeric ones
+  assert.ok(compareVersions("1.4.0-1", "1.4.0-alpha") < 0);
+  assert.ok(compareVersions("1.4.0-rc.1", "1.3.9") > 0);
+});
+
+Deno.test("reopens an issue resolved without a release", () => {
+  const resolved = issueAfter({ status: "resolved" });
+
+  for (const appVersion of [undefined, "0.1.0", "9.0.0"]) {
+    const result = applyOccurrence(
+      resolved,
+      makeReport("r1", appVersion, 1),
+      NO_CAP,
+    );
+    assert.equal(result.regressed, true);
+    assert.equal(getIssueStatus(result.issue), "unresolved");
+    assert.equal(result.issue.resolvedAt, undefined);
+  }
+});
+
+Deno.test("reopens an issue resolved in a release only from newer ones", () => {
+  const resolved = issueAfter({
+    status: "resolved",
+    resolvedInRelease: "1.4.0",
+  });
+
+  for (const appVersion of ["1.4.0", "1.3.9", "1.4.0-beta.1", undefined]) {
+    const result = applyOccurrence(
+      resolved,
+      makeReport("r1", appVersion, 1),
+      NO_CAP,
+    );
+    assert.equal(result.regressed, false, `appVersion ${appVersion}`);
+    assert.equal(result.issue.status, "resolved");
+    assert.equal(result.issue.resolvedInRelease, "1.4.0");
+    assert.equal(result.issue.count, 2);
+  }
+
+  const newer = applyOccurrence(
+    resolved,
+    makeReport("r1", "1.10.0", 1),
+    NO_CAP,
+  );
+  assert.equal(newer.regressed, true);
+  assert.equal(newer.issue.status, "unresolved");
+  assert.equal(newer.issue.resolvedInRelease, undefined);
+  assert.deepEqual(newer.issue.versions, ["1.0.0", "1.10.0"]);
+});
+
+Deno.test("lifts a mute once it expired", () => {
+  const muted = issueAfter({ status: "muted", mutedUntil: NOW + 60 * 60_000 });
+
+  assert.equal(getIssueStatus(muted, NOW), "muted");
+  const during = applyOccurrence(muted, makeReport("r1", "1.0.0", 30), NO_CAP);
+  assert.equal(during.issue.status, "muted");
+  assert.equal(during.regressed, false);
+
+  assert.equal(getIssueStatus(muted, NOW + 60 * 60_000), "unresolved");
+  const after = applyOccurrence(muted, makeReport("r2", "1.0.0", 61), NO_CAP);
+  assert.equal(after.issue.status, "unresolved");
+  assert.equal(after.issue.mutedUntil, undefined);
+  // Lifting a mute is not a regression
+  assert.equal(after.regressed, false);
+});
+
+Deno.test("parses issue updates", () => {
+  assert.deepEqual(
+    parseIssueUpdate({ status: "resolved", resolvedInRelease: "1.4.0" }, NOW),
+    { ok: true, update: { status: "resolved", resolvedInRelease: "1.4.0" } },
+  );
+  assert.deepEqual(
+    parseIssueUpdate({
+      status: "muted",
+      mutedUntil: "2026-03-02T00:00:00Z",
+    }, NOW),
+    {
+      ok: true,
+      update: {
+        status: "muted",
+        mutedUntil: Date.parse("2026-03-02T00:00:00Z"),
+      },
+    },
+  );
+  assert.deepEqual(parseIssueUpdate({ assignee: "", notes: null }, NOW), {
+    ok: true,
+    update: { assignee: null, notes: null },
+  });
+});
+
+Deno.test("rejects invalid issue updates", () => {
+  const rejections: [unknown, string][] = [
+    [null, "Expected a JSON object"],
+    [["resolved"], "Expected a JSON object"],
+    [{ status: "resolved", extra: 1 }, "Unknown field(s): extra"],
+    [{ status: "done" }, "status must be one of"],
+    [
+      { resolvedInRelease: "1.0.0" },
+      'resolvedInRelease requires status "resolved"',
+    ],
+    [
+      { status: "resolved", resolvedInRelease: "" },
+      "resolvedInRelease must be a version string",
+    ],
+    [{ status: "muted" }, "mutedUntil must be a future"],
+    [{ status: "muted", mutedUntil: NOW - 1 }, "mutedUntil must be a future"],
+    [{ status: "muted", mutedUntil: "soon" }, "mutedUntil must be a future"],
+    [
+      { status: "ignored", mutedUntil: NOW + 1 },
+      'mutedUntil requires status "muted"',
+    ],
+    [{ assignee: 42 }, "assignee must be null or a string"],
+    [{ notes: "x".repeat(10_001) }, "notes must be null or a string"],
+    [{}, "Nothing to update"],
+  ];
+
+  for (const [body, error] of rejections) {
+    const result = parseIssueUpdate(body, NOW);
+    assert.equal(result.ok, false, JSON.stringify(body));
+    assert.ok(
+      !result.ok && result.error.startsWith(error),
+      `${JSON.stringify(body)}: ${!result.ok && result.error}`,
+    );
+  }
+});
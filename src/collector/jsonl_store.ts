@@ -0,0 +1,463 @@
+/**
+ * `ReportStore` backed by append-only JSONL files
+ * (`CRASH_REPORT_STORAGE=jsonl`), for small installations that want plain
+ * files they can grep, back up and ship around.
+ *
+ * The store directory holds one file per kind of record, each line one
+ * change:
+ *
+ * - `reports.jsonl`: `{ "op": "occurrence", "issue": {...}, "report": {...} }`
+ *   per ingested report (`report` is left out when the issue reached its
+ *   storage cap; `evicted` names a sampled report it replaced),
+ *   `{ "op": "delete", "id": "...", "issue": {...} }` per deleted report,
+ *   with the issue after the deletion, `{ "op": "issue", "issue": {...} }` per
+ *   other change of an issue (e.g. marking it resolved). Compaction writes
+ *   the live state as `issue` lines, `{ "op": "counts", "fingerprint": "...",
+ *   "days": {...} }` with the occurrences per day of each issue and
+ *   `{ "op": "report", "report": {...} }` per stored report.
+ * - `credentials.jsonl`: `{ "op": "put", "kind": "ingest_keys", "credential": {...} }`
+ *   per created or revoked credential.
+ * - `sourcemaps.jsonl`: `{ "op": "put", "record": {...} }` per upload; the map
+ *   itself is stored as `sourcemaps/<id>.map`.
+ *
+ * Deleting a report appends to the log, so it frees memory but not disk
+ * space until `compact` rewrites `reports.jsonl` from the live state, which
+ * the sweeper does after each sweep (see `./retention.ts`). On startup
+ * the files are replayed into memory, which serves every read, so the whole
+ * store has to fit in memory. A line cut off by a crash while it was written
+ * is skipped.
+ */
+
+import type { CredentialKind, StoredCredential } from "./auth.ts";
+import { applyOccurrence, type Issue, removeReport } from "./issues.ts";
+import { matchesFilter, type StoredReport } from "./reports.ts";
+import type { SourceMapRecord } from "./source_maps.ts";
+import {
+  decodePageCursor,
+  encodePageCursor,
+  reportSize,
+  type ReportStore,
+} from "./store.ts";
+
+/** A line of `reports.jsonl`. */
+type ReportLogEntry =
+  | { op: "occurrence"; issue: Issue; report?: StoredReport; evicted?: string }
+  | { op: "delete"; id: string; issue?: Issue }
+  | { op: "issue"; issue: Issue }
+  | { op: "counts"; fingerprint: string; days: Record<string, number> }
+  | { op: "report"; report: StoredReport };
+
+/** A line of `credentials.jsonl`. */
+interface CredentialLogEntry {
+  op: "put";
+  kind: CredentialKind;
+  credential: StoredCredential;
+}
+
+/** A line of `sourcemaps.jsonl`. */
+interface SourceMapLogEntry {
+  op: "put";
+  record: SourceMapRecord;
+}
+
+/**
+ * Opens a JSONL-backed store, creating the directory if needed, and replays
+ * its files.
+ * @param dir The store directory.
+ */
+export async function openJsonlStore(dir: string): Promise<ReportStore> {
+  await Deno.mkdir(`${dir}/sourcemaps`, { recursive: true });
+
+  const reports = new Map<string, StoredReport>();
+  const issues = new Map<string, Issue>();
+  /** Occurrences per issue and day. */
+  const counts = new Map<string, Map<string, number>>();
+  const credentials: Record<CredentialKind, Map<string, StoredCredential>> = {
+    ingest_keys: new Map(),
+    admin_tokens: new Map(),
+  };
+  const sourceMaps = new Map<string, SourceMapRecord>();
+  let usedBytes = 0;
+  /** Whether `reports.jsonl` holds deleted reports, see `compact`. */
+  let deletedSinceCompaction = false;
+
+  const addReport = (report: StoredReport) => {
+    reports.set(report.id, report);
+    usedBytes += reportSize(report);
+  };
+  const dropReport = (id: string) => {
+    const report = reports.get(id);
+    if (!report) return;
+    reports.delete(id);
+    usedBytes -= reportSize(report);
+    deletedSinceCompaction = true;
+  };
+  const applyReportEntry = (entry: ReportLogEntry) => {
+    if (entry.op === "issue") {
+      issues.set(entry.issue.fingerprint, entry.issue);
+      return;
+    }
+    if (entry.op === "counts") {
+      counts.set(entry.fingerprint, new Map(Object.entries(entry.days)));
+      return;
+    }
+    if (entry.op === "report") {
+      addReport(entry.report);
+      return;
+    }
+    if (entry.op === "delete") {
+      dropReport(entry.id);
+      if (entry.issue) issues.set(entry.issue.fingerprint, entry.issue);
+      return;
+    }
+    const { issue, report, evicted } = entry;
+    issues.set(issue.fingerprint, issue);
+    const days = counts.get(issue.fingerprint) ?? new Map<string, number>();
+    const day = issue.lastSeen.slice(0, 10);
+    days.set(day, (days.get(day) ?? 0) + 1);
+    counts.set(issue.fingerprint, days);
+    if (report) addReport(report);
+    if (evicted) dropReport(evicted);
+  };
+  const applyCredentialEntry = (entry: CredentialLogEntry) => {
+    credentials[entry.kind].set(entry.credential.id, entry.credential);
+  };
+  const applySourceMapEntry = (entry: SourceMapLogEntry) => {
+    sourceMaps.set(sourceMapKey(entry.record), entry.record);
+  };
+
+  await replay<ReportLogEntry>(`${dir}/reports.jsonl`, applyReportEntry);
+  await replay<CredentialLogEntry>(
+    `${dir}/credentials.jsonl`,
+    applyCredentialEntry,
+  );
+  await replay<SourceMapLogEntry>(
+    `${dir}/sourcemaps.jsonl`,
+    applySourceMapEntry,
+  );
+
+  const openLog = (name: string) =>
+    Deno.open(`${dir}/${name}`, { append: true, create: true });
+  let reportLog = await openLog("reports.jsonl");
+  const credentialLog = await openLog("credentials.jsonl");
+  const sourceMapLog = await openLog("sourcemaps.jsonl");
+
+  // Changes read the state, append and apply; they must not interleave
+  let queue: Promise<unknown> = Promise.resolve();
+  const locked = <T>(fn: () => Promise<T>): Promise<T> => {
+    const result = queue.then(fn);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  return {
+    backend: "jsonl",
+
+    insertReport: (report, cap) =>
+      locked(async () => {
+        const result = applyOccurrence(
+          issues.get(report.fingerprint) ?? null,
+          report,
+          cap,
+        );
+        const entry: ReportLogEntry = {
+          op: "occurrence",
+          issue: result.issue,
+          report: result.stored ? report : undefined,
+          evicted: result.evicted,
+        };
+        await appendLine(reportLog, entry);
+        applyReportEntry(entry);
+        return result;
+      }),
+
+    getReport(id) {
+      return Promise.resolve(reports.get(id) ?? null);
+    },
+
+    queryReports(filter, limit, cursor) {
+      const after = cursor ? decodePageCursor(cursor) : undefined;
+      if (after === null) throw new Error(`Invalid cursor: ${cursor}`);
+      const matching = [...reports.values()]
+        .map((report) => ({ report, time: Date.parse(report.receivedAt) }))
+        .filter(({ report, time }) =>
+          matchesFilter(report, filter) &&
+          (!after || isBefore(time, report.id, after))
+        )
+        .sort((a, b) => compareDesc(a.time, a.report.id, b.time, b.report.id));
+      const page = matching.slice(0, limit);
+      const last = page.at(-1);
+      return Promise.resolve({
+        reports: page.map(({ report }) => report),
+        cursor: matching.length > limit && last
+          ? encodePageCursor(last.time, last.report.id)
+          : null,
+      });
+    },
+
+    deleteReport: (id) =>
+      locked(async () => {
+        const report = reports.get(id);
+        if (!report) return false;
+        const issue = report.fingerprint
+          ? issues.get(report.fingerprint)
+          : undefined;
+        const entry: ReportLogEntry = {
+          op: "delete",
+          id,
+          issue: issue && removeReport(issue, id),
+        };
+        await appendLine(reportLog, entry);
+        applyReportEntry(entry);
+        return true;
+      }),
+
+    listOldestReports(before, limit) {
+      return Promise.resolve(
+        [...reports.values()]
+          .map((report) => ({ report, time: Date.parse(report.receivedAt) }))
+          .filter(({ time }) => time < before)
+          .sort((a, b) => compareDesc(b.time, b.report.id, a.time, a.report.id))
+          .slice(0, limit)
+          .map(({ report }) => report),
+      );
+    },
+
+    getUsage() {
+      return Promise.resolve({ reports: reports.size, bytes: usedBytes });
+    },
+
+    compact: () =>
+      locked(async () => {
+        if (!deletedSinceCompaction) return;
+        // Write the live state next to the log, then rename it over the log:
+        // a crash leaves either the old log or the compacted one
+        const path = `${dir}/reports.jsonl`;
+        const file = await Deno.open(`${path}.tmp`, {
+          write: true,
+          create: true,
+          truncate: true,
+        });
+        try {
+          for (const issue of issues.values()) {
+            await appendLine(file, { op: "issue", issue });
+            const days = counts.get(issue.fingerprint);
+            if (days) {
+              await appendLine(file, {
+                op: "counts",
+                fingerprint: issue.fingerprint,
+                days: Object.fromEntries(days),
+              });
+            }
+          }
+          for (const report of reports.values()) {
+            await appendLine(file, { op: "report", report });
+          }
+          await file.sync();
+        } finally {
+          file.close();
+        }
+        reportLog.close();
+        try {
+          await Deno.rename(`${path}.tmp`, path);
+        } finally {
+          reportLog = await openLog("reports.jsonl");
+        }
+        deletedSinceCompaction = false;
+      }),
+
+    getIssue(fingerprint) {
+      return Promise.resolve(issues.get(fingerprint) ?? null);
+    },
+
+    updateIssue: (fingerprint, update) =>
+      locked(async () => {
+        const previous = issues.get(fingerprint);
+        if (!previous) return null;
+        const entry: ReportLogEntry = { op: "issue", issue: update(previous) };
+        await appendLine(reportLog, entry);
+        applyReportEntry(entry);
+        return entry.issue;
+      }),
+
+    listIssues(limit, cursor) {
+      const after = cursor ? decodePageCursor(cursor) : undefined;
+      if (after === null) throw new Error(`Invalid cursor: ${cursor}`);
+      const matching = [...issues.values()]
+        .map((issue) => ({ issue, time: Date.parse(issue.lastSeen) }))
+        .filter(({ issue, time }) =>
+          !after || isBefore(time, issue.fingerprint, after)
+        )
+        .sort((a, b) =>
+          compareDesc(a.time, a.issue.fingerprint, b.time, b.issue.fingerprint)
+        );
+      const page = matching.slice(0, limit);
+      const last = page.at(-1);
+      return Promise.resolve({
+        issues: page.map(({ issue }) => issue),
+        cursor: matching.length > limit && last
+          ? encodePageCursor(last.time, last.issue.fingerprint)
+          : null,
+      });
+    },
+
+    countOccurrences(fingerprint, fromDay) {
+      const result: Record<string, number> = {};
+      for (const [day, count] of counts.get(fingerprint) ?? []) {
+        if (day >= fromDay) result[day] = count;
+      }
+      return Promise.resolve(result);
+    },
+
+    insertCredential: (kind, credential) =>
+      locked(async () => {
+        const entry: CredentialLogEntry = { op: "put", kind, credential };
+        await appendLine(credentialLog, entry);
+        applyCredentialEntry(entry);
+      }),
+
+    findCredential(kind, hash) {
+      for (const credential of credentials[kind].values()) {
+        if (credential.hash === hash && !credential.revokedAt) {
+          return Promise.resolve(credential);
+        }
+      }
+      return Promise.resolve(null);
+    },
+
+    revokeCredential: (kind, id, revokedAt) =>
+      locked(async () => {
+        const credential = credentials[kind].get(id);
+        if (!credential || credential.revokedAt) return false;
+        const entry: CredentialLogEntry = {
+          op: "put",
+          kind,
+          credential: { ...credential, revokedAt },
+        };
+        await appendLine(credentialLog, entry);
+        applyCredentialEntry(entry);
+        return true;
+      }),
+
+    listCredentials(kind) {
+      return Promise.resolve([...credentials[kind].values()]);
+    },
+
+    hasCredentials(kind) {
+      return Promise.resolve(credentials[kind].size > 0);
+    },
+
+    insertSourceMap: (record, content) =>
+      locked(async () => {
+        // Publish the record only once the map is written
+        await Deno.writeFile(`${dir}/sourcemaps/${record.id}.map`, content);
+        const previous = sourceMaps.get(sourceMapKey(record));
+        const entry: SourceMapLogEntry = { op: "put", record };
+        await appendLine(sourceMapLog, entry);
+        applySourceMapEntry(entry);
+        if (previous) {
+          await Deno.remove(`${dir}/sourcemaps/${previous.id}.map`)
+            .catch(() => {});
+        }
+      }),
+
+    getSourceMap(project, release, fileName) {
+      return Promise.resolve(
+        sourceMaps.get(sourceMapKey({ project, release, fileName })) ?? null,
+      );
+    },
+
+    async readSourceMap(record) {
+      try {
+        return await Deno.readFile(`${dir}/sourcemaps/${record.id}.map`);
+      } catch (err) {
+        if (err instanceof Deno.errors.NotFound) return null;
+        throw err;
+      }
+    },
+
+    listSourceMaps(release) {
+      return Promise.resolve(
+        [...sourceMaps.values()].filter((record) =>
+          release === undefined || record.release === release
+        ),
+      );
+    },
+
+    close: () =>
+      locked(() => {
+        reportLog.close();
+        credentialLog.close();
+        sourceMapLog.close();
+        return Promise.resolve();
+      }),
+  };
+}
+
+/**
+ * Reads a log file line by line, passing each entry to `apply`. A missing
+ * file is treated as empty; unreadable lines are skipped with a warning.
+ */
+async function replay<T>(path: string, apply: (entry: T) => void) {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return;
+    throw err;
+  }
+  const lines = text.split("\n");
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    let entry: T;
+    try {
+      entry = JSON.parse(line);
+    } catch (_) {
+      console.warn(`Skipping unreadable line ${i + 1} of ${path}`);
+      return;
+    }
+    apply(entry);
+  });
+  // Don't let the next entry continue a line cut off by a crash
+  if (text && !text.endsWith("\n")) {
+    await Deno.writeTextFile(path, "\n", { append: true });
+  }
+}
+
+/** Appends an entry as one line. */
+async function appendLine(
+  file: Deno.FsFile,
+  entry: ReportLogEntry | CredentialLogEntry | SourceMapLogEntry,
+) {
+  const data = new TextEncoder().encode(JSON.stringify(entry) + "\n");
+  let written = 0;
+  while (written < data.length) {
+    written += await file.write(data.subarray(written));
+  }
+}
+
+function sourceMapKey(
+  record: Pick<SourceMapRecord, "project" | "release" | "fileName">,
+): string {
+  return JSON.stringify([record.project, record.release, record.fileName]);
+}
+
+/** Whether an item sorts after the cursor position, newest first. */
+function isBefore(
+  time: number,
+  id: string,
+  after: { time: number; id: string },
+): boolean {
+  return time < after.time || (time === after.time && id < after.id);
+}
+
+/** Newest first, then by descending id. */
+function compareDesc(
+  timeA: number,
+  idA: string,
+  timeB: number,
+  idB: string,
+): number {
+  if (timeA !== timeB) return timeB - timeA;
+  return idA < idB ? 1 : idA > idB ? -1 : 0;
+}
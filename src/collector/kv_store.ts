@@ -0,0 +1,471 @@
+/**
+ * `ReportStore` backed by Deno KV (`CRASH_REPORT_STORAGE=kv`, the default).
+ *
+ * Every report is stored under `["reports", id]`. To filter without scanning
+ * every report, each insert also writes secondary index entries keyed by the
+ * receive time, so listing newest-first is a single range scan:
+ *
+ * - `["reports_by_time", receivedAtMs, id]`
+ * - `["reports_by_type", type, receivedAtMs, id]`
+ * - `["reports_by_os", os, receivedAtMs, id]`
+ * - `["reports_by_app_version", appVersion, receivedAtMs, id]`
+ * - `["reports_by_error_name", errorName, receivedAtMs, id]`
+ * - `["reports_by_fingerprint", fingerprint, receivedAtMs, id]`
+ * - `["reports_by_project", project, receivedAtMs, id]`
+ * - `["reports_by_tag", key, value, receivedAtMs, id]`, one per tag
+ *
+ * Index entries hold only the report id; the primary entry holds the data.
+ * With a retention period, report and index entries are written with
+ * `expireIn`, a day after the period, in case the sweeper does not get to
+ * them in time.
+ *
+ * `["report_usage", "added_reports" | "added_bytes" | "removed_reports" |
+ * "removed_bytes"]` are `Deno.KvU64` counters summed on every insert and
+ * delete; the usage is their difference. Counters only ever grow, so updates
+ * never conflict.
+ *
+ * Issues are stored under `["issues", fingerprint]`, indexed by recent
+ * activity with `["issues_by_last_seen", lastSeenMs, fingerprint]`, which is
+ * moved along in the same atomic operation as the update.
+ * `["issue_counts", fingerprint, "YYYY-MM-DD"]` holds per-day occurrence
+ * counters (`Deno.KvU64`).
+ *
+ * Credentials:
+ * - `["ingest_keys", id]` → `IngestKey`, `["ingest_keys_by_hash", hash]` → id
+ * - `["admin_tokens", id]` → `AdminToken`, `["admin_tokens_by_hash", hash]` → id
+ *
+ * Revoking a credential removes its hash entry and marks the record revoked.
+ *
+ * Source maps (KV values are limited to 64 KiB, so maps are stored in chunks):
+ * - `["sourcemaps", project, release, fileName]` → `SourceMapRecord`
+ * - `["sourcemap_chunks", id, index]` → `Uint8Array` (UTF-8 of the map)
+ */
+
+import type { StoredCredential } from "./auth.ts";
+import { applyOccurrence, type Issue, removeReport } from "./issues.ts";
+import {
+  INDEXED_FIELDS,
+  type IndexedField,
+  indexedValues,
+  matchesFilter,
+  type ReportFilter,
+  type StoredReport,
+} from "./reports.ts";
+import { SOURCE_MAP_CHUNK_BYTES, type SourceMapRecord } from "./source_maps.ts";
+import {
+  reportSize,
+  type ReportStore,
+  type ReportStoreOptions,
+} from "./store.ts";
+
+/** Index name of each filter field. */
+const INDEXES: Record<IndexedField, string> = {
+  fingerprint: "reports_by_fingerprint",
+  project: "reports_by_project",
+  errorName: "reports_by_error_name",
+  appVersion: "reports_by_app_version",
+  os: "reports_by_os",
+  type: "reports_by_type",
+};
+
+/** Fields more selective than a tag, scanned in preference to it. */
+const SELECTIVE_FIELDS: readonly IndexedField[] = ["fingerprint", "project"];
+
+/** Maximum attempts when concurrent ingests race on the same issue. */
+const MAX_UPDATE_ATTEMPTS = 10;
+/** Chunks written per atomic operation, below the KV mutation size limit. */
+const CHUNKS_PER_COMMIT = 10;
+/** How long after the retention period KV expires reports on its own. */
+const EXPIRY_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Opens a KV-backed store.
+ * @param path The database file; Deno's default location if not given.
+ * @param options Options of the store.
+ */
+export async function openKvStore(
+  path?: string,
+  options: ReportStoreOptions = {},
+): Promise<ReportStore> {
+  const kv = await Deno.openKv(path);
+  const expireIn = options.retentionMs
+    ? options.retentionMs + EXPIRY_GRACE_MS
+    : undefined;
+
+  const getReport = async (id: string) =>
+    (await kv.get<StoredReport>(["reports", id])).value;
+  const getIssue = async (fingerprint: string) =>
+    (await kv.get<Issue>(["issues", fingerprint])).value;
+
+  return {
+    backend: "kv",
+
+    async insertReport(report, cap) {
+      const { fingerprint } = report;
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const entry = await kv.get<Issue>(["issues", fingerprint]);
+        const previous = entry.value;
+        const result = applyOccurrence(previous, report, cap);
+        const { issue } = result;
+        const evicted = result.evicted
+          ? await kv.get<StoredReport>(["reports", result.evicted])
+          : null;
+
+        const op = kv.atomic()
+          .check(entry)
+          .set(["issues", fingerprint], issue)
+          .set(
+            ["issues_by_last_seen", Date.parse(issue.lastSeen), fingerprint],
+            fingerprint,
+          )
+          .sum(
+            ["issue_counts", fingerprint, report.receivedAt.slice(0, 10)],
+            1n,
+          );
+        if (previous && previous.lastSeen !== issue.lastSeen) {
+          op.delete([
+            "issues_by_last_seen",
+            Date.parse(previous.lastSeen),
+            fingerprint,
+          ]);
+        }
+        if (result.stored) {
+          addReportWrites(op, report, expireIn);
+          addUsage(op, "added", report);
+        }
+        if (evicted?.value) {
+          op.check(evicted);
+          addReportDeletes(op, evicted.value);
+          addUsage(op, "removed", evicted.value);
+        }
+        if ((await op.commit()).ok) return result;
+      }
+      throw new Error(
+        `Too much contention while updating issue ${fingerprint}`,
+      );
+    },
+
+    getReport,
+
+    async queryReports(filter, limit, cursor) {
+      const prefix = scanPrefix(filter);
+      const iter = kv.list<string>({
+        start: [...prefix, filter.from ?? 0],
+        end: [...prefix, filter.to ?? Number.MAX_SAFE_INTEGER],
+      }, { cursor, reverse: true, batchSize: Math.min(limit * 2, 500) });
+
+      // The page only gets a cursor once another matching report follows it
+      const reports: StoredReport[] = [];
+      let pageEnd = "";
+      for await (const entry of iter) {
+        const report = await getReport(entry.value);
+        if (!report || !matchesFilter(report, filter)) continue;
+        if (reports.length >= limit) return { reports, cursor: pageEnd };
+        reports.push(report);
+        pageEnd = iter.cursor;
+      }
+      return { reports, cursor: null };
+    },
+
+    async deleteReport(id) {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const entry = await kv.get<StoredReport>(["reports", id]);
+        if (!entry.value) return false;
+        const { fingerprint } = entry.value;
+        const issue = fingerprint
+          ? await kv.get<Issue>(["issues", fingerprint])
+          : null;
+
+        // Check the versionstamps so a concurrent change doesn't leave stale
+        // indexes or counters
+        const op = kv.atomic().check(entry);
+        addReportDeletes(op, entry.value);
+        addUsage(op, "removed", entry.value);
+        if (issue?.value) {
+          op.check(issue).set(issue.key, removeReport(issue.value, id));
+        }
+        if ((await op.commit()).ok) return true;
+      }
+      throw new Error(`Too much contention while deleting report ${id}`);
+    },
+
+    async listOldestReports(before, limit) {
+      const reports: StoredReport[] = [];
+      const iter = kv.list<string>({
+        start: ["reports_by_time", 0],
+        end: ["reports_by_time", before],
+      }, { limit });
+      for await (const entry of iter) {
+        const report = await getReport(entry.value);
+        if (report) reports.push(report);
+      }
+      return reports;
+    },
+
+    async getUsage() {
+      const [addedReports, addedBytes, removedReports, removedBytes] = await kv
+        .getMany<Deno.KvU64[]>(
+          USAGE_COUNTERS.map((counter) => ["report_usage", counter]),
+        );
+      const count = (entry: Deno.KvEntryMaybe<Deno.KvU64>) =>
+        Number(entry.value?.value ?? 0n);
+      // Reports stored before the counters existed are not counted
+      return {
+        reports: Math.max(0, count(addedReports) - count(removedReports)),
+        bytes: Math.max(0, count(addedBytes) - count(removedBytes)),
+      };
+    },
+
+    getIssue,
+
+    async updateIssue(fingerprint, update) {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const entry = await kv.get<Issue>(["issues", fingerprint]);
+        if (!entry.value) return null;
+        const issue = update(entry.value);
+        const commitResult = await kv.atomic()
+          .check(entry)
+          .set(entry.key, issue)
+          .commit();
+        if (commitResult.ok) return issue;
+      }
+      throw new Error(
+        `Too much contention while updating issue ${fingerprint}`,
+      );
+    },
+
+    async listIssues(limit, cursor) {
+      const iter = kv.list<string>(
+        { prefix: ["issues_by_last_seen"] },
+        { cursor, reverse: true, batchSize: Math.min(limit + 1, 500) },
+      );
+      const issues: Issue[] = [];
+      let pageEnd = "";
+      for await (const entry of iter) {
+        const issue = await getIssue(entry.value);
+        if (!issue) continue;
+        if (issues.length >= limit) return { issues, cursor: pageEnd };
+        issues.push(issue);
+        pageEnd = iter.cursor;
+      }
+      return { issues, cursor: null };
+    },
+
+    async countOccurrences(fingerprint, fromDay) {
+      const counts: Record<string, number> = {};
+      const iter = kv.list<Deno.KvU64>({
+        start: ["issue_counts", fingerprint, fromDay],
+        end: ["issue_counts", fingerprint, "\uffff"],
+      });
+      for await (const entry of iter) {
+        counts[entry.key[2] as string] = Number(entry.value.value);
+      }
+      return counts;
+    },
+
+    async insertCredential(kind, credential) {
+      const commitResult = await kv.atomic()
+        .set([kind, credential.id], credential)
+        .set([`${kind}_by_hash`, credential.hash], credential.id)
+        .commit();
+      if (!commitResult.ok) {
+        throw new Error(`KV commit failed while creating ${kind} entry`);
+      }
+    },
+
+    async findCredential(kind, hash) {
+      const id = await kv.get<string>([`${kind}_by_hash`, hash]);
+      if (!id.value) return null;
+      return (await kv.get<StoredCredential>([kind, id.value])).value;
+    },
+
+    async revokeCredential(kind, id, revokedAt) {
+      const entry = await kv.get<StoredCredential>([kind, id]);
+      if (!entry.value || entry.value.revokedAt) return false;
+
+      const commitResult = await kv.atomic()
+        .check(entry)
+        .set(entry.key, { ...entry.value, revokedAt })
+        .delete([`${kind}_by_hash`, entry.value.hash])
+        .commit();
+      if (!commitResult.ok) {
+        throw new Error(`KV commit failed while revoking ${kind} entry ${id}`);
+      }
+      return true;
+    },
+
+    async listCredentials(kind) {
+      const credentials: StoredCredential[] = [];
+      for await (
+        const entry of kv.list<StoredCredential>({ prefix: [kind] })
+      ) {
+        credentials.push(entry.value);
+      }
+      return credentials;
+    },
+
+    async hasCredentials(kind) {
+      for await (const _ of kv.list({ prefix: [kind] }, { limit: 1 })) {
+        return true;
+      }
+      return false;
+    },
+
+    async insertSourceMap(record, content) {
+      for (let first = 0; first < record.chunks; first += CHUNKS_PER_COMMIT) {
+        const op = kv.atomic();
+        const last = Math.min(record.chunks, first + CHUNKS_PER_COMMIT);
+        for (let i = first; i < last; i++) {
+          op.set(
+            ["sourcemap_chunks", record.id, i],
+            content.subarray(
+              i * SOURCE_MAP_CHUNK_BYTES,
+              (i + 1) * SOURCE_MAP_CHUNK_BYTES,
+            ),
+          );
+        }
+        const commitResult = await op.commit();
+        if (!commitResult.ok) {
+          throw new Error(
+            `KV commit failed while storing source map ${record.id}`,
+          );
+        }
+      }
+
+      // Publish the record only once every chunk is written
+      const key = [
+        "sourcemaps",
+        record.project,
+        record.release,
+        record.fileName,
+      ];
+      const previous = await kv.get<SourceMapRecord>(key);
+      const commitResult = await kv.atomic().set(key, record).commit();
+      if (!commitResult.ok) {
+        throw new Error(
+          `KV commit failed while storing source map ${record.id}`,
+        );
+      }
+      if (previous.value) {
+        for await (
+          const entry of kv.list({
+            prefix: ["sourcemap_chunks", previous.value.id],
+          })
+        ) {
+          await kv.delete(entry.key);
+        }
+      }
+    },
+
+    async getSourceMap(project, release, fileName) {
+      return (await kv.get<SourceMapRecord>(
+        ["sourcemaps", project, release, fileName],
+      )).value;
+    },
+
+    async readSourceMap(record) {
+      const bytes = new Uint8Array(record.size);
+      let offset = 0;
+      for await (
+        const entry of kv.list<Uint8Array>({
+          prefix: ["sourcemap_chunks", record.id],
+        })
+      ) {
+        bytes.set(entry.value, offset);
+        offset += entry.value.byteLength;
+      }
+      return offset === record.size ? bytes : null;
+    },
+
+    async listSourceMaps(release) {
+      const records: SourceMapRecord[] = [];
+      for await (
+        const entry of kv.list<SourceMapRecord>({ prefix: ["sourcemaps"] })
+      ) {
+        if (release === undefined || entry.value.release === release) {
+          records.push(entry.value);
+        }
+      }
+      return records;
+    },
+
+    close() {
+      kv.close();
+      return Promise.resolve();
+    },
+  };
+}
+
+/** All index keys of a stored report. */
+function indexKeys(report: StoredReport): Deno.KvKey[] {
+  const time = Date.parse(report.receivedAt);
+  const keys: Deno.KvKey[] = [["reports_by_time", time, report.id]];
+  for (const [field, value] of Object.entries(indexedValues(report))) {
+    keys.push([INDEXES[field as IndexedField], value, time, report.id]);
+  }
+  for (const [key, value] of Object.entries(report.payload.tags ?? {})) {
+    keys.push(["reports_by_tag", key, value, time, report.id]);
+  }
+  return keys;
+}
+
+/**
+ * Adds the writes storing a new report and its index entries to an atomic
+ * operation, so they are committed together with the issue update.
+ */
+function addReportWrites(
+  op: Deno.AtomicOperation,
+  report: StoredReport,
+  expireIn?: number,
+): Deno.AtomicOperation {
+  op.set(["reports", report.id], report, { expireIn });
+  for (const key of indexKeys(report)) {
+    op.set(key, report.id, { expireIn });
+  }
+  return op;
+}
+
+/** Adds the deletes of a report and its index entries to an atomic operation. */
+function addReportDeletes(
+  op: Deno.AtomicOperation,
+  report: StoredReport,
+): Deno.AtomicOperation {
+  op.delete(["reports", report.id]);
+  for (const key of indexKeys(report)) {
+    op.delete(key);
+  }
+  return op;
+}
+
+const USAGE_COUNTERS = [
+  "added_reports",
+  "added_bytes",
+  "removed_reports",
+  "removed_bytes",
+] as const;
+
+/** Adds a report to the `added` or `removed` usage counters. */
+function addUsage(
+  op: Deno.AtomicOperation,
+  direction: "added" | "removed",
+  report: StoredReport,
+): Deno.AtomicOperation {
+  return op
+    .sum(["report_usage", `${direction}_reports`], 1n)
+    .sum(["report_usage", `${direction}_bytes`], BigInt(reportSize(report)));
+}
+
+/**
+ * Picks the index `queryReports` scans for a filter: the first indexed field
+ * present in the filter (a tag comes right after `fingerprint` and
+ * `project`), or the time index otherwise. Remaining filters are applied to
+ * the fetched reports.
+ */
+function scanPrefix(filter: ReportFilter): Deno.KvKey {
+  const field = INDEXED_FIELDS.find((f) => filter[f] !== undefined);
+  const tag = Object.entries(filter.tags ?? {})[0];
+  if (tag && !(field && SELECTIVE_FIELDS.includes(field))) {
+    return ["reports_by_tag", ...tag];
+  }
+  return field ? [INDEXES[field], filter[field]!] : ["reports_by_time"];
+}
@@ -0,0 +1,73 @@
+/**
+ * In-memory token-bucket rate limiting for the collector.
+ *
+ * Each bucket (per client IP, per ingest key) holds up to one minute's worth
+ * of tokens and refills continuously. A request takes one token; when the
+ * bucket is empty the caller gets the number of seconds until the next token,
+ * for the `Retry-After` header.
+ */
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Above this many tracked buckets, full (idle) buckets are dropped. */
+const MAX_IDLE_BUCKETS = 10_000;
+
+/**
+ * A set of token buckets sharing one rate.
+ */
+export interface RateLimiter {
+  /**
+   * Takes a token from the bucket of `key`.
+   * @returns `0` if allowed, otherwise the seconds to wait before retrying.
+   */
+  take(key: string): number;
+}
+
+/**
+ * Creates a rate limiter.
+ * @param perMinute Allowed requests per minute per key; also the burst size.
+ *   `0` disables limiting.
+ */
+export function createRateLimiter(perMinute: number): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60_000;
+
+  function refill(bucket: Bucket, now: number) {
+    bucket.tokens = Math.min(
+      perMinute,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+    );
+    bucket.updatedAt = now;
+  }
+
+  function pruneIdle(now: number) {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= perMinute) buckets.delete(key);
+    }
+  }
+
+  return {
+    take(key) {
+      if (perMinute <= 0) return 0;
+      const now = Date.now();
+      if (buckets.size > MAX_IDLE_BUCKETS) pruneIdle(now);
+
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: perMinute, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+      refill(bucket, now);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000));
+    },
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Stored reports of the collector, and the filters for listing them.
+ *
+ * The reports themselves are kept by the configured `ReportStore` (see
+ * `./store.ts`). Every backend supports the same filters: exact matches on
+ * the `INDEXED_FIELDS`, tags and a receive-time range.
+ */
+
+import { getErrorName } from "../fingerprint.ts";
+import type { CrashReportPayload } from "../payload.ts";
+
+export { getErrorName };
+
+/** A report as stored by the collector. */
+export interface StoredReport {
+  /** Unique id assigned by the collector. */
+  id: string;
+  /** ISO 8601 timestamp of when the collector received the report. */
+  receivedAt: string;
+  /** The (normalized) payload sent by the reporter. */
+  payload: CrashReportPayload;
+  /** Grouping fingerprint, see `./issues.ts`. */
+  fingerprint?: string;
+  /** Project of the ingest key the report was sent with, see `./auth.ts`. */
+  project?: string;
+}
+
+/** Filters accepted by `ReportStore.queryReports`. All given filters must match. */
+export interface ReportFilter {
+  /** Only reports received at or after this time (ms since epoch). */
+  from?: number;
+  /** Only reports received before this time (ms since epoch). */
+  to?: number;
+  /** Report type, e.g. `"error"` or `"unhandledrejection"`. */
+  type?: string;
+  /** Operating system from `reporterInfo.os`. */
+  os?: string;
+  /** Application version from `reporterInfo.appVersion`. */
+  appVersion?: string;
+  /** Name of the reported error, e.g. `"TypeError"`. */
+  errorName?: string;
+  /** Issue fingerprint. */
+  fingerprint?: string;
+  /** Project of the ingest key. */
+  project?: string;
+  /** Tags the report must have, all of them (see `setTag`). */
+  tags?: Record<string, string>;
+}
+
+/** A page of results returned by `ReportStore.queryReports`. */
+export interface ReportPage {
+  reports: StoredReport[];
+  /** Pass this back to get the next page; `null` when there are no more results. */
+  cursor: string | null;
+}
+
+/**
+ * Filter fields served by an index, ordered from most to least selective:
+ * backends scanning one index pick the first field present in the filter.
+ */
+export const INDEXED_FIELDS = [
+  "fingerprint",
+  "project",
+  "errorName",
+  "appVersion",
+  "os",
+  "type",
+] as const;
+
+/** A filter field served by an index. */
+export type IndexedField = typeof INDEXED_FIELDS[number];
+
+/**
+ * Returns the value of every indexed field for a report.
+ * Fields without a value are left out (and not indexed).
+ */
+export function indexedValues(
+  report: StoredReport,
+): Partial<Record<IndexedField, string>> {
+  const { payload } = report;
+  const values: Partial<Record<IndexedField, string>> = {
+    type: payload.report.type ?? "unknown",
+    os: payload.reporterInfo.os,
+    appVersion: payload.reporterInfo.appVersion,
+    errorName: getErrorName(payload),
+    fingerprint: report.fingerprint,
+    project: report.project,
+  };
+  for (const field of Object.keys(values) as IndexedField[]) {
+    if (values[field] === undefined) delete values[field];
+  }
+  return values;
+}
+
+/**
+ * Builds a filter from query parameters (`from`, `to`, `type`, `os`,
+ * `appVersion`, `errorName`, `fingerprint`, `project`, `tag`). Empty parameters are ignored.
+ * `from`/`to` accept ISO 8601 dates or milliseconds since epoch. `tag` has
+ * the form `key:value` and may be repeated.
+ * @param params The query parameters.
+ * @returns The filter, or `null` if a time or tag parameter is invalid.
+ */
+export function parseReportFilter(
+  params: URLSearchParams,
+): ReportFilter | null {
+  const from = parseTimeParam(params.get("from"));
+  const to = parseTimeParam(params.get("to"));
+  if (Number.isNaN(from) || Number.isNaN(to)) return null;
+
+  const filter: ReportFilter = { from, to };
+  for (const field of INDEXED_FIELDS) {
+    const value = params.get(field);
+    if (value) filter[field] = value;
+  }
+  for (const param of params.getAll("tag")) {
+    if (!param) continue;
+    const separator = param.indexOf(":");
+    if (separator < 1) return null;
+    filter.tags ??= {};
+    filter.tags[param.slice(0, separator)] = param.slice(separator + 1);
+  }
+  return filter;
+}
+
+/**
+ * Parses a `from`/`to` query parameter.
+ * @returns Milliseconds since epoch, `undefined` if absent, `NaN` if invalid.
+ */
+function parseTimeParam(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+/** Checks all filters, the time range included, against a report. */
+export function matchesFilter(
+  report: StoredReport,
+  filter: ReportFilter,
+): boolean {
+  const time = Date.parse(report.receivedAt);
+  if (filter.from !== undefined && time < filter.from) return false;
+  if (filter.to !== undefined && time >= filter.to) return false;
+  const values = indexedValues(report);
+  const tags = report.payload.tags ?? {};
+  return INDEXED_FIELDS.every((field) =>
+    filter[field] === undefined || values[field] === filter[field]
+  ) &&
+    Object.entries(filter.tags ?? {}).every(([key, value]) =>
+      tags[key] === value
+    );
+}
@@ -0,0 +1,147 @@
+/**
+ * Retention and the storage quota of the collector.
+ *
+ * A sweeper runs every `CRASH_REPORT_SWEEP_INTERVAL_SEC` (see `./config.ts`)
+ * and deletes, through `ReportStore.deleteReport`, so issue counters and
+ * storage usage stay accurate:
+ *
+ * 1. Reports older than `CRASH_REPORT_RETENTION_DAYS`.
+ * 2. The oldest reports, while the stored reports take more than
+ *    `CRASH_REPORT_MAX_STORAGE_MB`.
+ *
+ * After each sweep it compacts stores that need it (`jsonl`, see
+ * `ReportStore.compact`). As sweeps are minutes apart, the collector also
+ * calls `enforceQuota` after storing a report, so the quota holds between
+ * sweeps.
+ *
+ * Issues and their per-day occurrence counts are kept, so the dashboard still
+ * shows how often an issue happened after its reports are gone.
+ */
+
+import { reportSize, type ReportStore } from "./store.ts";
+
+/** What the sweeper enforces. */
+export interface RetentionPolicy {
+  /** Age in milliseconds after which reports are deleted, `0` to keep them. */
+  maxAgeMs: number;
+  /** Size of the stored reports in bytes above which the oldest are evicted, `0` to disable. */
+  maxBytes: number;
+}
+
+/** Result of `sweepReports`. */
+export interface SweepResult {
+  /** Reports deleted because they were older than the retention period. */
+  expired: number;
+  /** Reports evicted to get below the storage quota. */
+  evicted: number;
+}
+
+/** Reports fetched and deleted per step. */
+const SWEEP_BATCH = 100;
+
+/**
+ * Deletes the reports the policy does not allow to keep.
+ * @param store The report store.
+ * @param policy The retention policy.
+ * @param now The current time (ms since epoch).
+ */
+export async function sweepReports(
+  store: ReportStore,
+  policy: RetentionPolicy,
+  now = Date.now(),
+): Promise<SweepResult> {
+  const result: SweepResult = { expired: 0, evicted: 0 };
+
+  if (policy.maxAgeMs > 0) {
+    while (true) {
+      const batch = await store.listOldestReports(
+        now - policy.maxAgeMs,
+        SWEEP_BATCH,
+      );
+      let deleted = 0;
+      for (const report of batch) {
+        if (await store.deleteReport(report.id)) deleted++;
+      }
+      result.expired += deleted;
+      // Stop on a batch that could not be deleted, rather than retry forever
+      if (batch.length < SWEEP_BATCH || deleted === 0) break;
+    }
+  }
+
+  if (policy.maxBytes > 0) {
+    let { bytes } = await store.getUsage();
+    while (bytes > policy.maxBytes) {
+      const batch = await store.listOldestReports(
+        Number.MAX_SAFE_INTEGER,
+        SWEEP_BATCH,
+      );
+      let deleted = 0;
+      for (const report of batch) {
+        if (bytes <= policy.maxBytes) break;
+        if (await store.deleteReport(report.id)) {
+          deleted++;
+          bytes -= reportSize(report);
+        }
+      }
+      result.evicted += deleted;
+      if (deleted === 0) break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Evicts the oldest reports while the stored reports take more than
+ * `maxBytes`.
+ * @param store The report store.
+ * @param maxBytes The storage quota in bytes, `0` to disable.
+ * @returns The number of evicted reports.
+ */
+export async function enforceQuota(
+  store: ReportStore,
+  maxBytes: number,
+): Promise<number> {
+  if (maxBytes <= 0 || (await store.getUsage()).bytes <= maxBytes) return 0;
+  const { evicted } = await sweepReports(store, { maxAgeMs: 0, maxBytes });
+  return evicted;
+}
+
+/**
+ * Runs `sweepReports` now and then every `intervalMs`, logging what was
+ * deleted, and compacting the store after each sweep. Sweeps do not overlap; a failed sweep is logged and retried at the
+ * next interval.
+ * @param store The report store.
+ * @param policy The retention policy; nothing runs if it enforces nothing.
+ * @param intervalMs The interval between the end of a sweep and the next.
+ * @returns A function stopping the sweeper.
+ */
+export function startSweeper(
+  store: ReportStore,
+  policy: RetentionPolicy,
+  intervalMs: number,
+): () => void {
+  if (policy.maxAgeMs <= 0 && policy.maxBytes <= 0) return () => {};
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  const run = async () => {
+    try {
+      const { expired, evicted } = await sweepReports(store, policy);
+      if (expired || evicted) {
+        console.log(
+          `-> Sweeper deleted ${expired} expired report(s), evicted ${evicted} over the storage quota`,
+        );
+      }
+      // Also frees the space of reports deleted since, e.g. by `enforceQuota`
+      await store.compact?.();
+    } catch (err) {
+      console.error("! Error sweeping reports:", err);
+    }
+    if (!stopped) timer = setTimeout(run, Math.max(intervalMs, 1000));
+  };
+  run();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
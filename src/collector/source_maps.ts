@@ -0,0 +1,409 @@
+/**
+ * Source map storage and stack frame resolution.
+ *
+ * Bundled and compiled apps report stack frames pointing into the bundle.
+ * Source maps uploaded per release (`POST /api/sourcemaps`) map them back to
+ * the original files, lines and function names, with the surrounding source
+ * lines when the map embeds `sourcesContent`.
+ *
+ * A report's release is its `reporterInfo.appVersion`. Frames are matched to
+ * maps by the file name of the generated file (the last path segment), so a
+ * map uploaded for `dist/app.js` applies wherever the bundle was installed.
+ * Maps are looked up under the report's project first, then under maps
+ * uploaded without a project.
+ *
+ * Frames are resolved when a report is read, so maps uploaded after a crash
+ * still apply. The maps are kept by the configured `ReportStore`.
+ */
+
+import { isInAppFile, parseStack, type StackFrame } from "../stack.ts";
+import type { StoredReport } from "./reports.ts";
+import type { ReportStore } from "./store.ts";
+
+/** An uploaded source map (without its content). */
+export interface SourceMapRecord {
+  id: string;
+  /** Project the map belongs to, `""` for maps usable by every project. */
+  project: string;
+  release: string;
+  /** The generated file as given at upload. */
+  file: string;
+  /** Last path segment of `file`, used for matching frames. */
+  fileName: string;
+  /** Size of the map in bytes. */
+  size: number;
+  /** Number of chunks the map is split into by the `kv` backend. */
+  chunks: number;
+  uploadedAt: string;
+}
+
+/** A stack frame, resolved through a source map where one applies. */
+export interface ResolvedFrame extends StackFrame {
+  /** Position in the generated file, set when the frame was source-mapped. */
+  generated?: { file: string; line?: number; column?: number };
+  /** Source lines before `contextLine`. */
+  preContext?: string[];
+  /** The source line of the frame. */
+  contextLine?: string;
+  /** Source lines after `contextLine`. */
+  postContext?: string[];
+}
+
+/** Result of `storeSourceMap`. */
+export type StoreSourceMapResult =
+  | { ok: true; record: SourceMapRecord }
+  | { ok: false; error: string };
+
+/** Bytes per chunk of the `kv` backend, below the 64 KiB KV value limit. */
+export const SOURCE_MAP_CHUNK_BYTES = 60_000;
+/** Source lines shown before and after the frame's line. */
+const CONTEXT_LINES = 5;
+/** Number of decoded maps kept in memory. */
+const MAX_CACHED_MAPS = 20;
+
+/** One mapping: generated column, then source index, original line and column, name index. */
+type Segment =
+  | [number]
+  | [number, number, number, number]
+  | [number, number, number, number, number];
+
+interface DecodedSourceMap {
+  sources: string[];
+  sourcesContent: (string | null)[];
+  names: string[];
+  /** Segments per generated line, sorted by generated column. */
+  lines: Segment[][];
+  /** `sourcesContent` split into lines, filled on demand. */
+  sourceLines: Map<number, string[]>;
+}
+
+const decodedMaps = new Map<string, DecodedSourceMap>();
+
+/**
+ * Stores a source map, replacing the map previously uploaded for the same
+ * project, release and file name.
+ * @param store The report store.
+ * @param target Where the map applies.
+ * @param content The source map JSON.
+ * @returns The stored record, or why the content is not a usable source map.
+ */
+export async function storeSourceMap(
+  store: ReportStore,
+  target: { project?: string; release: string; file: string },
+  content: string,
+): Promise<StoreSourceMapResult> {
+  // Validate (and warm the cache) before storing anything
+  const decoded = decodeSourceMap(content);
+  if (typeof decoded === "string") return { ok: false, error: decoded };
+
+  const bytes = new TextEncoder().encode(content);
+  const record: SourceMapRecord = {
+    id: crypto.randomUUID(),
+    project: target.project ?? "",
+    release: target.release,
+    file: target.file,
+    fileName: fileNameOf(target.file),
+    size: bytes.byteLength,
+    chunks: Math.ceil(bytes.byteLength / SOURCE_MAP_CHUNK_BYTES),
+    uploadedAt: new Date().toISOString(),
+  };
+
+  await store.insertSourceMap(record, bytes);
+  cacheDecodedMap(record.id, decoded);
+  return { ok: true, record };
+}
+
+/**
+ * Returns the stack frames of a report's thrown value, resolved through the
+ * source maps of its release. Frames without a matching map are returned
+ * unchanged.
+ * @param store The report store.
+ * @param report The stored report.
+ * @returns The frames, innermost first (empty if the report has no stack).
+ */
+export async function resolveReportFrames(
+  store: ReportStore,
+  report: StoredReport,
+): Promise<ResolvedFrame[]> {
+  const frames = getReportFrames(report);
+  const release = report.payload.reporterInfo.appVersion;
+  if (!release || frames.length === 0) return frames;
+
+  // Several frames usually point into the same bundle
+  const maps = new Map<string, Promise<DecodedSourceMap | null>>();
+  return await Promise.all(frames.map(async (frame) => {
+    if (frame.line === undefined || frame.column === undefined) return frame;
+    const fileName = fileNameOf(frame.file);
+    if (!maps.has(fileName)) {
+      maps.set(
+        fileName,
+        loadSourceMap(store, report.project ?? "", release, fileName),
+      );
+    }
+    const map = await maps.get(fileName)!;
+    return map ? resolveFrame(map, frame) : frame;
+  }));
+}
+
+/**
+ * Returns the frames of a report's thrown value: the `frames` sent by the
+ * reporter, or the parsed `stack` for reports from older reporters.
+ *
+ * The frames come from the client, so only the fields of `StackFrame` are
+ * kept, and only with the right types: the source context and `generated`
+ * position are the collector's to add. Reports stored before frames were
+ * validated at ingest fall back to their `stack` if a frame is malformed.
+ */
+function getReportFrames(report: StoredReport): StackFrame[] {
+  const content = report.payload.report as Record<string, unknown>;
+  const thrown = content.error ?? content.reason;
+  if (typeof thrown !== "object" || thrown === null) return [];
+  const { frames, stack } = thrown as Record<string, unknown>;
+  if (Array.isArray(frames)) {
+    const sanitized = frames.map(toStackFrame);
+    if (sanitized.every((frame) => frame !== null)) return sanitized;
+  }
+  return typeof stack === "string" ? parseStack(stack) : [];
+}
+
+/** Copies the `StackFrame` fields of a received frame, `null` if it is malformed. */
+function toStackFrame(frame: unknown): StackFrame | null {
+  if (typeof frame !== "object" || frame === null) return null;
+  const { function: fn, file, line, column, inApp, async } = frame as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof file !== "string" ||
+    (fn !== undefined && typeof fn !== "string") ||
+    (line !== undefined && !isPosition(line)) ||
+    (column !== undefined && !isPosition(column)) ||
+    (async !== undefined && typeof async !== "boolean")
+  ) {
+    return null;
+  }
+  const result: StackFrame = {
+    file,
+    inApp: typeof inApp === "boolean" ? inApp : isInAppFile(file),
+  };
+  if (fn !== undefined) result.function = fn;
+  if (line !== undefined) result.line = line;
+  if (column !== undefined) result.column = column;
+  if (async !== undefined) result.async = async;
+  return result;
+}
+
+/** Checks for a 1-based line or column number. */
+function isPosition(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 1;
+}
+
+function resolveFrame(
+  map: DecodedSourceMap,
+  frame: StackFrame,
+): ResolvedFrame {
+  const segment = findSegment(map, frame.line! - 1, frame.column! - 1);
+  if (!segment || segment.length === 1) return frame;
+
+  const [, sourceIndex, line, column, nameIndex] = segment;
+  const file = map.sources[sourceIndex] ?? frame.file;
+  const resolved: ResolvedFrame = {
+    ...frame,
+    function: nameIndex !== undefined
+      ? map.names[nameIndex] ?? frame.function
+      : frame.function,
+    file,
+    line: line + 1,
+    column: column + 1,
+    inApp: isInAppFile(file),
+    generated: { file: frame.file, line: frame.line, column: frame.column },
+  };
+
+  const lines = getSourceLines(map, sourceIndex);
+  if (lines && line < lines.length) {
+    resolved.preContext = lines.slice(Math.max(0, line - CONTEXT_LINES), line);
+    resolved.contextLine = lines[line];
+    resolved.postContext = lines.slice(line + 1, line + 1 + CONTEXT_LINES);
+  }
+  return resolved;
+}
+
+/** Finds the last segment of a generated line starting at or before `column` (0-based). */
+function findSegment(
+  map: DecodedSourceMap,
+  line: number,
+  column: number,
+): Segment | undefined {
+  const segments = map.lines[line];
+  if (!segments) return undefined;
+  let low = 0;
+  let high = segments.length - 1;
+  let found: Segment | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid][0] <= column) {
+      found = segments[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+function getSourceLines(
+  map: DecodedSourceMap,
+  sourceIndex: number,
+): string[] | undefined {
+  const content = map.sourcesContent[sourceIndex];
+  if (typeof content !== "string") return undefined;
+  let lines = map.sourceLines.get(sourceIndex);
+  if (!lines) {
+    lines = content.split(/\r?\n/);
+    map.sourceLines.set(sourceIndex, lines);
+  }
+  return lines;
+}
+
+async function loadSourceMap(
+  store: ReportStore,
+  project: string,
+  release: string,
+  fileName: string,
+): Promise<DecodedSourceMap | null> {
+  const record = await store.getSourceMap(project, release, fileName) ??
+    (project !== "" ? await store.getSourceMap("", release, fileName) : null);
+  if (!record) return null;
+
+  const cached = decodedMaps.get(record.id);
+  if (cached) return cached;
+
+  const bytes = await store.readSourceMap(record);
+  if (!bytes) return null;
+  const decoded = decodeSourceMap(new TextDecoder().decode(bytes));
+  if (typeof decoded === "string") {
+    console.error(`! Stored source map ${record.id} is unreadable:`, decoded);
+    return null;
+  }
+  cacheDecodedMap(record.id, decoded);
+  return decoded;
+}
+
+function cacheDecodedMap(id: string, decoded: DecodedSourceMap) {
+  decodedMaps.set(id, decoded);
+  if (decodedMaps.size > MAX_CACHED_MAPS) {
+    decodedMaps.delete(decodedMaps.keys().next().value!);
+  }
+}
+
+function fileNameOf(file: string): string {
+  return file.replace(/[?#].*$/, "").split(/[\\/]/).pop() || file;
+}
+
+// --- Source Map Decoding ---
+
+/**
+ * Parses a version 3 source map and decodes its mappings.
+ * @returns The decoded map, or why the content is not a usable source map.
+ */
+function decodeSourceMap(content: string): DecodedSourceMap | string {
+  let map: Record<string, unknown>;
+  try {
+    map = JSON.parse(content);
+  } catch (err) {
+    return `Not valid JSON: ${err instanceof Error ? err.message : err}`;
+  }
+  if (typeof map !== "object" || map === null || Array.isArray(map)) {
+    return "Not a JSON object";
+  }
+  if (map.version !== 3) return "Only version 3 source maps are supported";
+  if ("sections" in map) return "Indexed source maps are not supported";
+  if (typeof map.mappings !== "string" || !Array.isArray(map.sources)) {
+    return "Missing `mappings` or `sources`";
+  }
+  const lines = decodeMappings(map.mappings);
+  if (!lines) return "Invalid characters in `mappings`";
+
+  const sourceRoot = typeof map.sourceRoot === "string" ? map.sourceRoot : "";
+  const root = sourceRoot && !sourceRoot.endsWith("/")
+    ? `${sourceRoot}/`
+    : sourceRoot;
+  return {
+    sources: map.sources.map((source) => `${root}${source ?? ""}`),
+    sourcesContent: Array.isArray(map.sourcesContent) ? map.sourcesContent : [],
+    names: Array.isArray(map.names) ? map.names : [],
+    lines,
+    sourceLines: new Map(),
+  };
+}
+
+const BASE64_DIGITS = new Map(
+  [..."ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"]
+    .map((char, i) => [char, i]),
+);
+
+/**
+ * Decodes the Base64 VLQ `mappings` field, resolving the relative offsets.
+ * @returns The segments per generated line, or `null` if the field is malformed.
+ */
+function decodeMappings(mappings: string): Segment[][] | null {
+  const lines: Segment[][] = [];
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+
+  for (const lineText of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+    for (const segmentText of lineText.split(",")) {
+      if (!segmentText) continue;
+      const values = decodeVlq(segmentText);
+      if (!values) return null;
+      generatedColumn += values[0];
+      if (values.length < 4) {
+        segments.push([generatedColumn]);
+        continue;
+      }
+      source += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+      if (values.length < 5) {
+        segments.push([generatedColumn, source, originalLine, originalColumn]);
+      } else {
+        name += values[4];
+        segments.push([
+          generatedColumn,
+          source,
+          originalLine,
+          originalColumn,
+          name,
+        ]);
+      }
+    }
+    segments.sort((a, b) => a[0] - b[0]);
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function decodeVlq(text: string): number[] | null {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of text) {
+    const digit = BASE64_DIGITS.get(char);
+    if (digit === undefined) return null;
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    const negative = value % 2 === 1;
+    value = Math.floor(value / 2);
+    values.push(negative ? -value : value);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
@@ -0,0 +1,443 @@
+/**
+ * `ReportStore` backed by SQLite (`CRASH_REPORT_STORAGE=sqlite`), using the
+ * built-in `node:sqlite` module.
+ *
+ * Records are stored as JSON in a `data` column, next to the columns they are
+ * looked up and filtered by:
+ *
+ * - `reports`: one row per report, with a column per indexed filter field
+ *   (`fingerprint`, `project`, ...) and `received_at` (ms since epoch);
+ *   `report_tags` holds one row per tag.
+ * - `issues`: one row per issue, with `last_seen`; `issue_counts` holds the
+ *   per-day occurrence counts.
+ * - `credentials`: ingest keys and admin tokens with the hash of their secret.
+ * - `sourcemaps`: one row per project, release and file name, with the map as
+ *   a `BLOB`.
+ *
+ * Inserting or deleting a report and updating its issue happen in one
+ * transaction. The storage usage is the size of the `data` column.
+ * Cursors are the receive time and id of the last report (the last-seen time
+ * and fingerprint for issues).
+ */
+
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+import type { StoredCredential } from "./auth.ts";
+import { applyOccurrence, type Issue, removeReport } from "./issues.ts";
+import {
+  INDEXED_FIELDS,
+  type IndexedField,
+  indexedValues,
+  type StoredReport,
+} from "./reports.ts";
+import type { SourceMapRecord } from "./source_maps.ts";
+import {
+  decodePageCursor,
+  encodePageCursor,
+  type ReportStore,
+} from "./store.ts";
+
+/** Column of each filter field in the `reports` table. */
+const COLUMNS: Record<IndexedField, string> = {
+  fingerprint: "fingerprint",
+  project: "project",
+  errorName: "error_name",
+  appVersion: "app_version",
+  os: "os",
+  type: "type",
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS reports (
+    id TEXT PRIMARY KEY,
+    received_at INTEGER NOT NULL,
+    ${INDEXED_FIELDS.map((field) => `${COLUMNS[field]} TEXT`).join(", ")},
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reports_by_time ON reports (received_at, id);
+  ${
+  INDEXED_FIELDS.map((field) =>
+    `CREATE INDEX IF NOT EXISTS reports_by_${COLUMNS[field]}
+      ON reports (${COLUMNS[field]}, received_at);`
+  ).join("\n")
+}
+  CREATE TABLE IF NOT EXISTS report_tags (
+    report_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (report_id, key)
+  );
+  CREATE INDEX IF NOT EXISTS report_tags_by_value ON report_tags (key, value);
+  CREATE TABLE IF NOT EXISTS issues (
+    fingerprint TEXT PRIMARY KEY,
+    last_seen INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS issues_by_last_seen
+    ON issues (last_seen, fingerprint);
+  CREATE TABLE IF NOT EXISTS issue_counts (
+    fingerprint TEXT NOT NULL,
+    day TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (fingerprint, day)
+  );
+  CREATE TABLE IF NOT EXISTS credentials (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    revoked INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL,
+    PRIMARY KEY (kind, id)
+  );
+  CREATE INDEX IF NOT EXISTS credentials_by_hash ON credentials (kind, hash);
+  CREATE TABLE IF NOT EXISTS sourcemaps (
+    project TEXT NOT NULL,
+    release TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    data TEXT NOT NULL,
+    content BLOB NOT NULL,
+    PRIMARY KEY (project, release, file_name)
+  );
+`;
+
+/**
+ * Opens a SQLite-backed store, creating the database and its tables if needed.
+ * @param path The database file.
+ */
+export function openSqliteStore(path: string): Promise<ReportStore> {
+  const db = new DatabaseSync(path);
+  db.exec("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;");
+  db.exec(SCHEMA);
+
+  const getData = <T>(sql: string, ...params: SQLInputValue[]): T | null => {
+    const row = db.prepare(sql).get(...params) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  };
+  const allData = <T>(sql: string, ...params: SQLInputValue[]): T[] =>
+    (db.prepare(sql).all(...params) as { data: string }[]).map((row) =>
+      JSON.parse(row.data)
+    );
+  const transaction = <T>(fn: () => T): T => {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  };
+
+  return Promise.resolve({
+    backend: "sqlite",
+
+    insertReport(report, cap) {
+      return Promise.resolve(transaction(() => {
+        const previous = getData<Issue>(
+          "SELECT data FROM issues WHERE fingerprint = ?",
+          report.fingerprint,
+        );
+        const result = applyOccurrence(previous, report, cap);
+        db.prepare(
+          `INSERT INTO issues (fingerprint, last_seen, data) VALUES (?, ?, ?)
+            ON CONFLICT (fingerprint)
+            DO UPDATE SET last_seen = excluded.last_seen, data = excluded.data`,
+        ).run(
+          report.fingerprint,
+          Date.parse(result.issue.lastSeen),
+          JSON.stringify(result.issue),
+        );
+        db.prepare(
+          `INSERT INTO issue_counts (fingerprint, day, count) VALUES (?, ?, 1)
+            ON CONFLICT (fingerprint, day) DO UPDATE SET count = count + 1`,
+        ).run(report.fingerprint, report.receivedAt.slice(0, 10));
+        if (result.stored) insertReportRow(db, report);
+        if (result.evicted) deleteReportRow(db, result.evicted);
+        return result;
+      }));
+    },
+
+    getReport(id) {
+      return Promise.resolve(
+        getData<StoredReport>("SELECT data FROM reports WHERE id = ?", id),
+      );
+    },
+
+    queryReports(filter, limit, cursor) {
+      const where: string[] = [];
+      const params: SQLInputValue[] = [];
+      if (filter.from !== undefined) {
+        where.push("received_at >= ?");
+        params.push(filter.from);
+      }
+      if (filter.to !== undefined) {
+        where.push("received_at < ?");
+        params.push(filter.to);
+      }
+      for (const field of INDEXED_FIELDS) {
+        if (filter[field] === undefined) continue;
+        where.push(`${COLUMNS[field]} = ?`);
+        params.push(filter[field]!);
+      }
+      for (const [key, value] of Object.entries(filter.tags ?? {})) {
+        where.push(
+          `EXISTS (SELECT 1 FROM report_tags
+            WHERE report_id = reports.id AND key = ? AND value = ?)`,
+        );
+        params.push(key, value);
+      }
+      if (cursor) {
+        const after = decodePageCursor(cursor);
+        if (!after) throw new Error(`Invalid cursor: ${cursor}`);
+        where.push("(received_at < ? OR (received_at = ? AND id < ?))");
+        params.push(after.time, after.time, after.id);
+      }
+
+      // One extra row tells whether there is a next page
+      const reports = allData<StoredReport>(
+        `SELECT data FROM reports
+          ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+          ORDER BY received_at DESC, id DESC LIMIT ?`,
+        ...params,
+        limit + 1,
+      );
+      const more = reports.length > limit;
+      reports.length = Math.min(reports.length, limit);
+      const last = reports.at(-1);
+      return Promise.resolve({
+        reports,
+        cursor: more && last
+          ? encodePageCursor(Date.parse(last.receivedAt), last.id)
+          : null,
+      });
+    },
+
+    deleteReport(id) {
+      return Promise.resolve(transaction(() => {
+        const report = getData<StoredReport>(
+          "SELECT data FROM reports WHERE id = ?",
+          id,
+        );
+        if (!report) return false;
+        deleteReportRow(db, id);
+        const issue = report.fingerprint
+          ? getData<Issue>(
+            "SELECT data FROM issues WHERE fingerprint = ?",
+            report.fingerprint,
+          )
+          : null;
+        if (issue) {
+          db.prepare("UPDATE issues SET data = ? WHERE fingerprint = ?")
+            .run(JSON.stringify(removeReport(issue, id)), issue.fingerprint);
+        }
+        return true;
+      }));
+    },
+
+    listOldestReports(before, limit) {
+      return Promise.resolve(
+        allData<StoredReport>(
+          `SELECT data FROM reports WHERE received_at < ?
+            ORDER BY received_at, id LIMIT ?`,
+          before,
+          limit,
+        ),
+      );
+    },
+
+    getUsage() {
+      const row = db.prepare(
+        `SELECT COUNT(*) AS reports,
+          COALESCE(SUM(LENGTH(CAST(data AS BLOB))), 0) AS bytes FROM reports`,
+      ).get() as { reports: number; bytes: number };
+      return Promise.resolve({ reports: row.reports, bytes: row.bytes });
+    },
+
+    getIssue(fingerprint) {
+      return Promise.resolve(
+        getData<Issue>(
+          "SELECT data FROM issues WHERE fingerprint = ?",
+          fingerprint,
+        ),
+      );
+    },
+
+    updateIssue(fingerprint, update) {
+      return Promise.resolve(transaction(() => {
+        const previous = getData<Issue>(
+          "SELECT data FROM issues WHERE fingerprint = ?",
+          fingerprint,
+        );
+        if (!previous) return null;
+        const issue = update(previous);
+        db.prepare("UPDATE issues SET data = ? WHERE fingerprint = ?")
+          .run(JSON.stringify(issue), fingerprint);
+        return issue;
+      }));
+    },
+
+    listIssues(limit, cursor) {
+      let where = "";
+      const params: SQLInputValue[] = [];
+      if (cursor) {
+        const after = decodePageCursor(cursor);
+        if (!after) throw new Error(`Invalid cursor: ${cursor}`);
+        where = "WHERE last_seen < ? OR (last_seen = ? AND fingerprint < ?)";
+        params.push(after.time, after.time, after.id);
+      }
+      const issues = allData<Issue>(
+        `SELECT data FROM issues ${where}
+          ORDER BY last_seen DESC, fingerprint DESC LIMIT ?`,
+        ...params,
+        limit + 1,
+      );
+      const more = issues.length > limit;
+      issues.length = Math.min(issues.length, limit);
+      const last = issues.at(-1);
+      return Promise.resolve({
+        issues,
+        cursor: more && last
+          ? encodePageCursor(Date.parse(last.lastSeen), last.fingerprint)
+          : null,
+      });
+    },
+
+    countOccurrences(fingerprint, fromDay) {
+      const rows = db.prepare(
+        "SELECT day, count FROM issue_counts WHERE fingerprint = ? AND day >= ?",
+      ).all(fingerprint, fromDay) as { day: string; count: number }[];
+      return Promise.resolve(
+        Object.fromEntries(rows.map((row) => [row.day, row.count])),
+      );
+    },
+
+    insertCredential(kind, credential) {
+      db.prepare(
+        "INSERT INTO credentials (kind, id, hash, data) VALUES (?, ?, ?, ?)",
+      ).run(kind, credential.id, credential.hash, JSON.stringify(credential));
+      return Promise.resolve();
+    },
+
+    findCredential(kind, hash) {
+      return Promise.resolve(
+        getData<StoredCredential>(
+          "SELECT data FROM credentials WHERE kind = ? AND hash = ? AND revoked = 0",
+          kind,
+          hash,
+        ),
+      );
+    },
+
+    revokeCredential(kind, id, revokedAt) {
+      return Promise.resolve(transaction(() => {
+        const credential = getData<StoredCredential>(
+          "SELECT data FROM credentials WHERE kind = ? AND id = ? AND revoked = 0",
+          kind,
+          id,
+        );
+        if (!credential) return false;
+        db.prepare(
+          "UPDATE credentials SET revoked = 1, data = ? WHERE kind = ? AND id = ?",
+        ).run(JSON.stringify({ ...credential, revokedAt }), kind, id);
+        return true;
+      }));
+    },
+
+    listCredentials(kind) {
+      return Promise.resolve(
+        allData<StoredCredential>(
+          "SELECT data FROM credentials WHERE kind = ? ORDER BY id",
+          kind,
+        ),
+      );
+    },
+
+    hasCredentials(kind) {
+      return Promise.resolve(
+        db.prepare("SELECT 1 FROM credentials WHERE kind = ? LIMIT 1")
+          .get(kind) !== undefined,
+      );
+    },
+
+    insertSourceMap(record, content) {
+      db.prepare(
+        `INSERT OR REPLACE INTO sourcemaps
+          (project, release, file_name, data, content) VALUES (?, ?, ?, ?, ?)`,
+      ).run(
+        record.project,
+        record.release,
+        record.fileName,
+        JSON.stringify(record),
+        content,
+      );
+      return Promise.resolve();
+    },
+
+    getSourceMap(project, release, fileName) {
+      return Promise.resolve(
+        getData<SourceMapRecord>(
+          "SELECT data FROM sourcemaps WHERE project = ? AND release = ? AND file_name = ?",
+          project,
+          release,
+          fileName,
+        ),
+      );
+    },
+
+    readSourceMap(record) {
+      const row = db.prepare(
+        `SELECT content FROM sourcemaps
+          WHERE project = ? AND release = ? AND file_name = ?
+          AND json_extract(data, '$.id') = ?`,
+      ).get(record.project, record.release, record.fileName, record.id) as
+        | { content: Uint8Array }
+        | undefined;
+      return Promise.resolve(row ? row.content : null);
+    },
+
+    listSourceMaps(release) {
+      return Promise.resolve(
+        release === undefined
+          ? allData<SourceMapRecord>(
+            "SELECT data FROM sourcemaps ORDER BY project, release, file_name",
+          )
+          : allData<SourceMapRecord>(
+            "SELECT data FROM sourcemaps WHERE release = ? ORDER BY project, file_name",
+            release,
+          ),
+      );
+    },
+
+    close() {
+      db.close();
+      return Promise.resolve();
+    },
+  });
+}
+
+/** Deletes a report row and its tags. */
+function deleteReportRow(db: DatabaseSync, id: string) {
+  db.prepare("DELETE FROM report_tags WHERE report_id = ?").run(id);
+  db.prepare("DELETE FROM reports WHERE id = ?").run(id);
+}
+
+/** Inserts a report row and its tags. */
+function insertReportRow(db: DatabaseSync, report: StoredReport) {
+  const values = indexedValues(report);
+  db.prepare(
+    `INSERT INTO reports (id, received_at, ${
+      INDEXED_FIELDS.map((field) => COLUMNS[field]).join(", ")
+    }, data) VALUES (?, ?, ${INDEXED_FIELDS.map(() => "?").join(", ")}, ?)`,
+  ).run(
+    report.id,
+    Date.parse(report.receivedAt),
+    ...INDEXED_FIELDS.map((field) => values[field] ?? null),
+    JSON.stringify(report),
+  );
+  const insertTag = db.prepare(
+    "INSERT INTO report_tags (report_id, key, value) VALUES (?, ?, ?)",
+  );
+  for (const [key, value] of Object.entries(report.payload.tags ?? {})) {
+    insertTag.run(report.id, key, value);
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Storage of the collector: the `ReportStore` interface and the backends
+ * implementing it.
+ *
+ * | Backend  | Module              | `CRASH_REPORT_STORAGE_PATH` (default)             |
+ * | -------- | ------------------- | ------------------------------------------------- |
+ * | `kv`     | `./kv_store.ts`     | Deno KV database file (Deno's default location)   |
+ * | `sqlite` | `./sqlite_store.ts` | SQLite database file (`crash_reports.db`)         |
+ * | `jsonl`  | `./jsonl_store.ts`  | Directory of JSONL files (`crash_reports`)        |
+ *
+ * The backend is chosen with `CRASH_REPORT_STORAGE` (see `./config.ts`). The
+ * collector opens one store at startup and shares it between all requests.
+ *
+ * Every backend stores the same records: reports, issues with their per-day
+ * occurrence counts, credentials and source maps. Inserting or deleting a
+ * report updates its issue and the storage usage in the same transaction, so
+ * the counters always agree with what was stored.
+ */
+
+import type { CredentialKind, StoredCredential } from "./auth.ts";
+import type { CollectorConfig } from "./config.ts";
+import type {
+  Issue,
+  IssuePage,
+  OccurrenceResult,
+  StorageCap,
+} from "./issues.ts";
+import { openJsonlStore } from "./jsonl_store.ts";
+import { openKvStore } from "./kv_store.ts";
+import type { ReportFilter, ReportPage, StoredReport } from "./reports.ts";
+import type { SourceMapRecord } from "./source_maps.ts";
+import { openSqliteStore } from "./sqlite_store.ts";
+
+/** Names of the storage backends. */
+export type StorageBackend = "kv" | "sqlite" | "jsonl";
+
+/** Options of the backends, see `openReportStore`. */
+export interface ReportStoreOptions {
+  /**
+   * How long reports are kept, `0` for no limit. The `kv` backend lets KV
+   * expire them a day after this as a fallback; the sweeper (see
+   * `./retention.ts`) deletes them on time, on every backend.
+   */
+  retentionMs?: number;
+}
+
+/** Space taken by the stored reports. */
+export interface StorageUsage {
+  /** Number of stored reports. */
+  reports: number;
+  /** Size of the stored reports, as JSON, in bytes. */
+  bytes: number;
+}
+
+/** Everything the collector persists. */
+export interface ReportStore {
+  /** The backend, for log messages. */
+  readonly backend: StorageBackend;
+
+  // --- Reports and issues ---
+
+  /**
+   * Records a new report as an occurrence of its issue, creating the issue on
+   * first sight, and stores the report unless the issue reached its storage
+   * cap for the current window (see `applyOccurrence`).
+   * @param report The new report, with its fingerprint.
+   * @param cap The per-issue storage cap.
+   * @returns The updated issue and whether the report was stored.
+   */
+  insertReport(
+    report: StoredReport & { fingerprint: string },
+    cap: StorageCap,
+  ): Promise<OccurrenceResult>;
+  /** Fetches a single report, or `null` if it does not exist. */
+  getReport(id: string): Promise<StoredReport | null>;
+  /**
+   * Lists reports, newest first, matching all given filters.
+   * @param filter The filters to apply.
+   * @param limit Maximum number of reports to return.
+   * @param cursor A cursor returned by a previous call, to fetch the next page.
+   */
+  queryReports(
+    filter: ReportFilter,
+    limit: number,
+    cursor?: string,
+  ): Promise<ReportPage>;
+  /**
+   * Deletes a report. Its issue keeps counting the occurrence, but no longer
+   * counts it as stored (see `removeReport`).
+   * @returns `false` if the report does not exist.
+   */
+  deleteReport(id: string): Promise<boolean>;
+  /**
+   * Lists the oldest reports, oldest first.
+   * @param before Only reports received before this time (ms since epoch).
+   * @param limit Maximum number of reports to return.
+   */
+  listOldestReports(before: number, limit: number): Promise<StoredReport[]>;
+  /** Returns the number and size of the stored reports. */
+  getUsage(): Promise<StorageUsage>;
+  /**
+   * Rewrites the storage without the records of deleted reports, to free
+   * their disk space. Only backends whose storage does not shrink by itself
+   * (`jsonl`) implement it; the sweeper calls it after each sweep. Does
+   * nothing if no report was deleted since the last compaction.
+   */
+  compact?(): Promise<void>;
+  /** Fetches a single issue, or `null` if it does not exist. */
+  getIssue(fingerprint: string): Promise<Issue | null>;
+  /**
+   * Changes an issue, atomically with concurrent occurrences.
+   * @param fingerprint The issue fingerprint.
+   * @param update Computes the new state from the current one. It may be
+   *   called again on a conflict, and must not change the fingerprint or the
+   *   first/last-seen timestamps.
+   * @returns The updated issue, or `null` if it does not exist.
+   */
+  updateIssue(
+    fingerprint: string,
+    update: (issue: Issue) => Issue,
+  ): Promise<Issue | null>;
+  /**
+   * Lists issues, most recently seen first.
+   * @param limit Maximum number of issues to return.
+   * @param cursor A cursor returned by a previous call, to fetch the next page.
+   */
+  listIssues(limit: number, cursor?: string): Promise<IssuePage>;
+  /**
+   * Aggregates the occurrences of an issue per (UTC) day.
+   * @param fingerprint The issue fingerprint.
+   * @param fromDay First day to include, as `YYYY-MM-DD`.
+   * @returns The counts keyed by day; days without occurrences are left out.
+   */
+  countOccurrences(
+    fingerprint: string,
+    fromDay: string,
+  ): Promise<Record<string, number>>;
+
+  // --- Credentials ---
+
+  /** Stores a new credential. */
+  insertCredential(
+    kind: CredentialKind,
+    credential: StoredCredential,
+  ): Promise<void>;
+  /** Finds the active credential with this secret hash. */
+  findCredential(
+    kind: CredentialKind,
+    hash: string,
+  ): Promise<StoredCredential | null>;
+  /**
+   * Marks a credential revoked, so `findCredential` no longer returns it.
+   * @returns `false` if no active credential with this id exists.
+   */
+  revokeCredential(
+    kind: CredentialKind,
+    id: string,
+    revokedAt: string,
+  ): Promise<boolean>;
+  /** Lists all credentials of a kind, including revoked ones. */
+  listCredentials(kind: CredentialKind): Promise<StoredCredential[]>;
+  /** Whether a credential of this kind was ever created (revoked ones included). */
+  hasCredentials(kind: CredentialKind): Promise<boolean>;
+
+  // --- Source maps ---
+
+  /**
+   * Stores a source map, replacing the one previously stored for the same
+   * project, release and file name.
+   */
+  insertSourceMap(record: SourceMapRecord, content: Uint8Array): Promise<void>;
+  /** Fetches the record of a source map, or `null` if none was uploaded. */
+  getSourceMap(
+    project: string,
+    release: string,
+    fileName: string,
+  ): Promise<SourceMapRecord | null>;
+  /** Reads the content of a source map, or `null` if it is gone. */
+  readSourceMap(record: SourceMapRecord): Promise<Uint8Array | null>;
+  /** Lists the uploaded source maps, optionally of one release only. */
+  listSourceMaps(release?: string): Promise<SourceMapRecord[]>;
+
+  /** Closes the connection. The store cannot be used afterwards. */
+  close(): Promise<void>;
+}
+
+/**
+ * Opens the store configured with `CRASH_REPORT_STORAGE` and
+ * `CRASH_REPORT_STORAGE_PATH`.
+ * @param config The collector configuration.
+ * @param options Options of the backends.
+ */
+export function openReportStore(
+  config: Pick<CollectorConfig, "storage" | "storagePath">,
+  options: ReportStoreOptions = {},
+): Promise<ReportStore> {
+  switch (config.storage) {
+    case "kv":
+      return openKvStore(config.storagePath, options);
+    case "sqlite":
+      return openSqliteStore(config.storagePath ?? "crash_reports.db");
+    case "jsonl":
+      return openJsonlStore(config.storagePath ?? "crash_reports");
+  }
+}
+
+// --- Helpers for backends ---
+
+/** Size of a report as counted by `StorageUsage.bytes`. */
+export function reportSize(report: StoredReport): number {
+  return new TextEncoder().encode(JSON.stringify(report)).byteLength;
+}
+
+/**
+ * Builds the cursor of a newest-first page from the sort key of its last
+ * item. Used by the backends without native cursors.
+ * @param time The sort time of the last item (ms since epoch).
+ * @param id The id of the last item, breaking ties.
+ */
+export function encodePageCursor(time: number, id: string): string {
+  return `${time}:${id}`;
+}
+
+/**
+ * Parses a cursor built by `encodePageCursor`.
+ * @returns The sort key, or `null` if the cursor is malformed.
+ */
+export function decodePageCursor(
+  cursor: string,
+): { time: number; id: string } | null {
+  const separator = cursor.indexOf(":");
+  const time = Number(cursor.slice(0, separator));
+  if (separator < 1 || !Number.isSafeInteger(time)) return null;
+  return { time, id: cursor.slice(separator + 1) };
+}
@@ -0,0 +1,412 @@
+import assert from "node:assert/strict";
+import type { StoredCredential } from "./auth.ts";
+import type { StorageCap } from "./issues.ts";
+import { openJsonlStore } from "./jsonl_store.ts";
+import { openKvStore } from "./kv_store.ts";
+import type { ReportFilter, StoredReport } from "./reports.ts";
+import type { SourceMapRecord } from "./source_maps.ts";
+import { openSqliteStore } from "./sqlite_store.ts";
+import type { ReportStore } from "./store.ts";
+
+const BACKENDS: Record<string, (dir: string) => Promise<ReportStore>> = {
+  kv: (dir) => openKvStore(`${dir}/kv.db`),
+  sqlite: (dir) => openSqliteStore(`${dir}/reports.db`),
+  jsonl: (dir) => openJsonlStore(`${dir}/jsonl`),
+};
+
+const NO_CAP: StorageCap = { maxPerWindow: 0, windowMs: 60_000 };
+const BASE_TIME = Date.parse("2026-03-01T12:00:00.000Z");
+
+/**
+ * Runs a case against every backend, each with a fresh store in a temporary
+ * directory: the backends must behave the same.
+ */
+function conformance(
+  name: string,
+  fn: (store: ReportStore, reopen: () => Promise<ReportStore>) => Promise<void>,
+) {
+  for (const [backend, open] of Object.entries(BACKENDS)) {
+    Deno.test(`${backend}: ${name}`, async () => {
+      const dir = await Deno.makeTempDir({ prefix: "crash-report-store-" });
+      let store = await open(dir);
+      try {
+        await fn(store, async () => {
+          await store.close();
+          store = await open(dir);
+          return store;
+        });
+      } finally {
+        await store.close();
+        await Deno.remove(dir, { recursive: true });
+      }
+    });
+  }
+}
+
+interface ReportFields {
+  /** Minutes after `BASE_TIME`. */
+  minute?: number;
+  fingerprint?: string;
+  project?: string;
+  type?: string;
+  os?: string;
+  appVersion?: string;
+  errorName?: string;
+  tags?: Record<string, string>;
+}
+
+function makeReport(
+  id: string,
+  fields: ReportFields = {},
+): StoredReport & { fingerprint: string } {
+  const type = fields.type ?? "error";
+  // Stores hand back what JSON keeps, so the report has no undefined fields
+  return JSON.parse(JSON.stringify({
+    id,
+    receivedAt: new Date(BASE_TIME + (fields.minute ?? 0) * 60_000)
+      .toISOString(),
+    fingerprint: fields.fingerprint ?? "fp-a",
+    project: fields.project,
+    payload: {
+      schemaVersion: 1,
+      timestamp: new Date(BASE_TIME).toISOString(),
+      report: type === "message" ? { type, message: `Report ${id}` } : {
+        type: "error",
+        message: `Report ${id}`,
+        error: {
+          name: fields.errorName ?? "TypeError",
+          message: `Report ${id}`,
+          stack: `${fields.errorName ?? "TypeError"}: Report ${id}\n` +
+            "    at main (file:///app/main.ts:1:1)",
+        },
+      },
+      reporterInfo: {
+        os: fields.os ?? "linux",
+        arch: "x86_64",
+        denoVersion: "2.0.0",
+        appVersion: fields.appVersion,
+      },
+      tags: fields.tags,
+    },
+  }));
+}
+
+async function queryIds(
+  store: ReportStore,
+  filter: ReportFilter,
+  limit = 100,
+  cursor?: string,
+): Promise<string[]> {
+  const page = await store.queryReports(filter, limit, cursor);
+  return page.reports.map((report) => report.id);
+}
+
+conformance("inserts and fetches reports", async (store, reopen) => {
+  const report = makeReport("r1", { project: "web", appVersion: "1.0.0" });
+  const result = await store.insertReport(report, NO_CAP);
+
+  assert.equal(result.stored, true);
+  assert.equal(result.isNew, true);
+  assert.deepEqual(await store.getReport("r1"), report);
+  assert.equal(await store.getReport("missing"), null);
+
+  // Survives reopening the store
+  store = await reopen();
+  assert.deepEqual(await store.getReport("r1"), report);
+});
+
+conformance("pages through reports, newest first", async (store) => {
+  for (let i = 1; i <= 5; i++) {
+    await store.insertReport(makeReport(`r${i}`, { minute: i }), NO_CAP);
+  }
+
+  const first = await store.queryReports({}, 2);
+  assert.deepEqual(first.reports.map((r) => r.id), ["r5", "r4"]);
+  assert.ok(first.cursor);
+  const second = await store.queryReports({}, 2, first.cursor);
+  assert.deepEqual(second.reports.map((r) => r.id), ["r3", "r2"]);
+  assert.ok(second.cursor);
+  const last = await store.queryReports({}, 2, second.cursor);
+  assert.deepEqual(last.reports.map((r) => r.id), ["r1"]);
+  assert.equal(last.cursor, null);
+  // A full last page has no cursor either
+  const all = await store.queryReports({}, 5);
+  assert.equal(all.reports.length, 5);
+  assert.equal(all.cursor, null);
+});
+
+conformance("filters reports", async (store) => {
+  const reports = [
+    makeReport("a", {
+      minute: 1,
+      fingerprint: "fp-a",
+      project: "web",
+      os: "linux",
+      appVersion: "1.0.0",
+      errorName: "TypeError",
+      tags: { region: "eu", tier: "free" },
+    }),
+    makeReport("b", {
+      minute: 2,
+      fingerprint: "fp-b",
+      project: "api",
+      os: "darwin",
+      appVersion: "2.0.0",
+      errorName: "RangeError",
+      tags: { region: "us" },
+    }),
+    makeReport("c", {
+      minute: 3,
+      fingerprint: "fp-c",
+      type: "message",
+      os: "linux",
+      appVersion: "1.0.0",
+      tags: { region: "eu" },
+    }),
+  ];
+  for (const report of reports) await store.insertReport(report, NO_CAP);
+
+  assert.deepEqual(await queryIds(store, { fingerprint: "fp-b" }), ["b"]);
+  assert.deepEqual(await queryIds(store, { project: "web" }), ["a"]);
+  assert.deepEqual(await queryIds(store, { errorName: "RangeError" }), ["b"]);
+  assert.deepEqual(await queryIds(store, { appVersion: "1.0.0" }), ["c", "a"]);
+  assert.deepEqual(await queryIds(store, { os: "linux" }), ["c", "a"]);
+  assert.deepEqual(await queryIds(store, { type: "message" }), ["c"]);
+  assert.deepEqual(await queryIds(store, { tags: { region: "eu" } }), [
+    "c",
+    "a",
+  ]);
+  assert.deepEqual(
+    await queryIds(store, { tags: { region: "eu", tier: "free" } }),
+    ["a"],
+  );
+  assert.deepEqual(
+    await queryIds(store, {
+      from: BASE_TIME + 2 * 60_000,
+      to: BASE_TIME + 3 * 60_000,
+    }),
+    ["b"],
+  );
+  // Filters combine
+  assert.deepEqual(await queryIds(store, { os: "linux", type: "error" }), [
+    "a",
+  ]);
+  assert.deepEqual(await queryIds(store, { project: "nope" }), []);
+
+  // Cursors work with filters
+  const page = await store.queryReports({ os: "linux" }, 1);
+  assert.deepEqual(
+    await queryIds(store, { os: "linux" }, 1, page.cursor!),
+    ["a"],
+  );
+});
+
+conformance("deletes reports", async (store) => {
+  const report = makeReport("r1");
+  await store.insertReport(report, NO_CAP);
+  await store.insertReport(makeReport("r2", { minute: 1 }), NO_CAP);
+  const before = await store.getUsage();
+
+  assert.equal(await store.deleteReport("r1"), true);
+  assert.equal(await store.deleteReport("r1"), false);
+  assert.equal(await store.getReport("r1"), null);
+  assert.deepEqual(await queryIds(store, {}), ["r2"]);
+  assert.deepEqual(await queryIds(store, { fingerprint: "fp-a" }), ["r2"]);
+
+  const after = await store.getUsage();
+  assert.equal(after.reports, before.reports - 1);
+  assert.ok(after.bytes < before.bytes);
+  // The issue keeps the occurrence, but no longer counts the report as stored
+  const issue = await store.getIssue("fp-a");
+  assert.equal(issue?.count, 2);
+  assert.equal(issue?.storedCount, 1);
+});
+
+conformance("lists the oldest reports", async (store) => {
+  for (let i = 1; i <= 3; i++) {
+    await store.insertReport(makeReport(`r${i}`, { minute: i }), NO_CAP);
+  }
+  const oldest = await store.listOldestReports(BASE_TIME + 3 * 60_000, 10);
+  assert.deepEqual(oldest.map((r) => r.id), ["r1", "r2"]);
+  const first = await store.listOldestReports(Date.now(), 1);
+  assert.deepEqual(first.map((r) => r.id), ["r1"]);
+});
+
+conformance("aggregates reports into issues", async (store) => {
+  const cap: StorageCap = { maxPerWindow: 2, windowMs: 60 * 60_000 };
+  const results = [];
+  for (let i = 0; i < 3; i++) {
+    results.push(
+      await store.insertReport(
+        makeReport(`r${i}`, { minute: i, appVersion: `1.${i % 2}.0` }),
+        cap,
+      ),
+    );
+  }
+  await store.insertReport(
+    makeReport("other", { minute: 5, fingerprint: "fp-b" }),
+    cap,
+  );
+
+  assert.deepEqual(results.map((r) => [r.isNew, r.stored]), [
+    [true, true],
+    [false, true],
+    [false, false],
+  ]);
+  const issue = await store.getIssue("fp-a");
+  assert.ok(issue);
+  assert.equal(issue.count, 3);
+  assert.equal(issue.droppedCount, 1);
+  assert.equal(issue.storedCount, 2);
+  assert.equal(issue.lastReportId, "r1");
+  assert.equal(issue.errorName, "TypeError");
+  assert.equal(issue.firstSeen, new Date(BASE_TIME).toISOString());
+  assert.equal(issue.lastSeen, new Date(BASE_TIME + 2 * 60_000).toISOString());
+  assert.deepEqual(issue.versions, ["1.0.0", "1.1.0"]);
+  assert.deepEqual(await queryIds(store, { fingerprint: "fp-a" }), [
+    "r1",
+    "r0",
+  ]);
+
+  assert.deepEqual(await store.countOccurrences("fp-a", "2026-03-01"), {
+    "2026-03-01": 3,
+  });
+  assert.deepEqual(await store.countOccurrences("fp-a", "2026-03-02"), {});
+
+  const page = await store.listIssues(1);
+  assert.deepEqual(page.issues.map((i) => i.fingerprint), ["fp-b"]);
+  const next = await store.listIssues(1, page.cursor!);
+  assert.deepEqual(next.issues.map((i) => i.fingerprint), ["fp-a"]);
+  assert.equal(next.cursor, null);
+
+  const updated = await store.updateIssue("fp-a", (current) => ({
+    ...current,
+    status: "ignored",
+  }));
+  assert.equal(updated?.status, "ignored");
+  assert.equal((await store.getIssue("fp-a"))?.status, "ignored");
+  assert.equal(await store.updateIssue("missing", (current) => current), null);
+});
+
+conformance("stores and revokes credentials", async (store, reopen) => {
+  const key: StoredCredential = {
+    id: "k1",
+    project: "web",
+    createdAt: new Date(BASE_TIME).toISOString(),
+    hash: "hash-1",
+  };
+  assert.equal(await store.hasCredentials("ingest_keys"), false);
+  await store.insertCredential("ingest_keys", key);
+
+  assert.equal(await store.hasCredentials("ingest_keys"), true);
+  assert.equal(await store.hasCredentials("admin_tokens"), false);
+  assert.deepEqual(await store.findCredential("ingest_keys", "hash-1"), key);
+  assert.equal(await store.findCredential("admin_tokens", "hash-1"), null);
+  assert.equal(await store.findCredential("ingest_keys", "other"), null);
+
+  const revokedAt = new Date(BASE_TIME + 60_000).toISOString();
+  assert.equal(
+    await store.revokeCredential("ingest_keys", "k1", revokedAt),
+    true,
+  );
+  assert.equal(
+    await store.revokeCredential("ingest_keys", "k1", revokedAt),
+    false,
+  );
+  assert.equal(await store.findCredential("ingest_keys", "hash-1"), null);
+
+  store = await reopen();
+  assert.deepEqual(await store.listCredentials("ingest_keys"), [
+    { ...key, revokedAt },
+  ]);
+  // Revoking every credential does not switch enforcement off
+  assert.equal(await store.hasCredentials("ingest_keys"), true);
+});
+
+conformance("stores source maps", async (store, reopen) => {
+  const record = (project: string, release: string): SourceMapRecord => ({
+    id: `${project}-${release}`,
+    project,
+    release,
+    file: "dist/app.js",
+    fileName: "app.js",
+    size: 3,
+    chunks: 1,
+    uploadedAt: new Date(BASE_TIME).toISOString(),
+  });
+  await store.insertSourceMap(record("", "1.0.0"), new Uint8Array([1, 2, 3]));
+  await store.insertSourceMap(
+    record("web", "1.0.0"),
+    new Uint8Array([4, 5, 6]),
+  );
+  await store.insertSourceMap(record("", "2.0.0"), new Uint8Array([7, 8, 9]));
+  // Replaces the map of the same project, release and file
+  const replacement = { ...record("", "2.0.0"), id: "replaced" };
+  await store.insertSourceMap(replacement, new Uint8Array([0, 0, 0]));
+
+  store = await reopen();
+  const web = await store.getSourceMap("web", "1.0.0", "app.js");
+  assert.deepEqual(web, record("web", "1.0.0"));
+  assert.deepEqual(await store.readSourceMap(web!), new Uint8Array([4, 5, 6]));
+  assert.deepEqual(
+    await store.getSourceMap("", "2.0.0", "app.js"),
+    replacement,
+  );
+  assert.deepEqual(
+    await store.readSourceMap(replacement),
+    new Uint8Array([0, 0, 0]),
+  );
+  assert.equal(await store.getSourceMap("", "3.0.0", "app.js"), null);
+
+  const ids = (records: SourceMapRecord[]) => records.map((r) => r.id).sort();
+  assert.deepEqual(ids(await store.listSourceMaps()), [
+    "-1.0.0",
+    "replaced",
+    "web-1.0.0",
+  ]);
+  assert.deepEqual(ids(await store.listSourceMaps("1.0.0")), [
+    "-1.0.0",
+    "web-1.0.0",
+  ]);
+});
+
+Deno.test("jsonl: compaction keeps the live state only", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "crash-report-store-" });
+  let store = await openJsonlStore(dir);
+  try {
+    for (let i = 0; i < 3; i++) {
+      await store.insertReport(makeReport(`r${i}`, { minute: i }), NO_CAP);
+    }
+    await store.insertReport(
+      makeReport("next-day", { minute: 24 * 60 }),
+      NO_CAP,
+    );
+    await store.deleteReport("r0");
+    await store.deleteReport("r1");
+    const issue = await store.getIssue("fp-a");
+    const usage = await store.getUsage();
+    const logSize = async () => (await Deno.stat(`${dir}/reports.jsonl`)).size;
+    const before = await logSize();
+
+    await store.compact!();
+    assert.ok(await logSize() < before);
+    // Still appends to the compacted log
+    await store.insertReport(
+      makeReport("after", { minute: 24 * 60 + 1, fingerprint: "fp-b" }),
+      NO_CAP,
+    );
+
+    await store.close();
+    store = await openJsonlStore(dir);
+    assert.deepEqual(await queryIds(store, {}), ["after", "next-day", "r2"]);
+    assert.deepEqual(await store.getIssue("fp-a"), issue);
+    assert.deepEqual(await store.countOccurrences("fp-a", "2026-03-01"), {
+      "2026-03-01": 3,
+      "2026-03-02": 1,
+    });
+    assert.equal((await store.getUsage()).reports, usage.reports + 1);
+  } finally {
+    await store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
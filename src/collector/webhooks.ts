@@ -0,0 +1,331 @@
+/**
+ * Outgoing webhooks of the collector, delivering alerts (see `./alerts.ts`).
+ *
+ * Webhooks are configured with `CRASH_REPORT_WEBHOOKS` (see `./config.ts`), a
+ * JSON array of `Webhook` objects. Each gets the alerts of the kinds it
+ * lists, as a POST request whose body depends on its format:
+ *
+ * - `json`: `{ "event": "new", "issue": {...}, "reportId": "...", ... }`,
+ *   with the issue's status and assignee.
+ * - `slack`: A Slack incoming webhook message (`{ "text": "..." }`).
+ * - `discord`: A Discord webhook message with an embed.
+ *
+ * Requests carry `X-Crash-Report-Event`, a `X-Crash-Report-Delivery` id that
+ * stays the same across retries, and, for webhooks with a `secret`, an HMAC
+ * signature:
+ *
+ *     X-Crash-Report-Timestamp: <seconds since epoch>
+ *     X-Crash-Report-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * Receivers should recompute the signature and reject old timestamps.
+ *
+ * Failed deliveries (network errors, timeouts, `429` and `5xx`) are retried
+ * with exponential backoff, honoring `Retry-After`, up to the configured
+ * number of attempts. Deliveries run in the background and are not kept
+ * across restarts.
+ */
+
+import type { AlertEvent, AlertEventType } from "./alerts.ts";
+import { getIssueStatus } from "./issues.ts";
+
+/** Body formats of webhooks. */
+export type WebhookFormat = "json" | "slack" | "discord";
+
+/** All body formats, e.g. to validate configured webhooks. */
+export const WEBHOOK_FORMATS: readonly WebhookFormat[] = [
+  "json",
+  "slack",
+  "discord",
+];
+
+/** A configured webhook. */
+export interface Webhook {
+  /** The URL alerts are POSTed to. */
+  url: string;
+  /** The body format. */
+  format: WebhookFormat;
+  /** The kinds of alerts to send; `test` alerts are always sent. */
+  events: AlertEventType[];
+  /** Secret for the HMAC signature; requests are unsigned without one. */
+  secret?: string;
+}
+
+/** Options of the delivery, see `deliverWebhook`. */
+export interface WebhookDeliveryOptions {
+  /** Attempts per delivery, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled after each failure. Defaults to 1 second. */
+  initialBackoffMs?: number;
+  /** Upper bound for the retry delay. Defaults to 5 minutes. */
+  maxBackoffMs?: number;
+  /** Timeout of a single request. Defaults to 10 seconds. */
+  timeoutMs?: number;
+  /** Public base URL of the collector, for links to the dashboard. */
+  publicUrl?: string;
+}
+
+/** Sends alerts to webhooks in the background, see `createWebhookDispatcher`. */
+export interface WebhookDispatcher {
+  /** Starts delivering an alert to every webhook subscribed to its kind. */
+  dispatch(event: AlertEvent): void;
+  /** Resolves once every started delivery succeeded or gave up. */
+  drain(): Promise<void>;
+}
+
+/** Colors of Discord embeds per alert kind. */
+const DISCORD_COLORS: Record<AlertEventType, number> = {
+  new: 0xe67e22,
+  regressed: 0xc0392b,
+  spike: 0x8e44ad,
+  test: 0x7f8c8d,
+};
+
+/**
+ * Creates a dispatcher delivering alerts to the given webhooks.
+ * @param webhooks The configured webhooks.
+ * @param options Options of the delivery.
+ */
+export function createWebhookDispatcher(
+  webhooks: Webhook[],
+  options: WebhookDeliveryOptions,
+): WebhookDispatcher {
+  const pending = new Set<Promise<boolean>>();
+  return {
+    dispatch(event) {
+      for (const webhook of webhooks) {
+        if (event.type !== "test" && !webhook.events.includes(event.type)) {
+          continue;
+        }
+        const delivery = deliverWebhook(webhook, event, options);
+        pending.add(delivery);
+        delivery.finally(() => pending.delete(delivery));
+      }
+    },
+    async drain() {
+      await Promise.all(pending);
+    },
+  };
+}
+
+/**
+ * Delivers an alert to a webhook, retrying failed attempts. Never throws.
+ * @param webhook The webhook.
+ * @param event The alert.
+ * @param options Options of the delivery.
+ * @returns Whether the webhook accepted the alert.
+ */
+export async function deliverWebhook(
+  webhook: Webhook,
+  event: AlertEvent,
+  options: WebhookDeliveryOptions,
+): Promise<boolean> {
+  const initialBackoffMs = options.initialBackoffMs ?? 1000;
+  const maxBackoffMs = options.maxBackoffMs ?? 5 * 60 * 1000;
+  const body = JSON.stringify(
+    formatWebhookBody(webhook.format, event, options.publicUrl),
+  );
+  const deliveryId = crypto.randomUUID();
+  const target = `${event.type} alert for ${event.issue.fingerprint} to ${
+    redactUrl(webhook.url)
+  }`;
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    let retryAfterMs: number | undefined;
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "X-Crash-Report-Event": event.type,
+        "X-Crash-Report-Delivery": deliveryId,
+      };
+      if (webhook.secret) {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        headers["X-Crash-Report-Timestamp"] = timestamp;
+        headers["X-Crash-Report-Signature"] = `sha256=${await signWebhookBody(
+          webhook.secret,
+          timestamp,
+          body,
+        )}`;
+      }
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+      });
+      await response.body?.cancel();
+      if (response.ok) {
+        console.log(`-> Delivered ${target}`);
+        return true;
+      }
+      // Client errors won't go away by retrying the same request
+      if (response.status < 500 && response.status !== 429) {
+        console.error(
+          `! Webhook rejected ${target}: HTTP ${response.status}`,
+        );
+        return false;
+      }
+      const retryAfter = Number(response.headers.get("retry-after"));
+      if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+      console.error(
+        `! Failed to deliver ${target} (attempt ${attempt}): HTTP ${response.status}`,
+      );
+    } catch (err) {
+      console.error(
+        `! Failed to deliver ${target} (attempt ${attempt}):`,
+        err,
+      );
+    }
+    if (attempt < options.maxAttempts) {
+      const delay = Math.min(
+        retryAfterMs ?? initialBackoffMs * 2 ** (attempt - 1),
+        maxBackoffMs,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  console.error(
+    `! Gave up delivering ${target} after ${options.maxAttempts} attempt(s)`,
+  );
+  return false;
+}
+
+/**
+ * Computes the signature of a webhook request.
+ * @param secret The webhook secret.
+ * @param timestamp The `X-Crash-Report-Timestamp` header.
+ * @param body The request body.
+ * @returns The hex HMAC-SHA256 of `"<timestamp>.<body>"`.
+ */
+export async function signWebhookBody(
+  secret: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Builds the body of a webhook request.
+ * @param format The body format.
+ * @param event The alert.
+ * @param publicUrl Public base URL of the collector, for links.
+ */
+export function formatWebhookBody(
+  format: WebhookFormat,
+  event: AlertEvent,
+  publicUrl?: string,
+): unknown {
+  const { issue } = event;
+  const url = publicUrl
+    ? `${publicUrl.replace(/\/+$/, "")}/issues/${
+      encodeURIComponent(issue.fingerprint)
+    }`
+    : undefined;
+  const heading = `${issue.errorName}: ${issue.title}`;
+  const summary = describeEvent(event);
+
+  switch (format) {
+    case "json":
+      return {
+        event: event.type,
+        timestamp: event.timestamp,
+        issue: {
+          fingerprint: issue.fingerprint,
+          errorName: issue.errorName,
+          title: issue.title,
+          culprit: issue.culprit,
+          count: issue.count,
+          firstSeen: issue.firstSeen,
+          lastSeen: issue.lastSeen,
+          versions: issue.versions,
+          status: getIssueStatus(issue),
+          assignee: issue.assignee,
+        },
+        reportId: event.reportId,
+        spike: event.spike,
+        url,
+      };
+    case "slack": {
+      const title = escapeSlack(truncate(heading, 200));
+      const lines = [
+        `*${summary}*: ${url ? `<${url}|${title}>` : title}`,
+        issue.culprit ? `\`${escapeSlack(issue.culprit)}\`` : undefined,
+        escapeSlack(describeIssue(event)),
+      ];
+      return { text: lines.filter((line) => line).join("\n") };
+    }
+    case "discord":
+      return {
+        content: summary,
+        embeds: [{
+          title: truncate(heading, 256),
+          url,
+          description: issue.culprit && truncate(issue.culprit, 1000),
+          color: DISCORD_COLORS[event.type],
+          footer: { text: truncate(describeIssue(event), 1000) },
+          timestamp: event.timestamp,
+        }],
+        // Error messages must not ping anyone
+        allowed_mentions: { parse: [] },
+      };
+  }
+}
+
+/** One-line description of what happened. */
+function describeEvent(event: AlertEvent): string {
+  switch (event.type) {
+    case "new":
+      return "New issue";
+    case "regressed":
+      return "Regressed issue";
+    case "spike": {
+      const minutes = Math.round((event.spike?.windowMs ?? 0) / 60_000);
+      return `Spiking issue (${event.spike?.count} events in ${minutes} min)`;
+    }
+    case "test":
+      return "Test alert";
+  }
+}
+
+/** One-line summary of the issue counters. */
+function describeIssue(event: AlertEvent): string {
+  const { issue } = event;
+  const versions = issue.versions.length
+    ? `, versions ${issue.versions.join(", ")}`
+    : "";
+  return `${issue.count} event(s) since ${issue.firstSeen}${versions}`;
+}
+
+/** Escapes the characters Slack treats as markup (links and mentions). */
+function escapeSlack(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Leaves out the path of a webhook URL from logs; it often is the secret. */
+function redactUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch (_) {
+    return "(invalid URL)";
+  }
+}
@@ -0,0 +1,238 @@
+import assert from "node:assert/strict";
+import type { AlertEvent } from "./alerts.ts";
+import {
+  createWebhookDispatcher,
+  deliverWebhook,
+  type Webhook,
+  type WebhookDeliveryOptions,
+} from "./webhooks.ts";
+
+interface ReceivedRequest {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Starts a webhook receiver on a free port, answering with the given
+ * statuses in turn (the last one repeats).
+ */
+function startReceiver(statuses: number[] = [200]) {
+  const requests: ReceivedRequest[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+    async (req) => {
+      requests.push({
+        path: new URL(req.url).pathname,
+        headers: req.headers,
+        body: await req.text(),
+      });
+      const status = statuses[Math.min(requests.length, statuses.length) - 1];
+      return new Response(null, { status });
+    },
+  );
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    [Symbol.asyncDispose]: () => server.shutdown(),
+  };
+}
+
+const OPTIONS: WebhookDeliveryOptions = {
+  maxAttempts: 3,
+  initialBackoffMs: 1,
+  publicUrl: "https://crash.example.com/",
+};
+
+const EVENT: AlertEvent = {
+  type: "new",
+  issue: {
+    fingerprint: "abc123",
+    type: "error",
+    errorName: "TypeError",
+    title: "x is <undefined>",
+    culprit: "main (src/main.ts)",
+    firstSeen: "2026-03-01T12:00:00.000Z",
+    lastSeen: "2026-03-01T12:05:00.000Z",
+    count: 2,
+    versions: ["1.0.0"],
+    lastReportId: "r2",
+    windowStart: "2026-03-01T12:00:00.000Z",
+    windowStored: 2,
+    droppedCount: 0,
+  },
+  reportId: "r2",
+  timestamp: "2026-03-01T12:05:00.000Z",
+};
+
+function webhook(url: string, fields: Partial<Webhook> = {}): Webhook {
+  return { url, format: "json", events: ["new"], ...fields };
+}
+
+/** Computes the signature as a receiver would, independently of the sender. */
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(message),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+Deno.test("signs requests of webhooks with a secret", async () => {
+  await using receiver = startReceiver();
+  const before = Math.floor(Date.now() / 1000);
+
+  assert.equal(
+    await deliverWebhook(
+      webhook(`${receiver.url}/signed`, { secret: "s3cret" }),
+      EVENT,
+      OPTIONS,
+    ),
+    true,
+  );
+  assert.equal(
+    await deliverWebhook(webhook(`${receiver.url}/unsigned`), EVENT, OPTIONS),
+    true,
+  );
+
+  const [signed, unsigned] = receiver.requests;
+  assert.equal(signed.headers.get("content-type"), "application/json");
+  assert.equal(signed.headers.get("x-crash-report-event"), "new");
+  assert.ok(signed.headers.get("x-crash-report-delivery"));
+  const timestamp = signed.headers.get("x-crash-report-timestamp")!;
+  assert.ok(Number(timestamp) >= before);
+  assert.ok(Number(timestamp) <= Date.now() / 1000);
+  assert.equal(
+    signed.headers.get("x-crash-report-signature"),
+    `sha256=${await hmacHex("s3cret", `${timestamp}.${signed.body}`)}`,
+  );
+  // A different secret gives a different signature
+  assert.notEqual(
+    signed.headers.get("x-crash-report-signature"),
+    `sha256=${await hmacHex("other", `${timestamp}.${signed.body}`)}`,
+  );
+
+  assert.equal(unsigned.headers.get("x-crash-report-signature"), null);
+  assert.equal(unsigned.headers.get("x-crash-report-timestamp"), null);
+});
+
+Deno.test("retries after 5xx and 429 responses", async () => {
+  await using receiver = startReceiver([503, 429, 204]);
+
+  assert.equal(
+    await deliverWebhook(webhook(receiver.url), EVENT, OPTIONS),
+    true,
+  );
+
+  assert.equal(receiver.requests.length, 3);
+  // Retries are the same delivery
+  const ids = receiver.requests.map((r) =>
+    r.headers.get("x-crash-report-delivery")
+  );
+  assert.equal(new Set(ids).size, 1);
+  assert.equal(new Set(receiver.requests.map((r) => r.body)).size, 1);
+});
+
+Deno.test("gives up after maxAttempts", async () => {
+  await using receiver = startReceiver([500]);
+
+  assert.equal(
+    await deliverWebhook(webhook(receiver.url), EVENT, OPTIONS),
+    false,
+  );
+  assert.equal(receiver.requests.length, OPTIONS.maxAttempts);
+});
+
+Deno.test("does not retry after 4xx responses", async () => {
+  await using receiver = startReceiver([400, 200]);
+
+  assert.equal(
+    await deliverWebhook(webhook(receiver.url), EVENT, OPTIONS),
+    false,
+  );
+  assert.equal(receiver.requests.length, 1);
+});
+
+Deno.test("sends each webhook its format, if subscribed", async () => {
+  await using receiver = startReceiver();
+  const dispatcher = createWebhookDispatcher([
+    webhook(`${receiver.url}/json`),
+    webhook(`${receiver.url}/slack`, { format: "slack" }),
+    webhook(`${receiver.url}/discord`, { format: "discord" }),
+    webhook(`${receiver.url}/regressions`, { events: ["regressed"] }),
+  ], OPTIONS);
+
+  dispatcher.dispatch(EVENT);
+  await dispatcher.drain();
+
+  const bodies = Object.fromEntries(
+    receiver.requests.map((r) => [r.path, JSON.parse(r.body)]),
+  );
+  assert.deepEqual(Object.keys(bodies).sort(), ["/discord", "/json", "/slack"]);
+  const url = "https://crash.example.com/issues/abc123";
+  assert.deepEqual(bodies["/json"], {
+    event: "new",
+    timestamp: EVENT.timestamp,
+    issue: {
+      fingerprint: "abc123",
+      errorName: "TypeError",
+      title: "x is <undefined>",
+      culprit: "main (src/main.ts)",
+      count: 2,
+      firstSeen: EVENT.issue.firstSeen,
+      lastSeen: EVENT.issue.lastSeen,
+      versions: ["1.0.0"],
+      status: "unresolved",
+    },
+    reportId: "r2",
+    url,
+  });
+  assert.deepEqual(bodies["/slack"], {
+    text: [
+      `*New issue*: <${url}|TypeError: x is &lt;undefined&gt;>`,
+      "`main (src/main.ts)`",
+      "2 event(s) since 2026-03-01T12:00:00.000Z, versions 1.0.0",
+    ].join("\n"),
+  });
+  assert.deepEqual(bodies["/discord"], {
+    content: "New issue",
+    embeds: [{
+      title: "TypeError: x is <undefined>",
+      url,
+      description: "main (src/main.ts)",
+      color: 0xe67e22,
+      footer: {
+        text: "2 event(s) since 2026-03-01T12:00:00.000Z, versions 1.0.0",
+      },
+      timestamp: EVENT.timestamp,
+    }],
+    allowed_mentions: { parse: [] },
+  });
+});
+
+Deno.test("sends test alerts to every webhook", async () => {
+  await using receiver = startReceiver();
+  const dispatcher = createWebhookDispatcher([
+    webhook(`${receiver.url}/regressions`, { events: ["regressed"] }),
+  ], OPTIONS);
+
+  dispatcher.dispatch({ ...EVENT, type: "test" });
+  await dispatcher.drain();
+
+  assert.deepEqual(receiver.requests.map((r) => r.path), ["/regressions"]);
+  assert.equal(
+    receiver.requests[0].headers.get("x-crash-report-event"),
+    "test",
+  );
+});
@@ -0,0 +1,168 @@
+/**
+ * Consent policies and the remembered consent decision.
+ *
+ * With the `"ask-once-and-remember"` policy, the user's "Always Send" or
+ * "Never Send" answer is stored in a small JSON file per application, and
+ * later reports follow it without asking again:
+ *
+ * ```json
+ * { "decision": "always", "decidedAt": "2024-05-01T12:00:00.000Z" }
+ * ```
+ *
+ * The module also tells whether anyone can be asked at all: a GUI dialog
+ * needs a display, a prompt needs a terminal, and neither is available in
+ * CI, in a systemd service or behind a pipe. Unattended processes follow
+ * `CrashReporterOptions.unattendedConsent` instead.
+ *
+ * The dialog backends themselves live in `./dialog.ts`.
+ */
+
+/**
+ * How the reporter decides whether a report may be sent:
+ * - `"ask"`: Ask the user every time (the default).
+ * - `"always"`: Send without asking.
+ * - `"never"`: Never send; the report is only printed to the console.
+ * - `"ask-once-and-remember"`: Ask until the user picks "Always Send" or
+ *   "Never Send", then follow that decision.
+ */
+export type ConsentPolicy =
+  | "ask"
+  | "always"
+  | "never"
+  | "ask-once-and-remember";
+
+/** A decision that applies to all reports, remembered or configured. */
+export type ConsentDecision = "always" | "never";
+
+/**
+ * The answer to a consent prompt: send (or skip) this report only, or
+ * decide for all reports.
+ */
+export type ConsentChoice = "send" | "skip" | ConsentDecision;
+
+/** Contents of the consent file. */
+export interface StoredConsent {
+  decision: ConsentDecision;
+  /** ISO 8601 timestamp of when the user decided. */
+  decidedAt: string;
+}
+
+/** Ways to reach the user, see `detectConsentEnvironment`. */
+export interface ConsentEnvironment {
+  /** A GUI dialog can be shown. */
+  gui: boolean;
+  /** stdin and stderr are a terminal, so the user can be prompted there. */
+  terminal: boolean;
+}
+
+/**
+ * Returns the default consent file of an application.
+ * Requires `--allow-env` for `HOME`/`XDG_CONFIG_HOME` (`APPDATA` on Windows).
+ * @param appName The application name, `"default"` if not given.
+ */
+export function defaultConsentFile(appName = "default"): string {
+  const safeName = appName.replace(/[^\w.-]/g, "_");
+  let configDir: string;
+  if (Deno.build.os === "windows") {
+    configDir = Deno.env.get("APPDATA") ?? ".";
+  } else if (Deno.build.os === "darwin") {
+    configDir = `${Deno.env.get("HOME") ?? "."}/Library/Application Support`;
+  } else {
+    configDir = Deno.env.get("XDG_CONFIG_HOME") ??
+      `${Deno.env.get("HOME") ?? "."}/.config`;
+  }
+  return `${configDir}/crash-report/${safeName}/consent.json`;
+}
+
+/**
+ * Reads the remembered decision.
+ * @param path The consent file.
+ * @returns The decision, or `null` if none was stored (or the file is invalid).
+ */
+export async function readConsentDecision(
+  path: string,
+): Promise<ConsentDecision | null> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return null;
+    throw err;
+  }
+  try {
+    const stored = JSON.parse(text) as Partial<StoredConsent>;
+    return stored.decision === "always" || stored.decision === "never"
+      ? stored.decision
+      : null;
+  } catch (_) {
+    return null; // Corrupt file, ask again
+  }
+}
+
+/**
+ * Stores a decision, or forgets it.
+ * @param path The consent file.
+ * @param decision The decision, or `null` to remove the file so the user is
+ *   asked again.
+ */
+export async function writeConsentDecision(
+  path: string,
+  decision: ConsentDecision | null,
+): Promise<void> {
+  if (decision === null) {
+    try {
+      await Deno.remove(path);
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+    return;
+  }
+  const stored: StoredConsent = {
+    decision,
+    decidedAt: new Date().toISOString(),
+  };
+  const dir = path.replace(/[\\/][^\\/]*$/, "");
+  if (dir !== path) await Deno.mkdir(dir, { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(stored, null, 2) + "\n");
+}
+
+/**
+ * Detects whether the user can be asked, through a GUI dialog or a terminal
+ * prompt. Nobody is asked when the `CI` environment variable is set.
+ *
+ * On Linux a dialog needs `DISPLAY` or `WAYLAND_DISPLAY`; on macOS there is
+ * none in an SSH session. Without `--allow-env` for these variables, a
+ * display is assumed, as the dialog will tell when it cannot be shown.
+ */
+export function detectConsentEnvironment(): ConsentEnvironment {
+  if (isEnvSet("CI")) return { gui: false, terminal: false };
+
+  let gui: boolean;
+  switch (Deno.build.os) {
+    case "linux":
+      gui = isEnvSet("DISPLAY") !== false ||
+        isEnvSet("WAYLAND_DISPLAY") !== false;
+      break;
+    case "darwin":
+      gui = isEnvSet("SSH_CONNECTION") !== true;
+      break;
+    default:
+      gui = true;
+  }
+  const terminal = Deno.stdin.isTerminal() && Deno.stderr.isTerminal();
+  return { gui, terminal };
+}
+
+/**
+ * Tells whether an environment variable is set (and not empty).
+ * @returns `undefined` if it cannot be read without `--allow-env`.
+ */
+function isEnvSet(name: string): boolean | undefined {
+  // Query first, so a missing permission does not trigger a prompt
+  const { state } = Deno.permissions.querySync({
+    name: "env",
+    variable: name,
+  });
+  if (state !== "granted") return undefined;
+  return !!Deno.env.get(name);
+}
@@ -0,0 +1,815 @@
+/**
+ * Consent dialogs, as pluggable backends tried in order.
+ *
+ * A `DialogBackend` shows the consent dialog in one way: a native GUI
+ * dialog, a desktop notification or a terminal prompt. The reporter tries
+ * the backends of `CrashReporterOptions.dialogs` in order, skipping the ones
+ * that are not available (no display, no terminal) or fail (command not
+ * installed), until one gets an answer. When none does, the
+ * `unattendedConsent` default applies.
+ *
+ * Dialogs offer "Show Details", which displays the exact JSON that will be
+ * sent (after scrubbing and `beforeSend`), and an optional "What were you
+ * doing?" comment that is sent along with the report:
+ *
+ * | Backend             | Platform | Dialog                                     | Details shown in        |
+ * | ------------------- | -------- | ------------------------------------------ | ----------------------- |
+ * | `powershellBackend` | Windows  | Windows Forms window with a comment box    | The same window         |
+ * | `osascriptBackend`  | macOS    | `display dialog` with a text field         | TextEdit (`open -e`)    |
+ * | `zenityBackend`     | Linux    | `zenity --forms` with a comment entry      | `zenity --text-info`    |
+ * | `kdialogBackend`    | Linux    | `kdialog --yesnocancel`, then `--inputbox` | `kdialog --textbox`     |
+ * | `yadBackend`        | Linux    | `yad --form` with a comment field          | `yad --text-info`       |
+ * | `notifySendBackend` | Linux    | `notify-send --wait` with actions          | Not available           |
+ * | `terminalBackend`   | Any      | `prompt()` on stdin/stdout                 | stderr                  |
+ *
+ * Where a dialog cannot return the typed comment together with extra
+ * buttons (zenity, kdialog, `display dialog`), the `"ask-once-and-remember"`
+ * policy asks for "Always Send" / "Never Send" in a follow-up question.
+ *
+ * `createScriptedDialogBackend` answers from a script instead of asking, to
+ * test the confirmation flow without a display.
+ */
+
+import { type ConsentChoice, detectConsentEnvironment } from "./consent.ts";
+import { MAX_USER_COMMENT_LENGTH } from "./payload.ts";
+
+/** What a consent dialog shows. */
+export interface ConsentPrompt {
+  /** Offer the "Always Send" / "Never Send" choices. */
+  remember: boolean;
+  /** The exact JSON that will be sent, shown by "Show Details". */
+  details: string;
+}
+
+/** The user's answer to a consent dialog. */
+export interface ConsentAnswer {
+  choice: ConsentChoice;
+  /** What the user was doing, if they typed it (only kept when sending). */
+  comment?: string;
+}
+
+/**
+ * One way to ask the user for consent, see `CrashReporterOptions.dialogs`.
+ */
+export interface DialogBackend {
+  /** Name used in log messages. */
+  readonly name: string;
+  /**
+   * Whether the backend can be used at all (platform, display, terminal).
+   * Unavailable backends are skipped. Defaults to available.
+   */
+  isAvailable?(): boolean | Promise<boolean>;
+  /**
+   * Shows the dialog.
+   * @returns The answer, or `null` if the dialog could not be shown, so the
+   *   next backend is tried. Thrown errors are treated like `null`.
+   */
+  ask(prompt: ConsentPrompt): Promise<ConsentAnswer | null>;
+}
+
+const DIALOG_TITLE = "Crash Report";
+const DIALOG_QUESTION =
+  `An application error occurred.\n\nDo you want to send a crash report to help improve the application?`;
+const DIALOG_MESSAGE =
+  `${DIALOG_QUESTION} Use "Show Details" to see exactly what would be sent.`;
+const COMMENT_LABEL = "What were you doing? (optional)";
+
+/** Button labels, and the choice each of them stands for. */
+const DIALOG_BUTTONS: Record<ConsentChoice, string> = {
+  send: "Send Report",
+  skip: "Don't Send",
+  always: "Always Send",
+  never: "Never Send",
+};
+const DETAILS_BUTTON = "Show Details";
+const ASK_AGAIN_BUTTON = "Ask Next Time";
+/** How long the notification waits for an answer before it counts as "Don't Send". */
+const NOTIFICATION_TIMEOUT_MS = 2 * 60 * 1000;
+/**
+ * Extra time before notify-send is killed: notification servers may ignore
+ * `--expire-time` (GNOME does).
+ */
+const NOTIFICATION_KILL_GRACE_MS = 5000;
+
+const textDecoder = new TextDecoder(); // Reuse decoder
+const textEncoder = new TextEncoder();
+
+/**
+ * Asks with the first backend that is available and gets an answer.
+ * @param backends The backends, in order of preference.
+ * @param prompt What to show.
+ * @returns The answer, or `null` if no backend could ask.
+ */
+export async function runDialogChain(
+  backends: readonly DialogBackend[],
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  for (const backend of backends) {
+    try {
+      if (backend.isAvailable && !(await backend.isAvailable())) continue;
+      console.log(`Asking for consent with ${backend.name}...`);
+      const answer = await backend.ask(prompt);
+      if (answer) return answer;
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) {
+        console.error(
+          `=> ${backend.name} is not installed or not in the system's PATH.`,
+        );
+      } else {
+        console.error(
+          `=> ${backend.name} dialog failed:`,
+          err instanceof Error ? err.message : err,
+        );
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the built-in backends for the current platform, in the order they
+ * are tried: the native dialog (on Linux zenity, kdialog, yad, then a
+ * notify-send notification), then the terminal prompt.
+ */
+export function defaultDialogBackends(): DialogBackend[] {
+  switch (Deno.build.os) {
+    case "windows":
+      return [powershellBackend, terminalBackend];
+    case "darwin":
+      return [osascriptBackend, terminalBackend];
+    case "linux":
+      return [
+        zenityBackend,
+        kdialogBackend,
+        yadBackend,
+        notifySendBackend,
+        terminalBackend,
+      ];
+    default:
+      return [terminalBackend];
+  }
+}
+
+/**
+ * A step of a scripted dialog: a fixed answer (`null` simulates a dialog
+ * that cannot be shown), or a function computing it from the prompt.
+ */
+export type ScriptedDialogStep =
+  | ConsentAnswer
+  | null
+  | ((prompt: ConsentPrompt) => ConsentAnswer | null);
+
+/** A `DialogBackend` answering from a script, see `createScriptedDialogBackend`. */
+export interface ScriptedDialogBackend extends DialogBackend {
+  /** The prompts the backend was asked, oldest first. */
+  readonly prompts: ConsentPrompt[];
+}
+
+/**
+ * Creates a fake backend for tests: each time it is asked, it records the
+ * prompt and answers with the next step of the script. Once the script is
+ * used up, it answers `null`.
+ *
+ * @example
+ * ```typescript
+ * const dialog = createScriptedDialogBackend([{ choice: "send", comment: "Saving" }]);
+ * const reporter = createCrashReporter({ dialogs: [dialog], transport: fakeFetch });
+ * await reporter.crashReport(new Error("boom"));
+ * // dialog.prompts[0].details holds the JSON that was shown
+ * ```
+ * @param steps The answers, in order.
+ */
+export function createScriptedDialogBackend(
+  steps: ScriptedDialogStep[],
+): ScriptedDialogBackend {
+  const remaining = [...steps];
+  const prompts: ConsentPrompt[] = [];
+  return {
+    name: "scripted dialog",
+    prompts,
+    ask(prompt) {
+      prompts.push(prompt);
+      const step = remaining.shift() ?? null;
+      return Promise.resolve(typeof step === "function" ? step(prompt) : step);
+    },
+  };
+}
+
+/** Windows Forms window shown through PowerShell. */
+export const powershellBackend: DialogBackend = {
+  name: "PowerShell",
+  isAvailable: () => Deno.build.os === "windows" && hasDisplay(),
+  ask: showWindowsDialog,
+};
+
+/** `display dialog` run through osascript. */
+export const osascriptBackend: DialogBackend = {
+  name: "osascript",
+  isAvailable: () => Deno.build.os === "darwin" && hasDisplay(),
+  ask: showMacDialog,
+};
+
+/** zenity, the GNOME dialog tool. */
+export const zenityBackend: DialogBackend = {
+  name: "zenity",
+  isAvailable: hasDisplay,
+  ask: showZenityDialog,
+};
+
+/** kdialog, the KDE dialog tool. */
+export const kdialogBackend: DialogBackend = {
+  name: "kdialog",
+  isAvailable: hasDisplay,
+  ask: showKdialogDialog,
+};
+
+/** yad, a zenity fork with custom buttons. */
+export const yadBackend: DialogBackend = {
+  name: "yad",
+  isAvailable: hasDisplay,
+  ask: showYadDialog,
+};
+
+/**
+ * A desktop notification with actions, for systems without a dialog tool.
+ * It cannot show the details or take a comment.
+ */
+export const notifySendBackend: DialogBackend = {
+  name: "notify-send",
+  isAvailable: hasDisplay,
+  ask: showNotification,
+};
+
+/** A prompt on the terminal, see `askInTerminal`. */
+export const terminalBackend: DialogBackend = {
+  name: "terminal",
+  isAvailable: () => detectConsentEnvironment().terminal,
+  ask: (prompt) => Promise.resolve(askInTerminal(prompt)),
+};
+
+/**
+ * Asks for confirmation on the terminal: `d` prints the details to stderr,
+ * and the comment is asked for once the user agreed to send.
+ * @param prompt What to show.
+ */
+export function askInTerminal(prompt: ConsentPrompt): ConsentAnswer {
+  const answers = prompt.remember
+    ? "[y]es, [n]o, [a]lways, ne[v]er, [d]etails"
+    : "[y]es, [n]o, [d]etails";
+  let choice: ConsentChoice | undefined;
+  while (!choice) {
+    const answer = globalThis.prompt(
+      `${DIALOG_MESSAGE}\nSend report? ${answers}:`,
+    )?.trim().toLowerCase();
+    switch (answer) {
+      case "d":
+      case "details":
+        console.error(`\n${prompt.details}\n`);
+        break;
+      case "y":
+      case "yes":
+        choice = "send";
+        break;
+      case "a":
+      case "always":
+        choice = prompt.remember ? "always" : "skip";
+        break;
+      case "v":
+      case "never":
+        choice = prompt.remember ? "never" : "skip";
+        break;
+      default:
+        choice = "skip";
+    }
+  }
+  if (choice !== "send" && choice !== "always") return { choice };
+  return withComment(choice, globalThis.prompt(`${COMMENT_LABEL}:`) ?? "");
+}
+
+/**
+ * zenity: a form with the comment entry, looping back to it after the
+ * details were shown. zenity prints the label of a clicked extra button, but
+ * not the form fields, and form entries cannot be prefilled: a comment typed
+ * before "Show Details" is lost and has to be typed again.
+ */
+async function showZenityDialog(
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  while (true) {
+    const output = await run("zenity", [
+      "--forms",
+      "--title",
+      DIALOG_TITLE,
+      "--text",
+      DIALOG_MESSAGE,
+      "--add-entry",
+      COMMENT_LABEL,
+      "--ok-label",
+      DIALOG_BUTTONS.send,
+      "--cancel-label",
+      DIALOG_BUTTONS.skip,
+      "--extra-button",
+      DETAILS_BUTTON,
+      "--width=400", // Optional: set a width
+    ]);
+    const stdout = textDecoder.decode(output.stdout).replace(/\n$/, "");
+
+    if (output.success) {
+      return await rememberFollowUp(
+        prompt,
+        withComment("send", stdout),
+        showZenityQuestion,
+      );
+    }
+    if (stdout === DETAILS_BUTTON) {
+      await run("zenity", [
+        "--text-info",
+        "--title",
+        `${DIALOG_TITLE}: Details`,
+        "--font=monospace",
+        "--width=700",
+        "--height=500",
+      ], prompt.details);
+      continue;
+    }
+    // Exit code 1 is "Don't Send" or a closed window; anything else
+    // (e.g. no display) means the dialog could not be shown
+    if (output.code !== 1) return dialogFailed(output);
+    return await rememberFollowUp(
+      prompt,
+      { choice: "skip" },
+      showZenityQuestion,
+    );
+  }
+}
+
+async function showZenityQuestion(
+  text: string,
+  confirmLabel: string,
+): Promise<boolean> {
+  const output = await run("zenity", [
+    "--question",
+    "--title",
+    DIALOG_TITLE,
+    "--text",
+    text,
+    "--ok-label",
+    confirmLabel,
+    "--cancel-label",
+    ASK_AGAIN_BUTTON,
+    "--width=400",
+  ]);
+  return output.success;
+}
+
+/**
+ * macOS: `display dialog` with a text field. The details are written to a
+ * temporary file and opened in TextEdit, then the dialog is shown again with
+ * the comment typed so far.
+ */
+async function showMacDialog(
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  // `open` returns before TextEdit has read the details, so their files are
+  // removed once the dialog is done
+  const detailFiles: string[] = [];
+  try {
+    return await askMac(prompt, detailFiles);
+  } finally {
+    for (const file of detailFiles) {
+      await Deno.remove(file).catch(() => {});
+    }
+  }
+}
+
+async function askMac(
+  prompt: ConsentPrompt,
+  detailFiles: string[],
+): Promise<ConsentAnswer | null> {
+  let comment = "";
+  while (true) {
+    const appleScript = `display dialog ${
+      appleString(`${DIALOG_MESSAGE}\n\n${COMMENT_LABEL}`)
+    } default answer ${appleString(comment)} with title ${
+      appleString(DIALOG_TITLE)
+    } buttons {${appleString(DETAILS_BUTTON)}, ${
+      appleString(DIALOG_BUTTONS.skip)
+    }, ${appleString(DIALOG_BUTTONS.send)}} default button ${
+      appleString(DIALOG_BUTTONS.send)
+    } cancel button ${appleString(DIALOG_BUTTONS.skip)} with icon caution
+                    return (button returned of the result) & linefeed & (text returned of the result)`;
+    const output = await run("osascript", ["-e", appleScript]);
+    if (!output.success) {
+      // Error -128 means the user cancelled
+      if (!textDecoder.decode(output.stderr).includes("-128")) {
+        return dialogFailed(output);
+      }
+      return await rememberFollowUp(
+        prompt,
+        { choice: "skip" },
+        showMacQuestion,
+      );
+    }
+
+    const [button, ...lines] = textDecoder.decode(output.stdout)
+      .replace(/\n$/, "").split("\n");
+    comment = lines.join("\n");
+    if (button === DETAILS_BUTTON) {
+      const file = await Deno.makeTempFile({
+        prefix: "crash-report-",
+        suffix: ".json",
+      });
+      detailFiles.push(file);
+      await Deno.writeTextFile(file, prompt.details);
+      await run("open", ["-e", file]);
+      continue;
+    }
+    return await rememberFollowUp(
+      prompt,
+      withComment("send", comment),
+      showMacQuestion,
+    );
+  }
+}
+
+async function showMacQuestion(
+  text: string,
+  confirmLabel: string,
+): Promise<boolean> {
+  const output = await run("osascript", [
+    "-e",
+    `display dialog ${appleString(text)} with title ${
+      appleString(DIALOG_TITLE)
+    } buttons {${appleString(ASK_AGAIN_BUTTON)}, ${
+      appleString(confirmLabel)
+    }} default button ${appleString(ASK_AGAIN_BUTTON)}
+                    return button returned of the result`,
+  ]);
+  return output.success &&
+    textDecoder.decode(output.stdout).trim() === confirmLabel;
+}
+
+/**
+ * Windows: a small Windows Forms window, as a MessageBox has neither a text
+ * box nor more than three buttons. The details box is toggled in place. The
+ * details are passed on stdin (command lines are limited to 32K characters);
+ * the window prints the DialogResult of the clicked button, then the comment.
+ */
+async function showWindowsDialog(
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  const choices: ConsentChoice[] = prompt.remember
+    ? ["send", "skip", "always", "never"]
+    : ["send", "skip"];
+  const results = ["Yes", "No", "Retry", "Abort"];
+  const buttons = choices.map((choice, i) =>
+    `@(${psString(DIALOG_BUTTONS[choice])}, '${results[i]}')`
+  ).join(", ");
+  const psCommand = `
+                    [Console]::InputEncoding = [Text.Encoding]::UTF8;
+                    [Console]::OutputEncoding = [Text.Encoding]::UTF8;
+                    $details = [Console]::In.ReadToEnd();
+                    Add-Type -AssemblyName System.Windows.Forms;
+                    Add-Type -AssemblyName System.Drawing;
+                    $form = New-Object System.Windows.Forms.Form;
+                    $form.Text = ${psString(DIALOG_TITLE)};
+                    $form.AutoSize = $true; $form.AutoSizeMode = 'GrowAndShrink';
+                    $form.StartPosition = 'CenterScreen'; $form.TopMost = $true;
+                    $form.FormBorderStyle = 'FixedDialog'; $form.MaximizeBox = $false; $form.MinimizeBox = $false;
+                    $layout = New-Object System.Windows.Forms.FlowLayoutPanel;
+                    $layout.FlowDirection = 'TopDown'; $layout.AutoSize = $true; $layout.Padding = 12;
+                    $label = New-Object System.Windows.Forms.Label;
+                    $label.Text = ${psString(DIALOG_MESSAGE)};
+                    $label.AutoSize = $true; $label.MaximumSize = New-Object System.Drawing.Size(560, 0);
+                    $layout.Controls.Add($label);
+                    $commentLabel = New-Object System.Windows.Forms.Label;
+                    $commentLabel.Text = ${
+    psString(COMMENT_LABEL)
+  }; $commentLabel.AutoSize = $true;
+                    $layout.Controls.Add($commentLabel);
+                    $comment = New-Object System.Windows.Forms.TextBox;
+                    $comment.Multiline = $true; $comment.Size = New-Object System.Drawing.Size(560, 60);
+                    $comment.MaxLength = ${MAX_USER_COMMENT_LENGTH};
+                    $layout.Controls.Add($comment);
+                    $detailsBox = New-Object System.Windows.Forms.TextBox;
+                    $detailsBox.Multiline = $true; $detailsBox.ReadOnly = $true; $detailsBox.ScrollBars = 'Both'; $detailsBox.WordWrap = $false;
+                    $detailsBox.Font = New-Object System.Drawing.Font('Consolas', 9);
+                    $detailsBox.Size = New-Object System.Drawing.Size(560, 300);
+                    $detailsBox.Text = $details -replace "(?<!\\r)\\n", "\`r\`n";
+                    $detailsBox.Visible = $false;
+                    $layout.Controls.Add($detailsBox);
+                    $buttons = New-Object System.Windows.Forms.FlowLayoutPanel;
+                    $buttons.AutoSize = $true;
+                    foreach ($b in @(${buttons})) {
+                        $button = New-Object System.Windows.Forms.Button;
+                        $button.Text = $b[0]; $button.DialogResult = $b[1]; $button.AutoSize = $true;
+                        $buttons.Controls.Add($button);
+                    }
+                    $toggle = New-Object System.Windows.Forms.Button;
+                    $toggle.Text = ${
+    psString(DETAILS_BUTTON)
+  }; $toggle.AutoSize = $true;
+                    $toggle.Add_Click({ $detailsBox.Visible = -not $detailsBox.Visible });
+                    $buttons.Controls.Add($toggle);
+                    $layout.Controls.Add($buttons);
+                    $form.Controls.Add($layout);
+                    $form.AcceptButton = $buttons.Controls[0];
+                    $result = $form.ShowDialog();
+                    Write-Output $result;
+                    Write-Output $comment.Text;
+                `;
+  const output = await run(
+    "powershell",
+    ["-NoProfile", "-Command", psCommand],
+    prompt.details,
+  );
+  if (!output.success) return dialogFailed(output);
+
+  const [result, ...lines] = textDecoder.decode(output.stdout)
+    .replace(/\r?\n$/, "").split(/\r?\n/);
+  const index = results.indexOf(result.trim());
+  // Closing the window (Cancel) counts as "Don't Send"
+  const choice = index >= 0 && index < choices.length ? choices[index] : "skip";
+  return withComment(choice, lines.join("\n"));
+}
+
+/**
+ * kdialog: a yes/no/cancel question whose cancel button shows the details.
+ * kdialog has no form, so the comment is asked in a second dialog, whose
+ * Cancel button returns to the question.
+ */
+async function showKdialogDialog(
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  while (true) {
+    const output = await run("kdialog", [
+      "--title",
+      DIALOG_TITLE,
+      "--yes-label",
+      DIALOG_BUTTONS.send,
+      "--no-label",
+      DIALOG_BUTTONS.skip,
+      "--cancel-label",
+      DETAILS_BUTTON,
+      "--yesnocancel",
+      DIALOG_MESSAGE,
+    ]);
+    if (output.code === 2) {
+      const file = await Deno.makeTempFile({
+        prefix: "crash-report-",
+        suffix: ".json",
+      });
+      try {
+        await Deno.writeTextFile(file, prompt.details);
+        await run("kdialog", [
+          "--title",
+          `${DIALOG_TITLE}: Details`,
+          "--textbox",
+          file,
+          "700",
+          "500",
+        ]);
+      } finally {
+        await Deno.remove(file).catch(() => {});
+      }
+      continue;
+    }
+    if (output.code === 1) {
+      return await rememberFollowUp(
+        prompt,
+        { choice: "skip" },
+        showKdialogQuestion,
+      );
+    }
+    if (!output.success) return dialogFailed(output);
+
+    const comment = await run("kdialog", [
+      "--title",
+      DIALOG_TITLE,
+      "--inputbox",
+      COMMENT_LABEL,
+    ]);
+    // Cancel goes back to the question, as the user may not want to send
+    // after all; if the input box could not be shown, send without a comment
+    if (comment.code === 1) continue;
+    return await rememberFollowUp(
+      prompt,
+      withComment(
+        "send",
+        comment.success ? textDecoder.decode(comment.stdout) : "",
+      ),
+      showKdialogQuestion,
+    );
+  }
+}
+
+async function showKdialogQuestion(
+  text: string,
+  confirmLabel: string,
+): Promise<boolean> {
+  const output = await run("kdialog", [
+    "--title",
+    DIALOG_TITLE,
+    "--yes-label",
+    confirmLabel,
+    "--no-label",
+    ASK_AGAIN_BUTTON,
+    "--yesno",
+    text,
+  ]);
+  return output.success;
+}
+
+/**
+ * yad: a form with the comment field and one button per choice, so no
+ * follow-up question is needed. The exit code tells the clicked button.
+ */
+async function showYadDialog(
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  const choices: ConsentChoice[] = prompt.remember
+    ? ["send", "skip", "always", "never"]
+    : ["send", "skip"];
+  // Exit code = index of the choice; the details button comes after them
+  const detailsCode = choices.length;
+  const buttons = [
+    ...choices.map((choice) => DIALOG_BUTTONS[choice]),
+    DETAILS_BUTTON,
+  ]
+    .flatMap((label, code) => ["--button", `${label}:${code}`]);
+  let comment = "";
+  while (true) {
+    const output = await run("yad", [
+      "--form",
+      "--title",
+      DIALOG_TITLE,
+      "--text",
+      DIALOG_MESSAGE,
+      "--field",
+      `${COMMENT_LABEL}:TXT`,
+      comment,
+      "--always-print-result",
+      ...buttons,
+      "--width=400",
+    ]);
+    // yad prints the fields separated (and terminated) by "|"
+    const stdout = textDecoder.decode(output.stdout).replace(/\|?\n?$/, "");
+    if (stdout) comment = stdout;
+
+    if (output.code === detailsCode) {
+      await run("yad", [
+        "--text-info",
+        "--title",
+        `${DIALOG_TITLE}: Details`,
+        "--fontname=monospace",
+        "--width=700",
+        "--height=500",
+        "--button",
+        "Close:0",
+      ], prompt.details);
+      continue;
+    }
+    // 252 is a closed window, counted as "Don't Send"
+    if (output.code === 252) return { choice: "skip" };
+    const choice = choices[output.code];
+    if (!choice) return dialogFailed(output);
+    return withComment(choice, comment);
+  }
+}
+
+/**
+ * notify-send: a notification with one action per choice. `--wait` blocks
+ * until it is clicked, dismissed or expired and prints the invoked action.
+ * The user may miss a notification, so dismissing or ignoring it means
+ * "Don't Send": it expires after `NOTIFICATION_TIMEOUT_MS`, and notify-send
+ * is killed shortly after for servers that keep it open.
+ */
+async function showNotification(
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer | null> {
+  const choices: ConsentChoice[] = prompt.remember
+    ? ["send", "skip", "always", "never"]
+    : ["send", "skip"];
+  const output = await run(
+    "notify-send",
+    [
+      "--app-name",
+      DIALOG_TITLE,
+      "--urgency=normal",
+      `--expire-time=${NOTIFICATION_TIMEOUT_MS}`,
+      "--wait",
+      ...choices.map((choice) =>
+        `--action=${choice}=${DIALOG_BUTTONS[choice]}`
+      ),
+      DIALOG_TITLE,
+      DIALOG_QUESTION,
+    ],
+    undefined,
+    NOTIFICATION_TIMEOUT_MS + NOTIFICATION_KILL_GRACE_MS,
+  );
+  if (output.timedOut) {
+    console.log("No answer to the notification, not sending the report.");
+    return { choice: "skip" };
+  }
+  if (!output.success) return dialogFailed(output);
+  const action = textDecoder.decode(output.stdout).trim();
+  return { choice: choices.find((choice) => choice === action) ?? "skip" };
+}
+
+/**
+ * For the `"ask-once-and-remember"` policy, asks whether the answer should
+ * apply to future reports too.
+ */
+async function rememberFollowUp(
+  prompt: ConsentPrompt,
+  answer: ConsentAnswer,
+  ask: (text: string, confirmLabel: string) => Promise<boolean>,
+): Promise<ConsentAnswer> {
+  if (!prompt.remember) return answer;
+  const remember = answer.choice === "send"
+    ? await ask(
+      "Send future crash reports automatically, without asking?",
+      DIALOG_BUTTONS.always,
+    )
+    : await ask(
+      "Stop asking and never send crash reports?",
+      DIALOG_BUTTONS.never,
+    );
+  if (!remember) return answer;
+  return { ...answer, choice: answer.choice === "send" ? "always" : "never" };
+}
+
+/** Attaches the comment to an answer that sends the report. */
+function withComment(choice: ConsentChoice, comment: string): ConsentAnswer {
+  const trimmed = comment.trim().slice(0, MAX_USER_COMMENT_LENGTH);
+  return (choice === "send" || choice === "always") && trimmed
+    ? { choice, comment: trimmed }
+    : { choice };
+}
+
+/** Whether a GUI dialog can be shown, see `detectConsentEnvironment`. */
+function hasDisplay(): boolean {
+  return detectConsentEnvironment().gui;
+}
+
+function dialogFailed(output: Deno.CommandOutput): null {
+  const stderr = textDecoder.decode(output.stderr).trim();
+  console.error(
+    `Dialog command failed. Code: ${output.code}${
+      stderr ? `, Stderr: ${stderr}` : ""
+    }`,
+  );
+  return null;
+}
+
+/** Output of `run`; `timedOut` if the command was killed after its timeout. */
+type RunOutput = Deno.CommandOutput & { timedOut: boolean };
+
+/**
+ * Runs a dialog command and waits for it to exit.
+ * @param input Text written to the command's stdin, if any.
+ * @param timeoutMs Kills the command if it has not exited after this long.
+ */
+async function run(
+  command: string,
+  args: string[],
+  input?: string,
+  timeoutMs?: number,
+): Promise<RunOutput> {
+  console.log("Waiting for user response in dialog...");
+  const child = new Deno.Command(command, {
+    args,
+    stdin: input === undefined ? "null" : "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  if (input !== undefined) {
+    const writer = child.stdin.getWriter();
+    try {
+      await writer.write(textEncoder.encode(input));
+      await writer.close();
+    } catch (_) { /* The dialog exited without reading its input */ }
+  }
+  let timedOut = false;
+  const timer = timeoutMs === undefined ? undefined : setTimeout(() => {
+    timedOut = true;
+    try {
+      child.kill();
+    } catch (_) { /* Exited meanwhile */ }
+  }, timeoutMs);
+  try {
+    return Object.assign(await child.output(), { timedOut });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Basic escaping for AppleScript strings. */
+function appleString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/** Basic escaping for PowerShell strings. */
+function psString(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`;
+}
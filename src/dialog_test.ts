@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import {
+  createScriptedDialogBackend,
+  type DialogBackend,
+  type ScriptedDialogStep,
+} from "./dialog.ts";
+import type { CrashReportPayload } from "./payload.ts";
+import { type CrashReporterOptions, createCrashReporter } from "./reporter.ts";
+
+/** Creates a reporter asking through the given backends, capturing what it sends. */
+function setup(dialogs: DialogBackend[], options: CrashReporterOptions = {}) {
+  const sent: CrashReportPayload[] = [];
+  const reporter = createCrashReporter({
+    endpoint: "http://collector.test/api/report",
+    scrub: false,
+    dialogs,
+    ...options,
+    transport: (_url, init) => {
+      sent.push(JSON.parse(String(init.body)));
+      return Promise.resolve(new Response(null, { status: 202 }));
+    },
+  });
+  return { reporter, sent };
+}
+
+/** A scripted backend that is never available. */
+function unavailable(steps: ScriptedDialogStep[] = []) {
+  return {
+    ...createScriptedDialogBackend(steps),
+    isAvailable: () => false,
+  };
+}
+
+Deno.test("ask: sends with the comment typed into the dialog", async () => {
+  const dialog = createScriptedDialogBackend([
+    { choice: "send", comment: "Saving a file" },
+  ]);
+  const { reporter, sent } = setup([dialog]);
+
+  await reporter.crashReport(new Error("boom"));
+
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].userComment, "Saving a file");
+  assert.equal(dialog.prompts.length, 1);
+  assert.equal(dialog.prompts[0].remember, false);
+  // The details show exactly what is sent, except for the comment
+  const { userComment: _, ...shown } = sent[0];
+  assert.deepEqual(JSON.parse(dialog.prompts[0].details), shown);
+});
+
+Deno.test("ask: does not send when the user declines", async () => {
+  const dialog = createScriptedDialogBackend([
+    { choice: "skip", comment: "ignored" },
+  ]);
+  const { reporter, sent } = setup([dialog]);
+
+  await reporter.crashReport(new Error("boom"));
+
+  assert.equal(dialog.prompts.length, 1);
+  assert.deepEqual(sent, []);
+});
+
+Deno.test("always and never do not ask", async () => {
+  for (const consent of ["always", "never"] as const) {
+    const dialog = createScriptedDialogBackend([{ choice: "skip" }]);
+    const { reporter, sent } = setup([dialog], { consent });
+
+    await reporter.crashReport(new Error("boom"));
+
+    assert.equal(dialog.prompts.length, 0);
+    assert.equal(sent.length, consent === "always" ? 1 : 0);
+  }
+});
+
+Deno.test("ask-once-and-remember: remembers always and never", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "crash-report-consent-" });
+  try {
+    const dialog = createScriptedDialogBackend([
+      { choice: "send" },
+      { choice: "always" },
+      { choice: "never" },
+    ]);
+    const { reporter, sent } = setup([dialog], {
+      consent: "ask-once-and-remember",
+      consentFile: `${dir}/consent.json`,
+    });
+
+    // A one-off answer is not remembered
+    await reporter.crashReport(new Error("first"));
+    assert.equal(await reporter.getConsentDecision(), null);
+
+    await reporter.crashReport(new Error("second"));
+    assert.equal(await reporter.getConsentDecision(), "always");
+    await reporter.crashReport(new Error("third"));
+    assert.equal(dialog.prompts.length, 2);
+    assert.ok(dialog.prompts.every((prompt) => prompt.remember));
+    assert.equal(sent.length, 3);
+
+    // Forgetting the decision asks again
+    await reporter.setConsentDecision(null);
+    await reporter.crashReport(new Error("fourth"));
+    assert.equal(await reporter.getConsentDecision(), "never");
+    await reporter.crashReport(new Error("fifth"));
+    assert.equal(dialog.prompts.length, 3);
+    assert.equal(sent.length, 3);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("falls back to the next backend that can ask", async () => {
+  const skipped = unavailable([{ choice: "skip" }]);
+  const failing: DialogBackend = {
+    name: "failing dialog",
+    ask: () => Promise.reject(new Error("no display")),
+  };
+  const notShown = createScriptedDialogBackend([null]);
+  const answering = createScriptedDialogBackend([
+    { choice: "send", comment: "From the fallback" },
+  ]);
+  const { reporter, sent } = setup([skipped, failing, notShown, answering]);
+
+  await reporter.crashReport(new Error("boom"));
+
+  assert.equal(skipped.prompts.length, 0);
+  assert.equal(notShown.prompts.length, 1);
+  assert.equal(answering.prompts.length, 1);
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].userComment, "From the fallback");
+});
+
+Deno.test("applies unattendedConsent when no backend can ask", async () => {
+  for (const unattendedConsent of ["always", "never"] as const) {
+    const dialog = createScriptedDialogBackend([null]);
+    const { reporter, sent } = setup([unavailable(), dialog], {
+      unattendedConsent,
+    });
+
+    await reporter.crashReport(new Error("boom"));
+
+    assert.equal(dialog.prompts.length, 1);
+    assert.equal(sent.length, unattendedConsent === "always" ? 1 : 0);
+  }
+});
@@ -0,0 +1,192 @@
+/**
+ * What the hook does after reporting an uncaught error or an unhandled
+ * rejection, configured with the `hook` reporter option.
+ *
+ * By default the process exits with code 1, as Deno would. A long-running
+ * server can keep going instead: each event type has its own policy, and a
+ * callback can decide per event (e.g. continue after a failed request
+ * handler, exit when the error looks fatal).
+ *
+ * Before exiting, the callbacks registered with `onCrashExit` run (closing
+ * servers, flushing logs), bounded by a timeout so a hanging cleanup cannot
+ * keep a crashed process alive.
+ */
+
+import type { ErrorReport, UnhandledRejectionReport } from "./payload.ts";
+import type { CrashReporter } from "./reporter.ts";
+
+/** What the hook does after reporting: exit the process, or keep running. */
+export type HookDecision = "exit" | "continue";
+
+/** An event handled by the hook, passed to a `HookDecider`. */
+export interface HookEvent {
+  type: "error" | "unhandledrejection";
+  /** The thrown value, or the rejection reason. */
+  error: unknown;
+  /** The report content passed to `crashReport`. */
+  report: ErrorReport | UnhandledRejectionReport;
+}
+
+/**
+ * Decides what happens after an event was reported. If it throws (or
+ * rejects), the process exits.
+ */
+export type HookDecider = (
+  event: HookEvent,
+) => HookDecision | Promise<HookDecision>;
+
+/** A fixed decision, or a callback deciding per event. */
+export type HookPolicy = HookDecision | HookDecider;
+
+/** Options of the hook, see `CrashReporterOptions.hook`. */
+export interface HookOptions {
+  /** What to do after an uncaught error. Defaults to `"exit"`. */
+  error?: HookPolicy;
+  /** What to do after an unhandled rejection. Defaults to `"exit"`. */
+  unhandledrejection?: HookPolicy;
+  /** The exit code of the process. Defaults to `1`. */
+  exitCode?: number;
+  /**
+   * How long the `onCrashExit` callbacks may take before the process exits
+   * anyway. Defaults to 5 seconds.
+   */
+  cleanupTimeoutMs?: number;
+}
+
+/** Hook options with defaults applied. */
+export interface ResolvedHookOptions {
+  error: HookPolicy;
+  unhandledrejection: HookPolicy;
+  exitCode: number;
+  cleanupTimeoutMs: number;
+}
+
+/** A callback run before the hook exits the process. */
+export type CrashExitCallback = () => void | Promise<void>;
+
+const exitCallbacks = new Set<CrashExitCallback>();
+/** Set once the hook started exiting, so later crashes do not clean up again. */
+let exiting: Promise<never> | null = null;
+
+/**
+ * Applies defaults to the `hook` reporter option.
+ * @param options The user-supplied option; a single policy applies to both
+ *   event types.
+ */
+export function resolveHookOptions(
+  options: HookPolicy | HookOptions | undefined,
+): ResolvedHookOptions {
+  const opts = typeof options === "string" || typeof options === "function"
+    ? { error: options, unhandledrejection: options }
+    : options ?? {};
+  return {
+    error: opts.error ?? "exit",
+    unhandledrejection: opts.unhandledrejection ?? "exit",
+    exitCode: opts.exitCode ?? 1,
+    cleanupTimeoutMs: opts.cleanupTimeoutMs ?? 5_000,
+  };
+}
+
+/**
+ * Registers a callback run before the hook exits the process after a crash,
+ * e.g. to close a server or flush logs. Callbacks run concurrently; errors
+ * are logged and do not prevent the exit.
+ * @param callback The cleanup callback.
+ * @returns A function unregistering the callback.
+ */
+export function onCrashExit(callback: CrashExitCallback): () => void {
+  exitCallbacks.add(callback);
+  return () => {
+    exitCallbacks.delete(callback);
+  };
+}
+
+/**
+ * Applies the policy of an event.
+ * @param options The hook options.
+ * @param event The reported event.
+ * @returns The decision; `"exit"` if the decider failed.
+ */
+export async function decideAfterCrash(
+  options: ResolvedHookOptions,
+  event: HookEvent,
+): Promise<HookDecision> {
+  const policy = options[event.type];
+  if (typeof policy !== "function") return policy;
+  try {
+    return (await policy(event)) === "continue" ? "continue" : "exit";
+  } catch (err) {
+    console.error("Crash hook decider failed, exiting:", err);
+    return "exit";
+  }
+}
+
+/**
+ * Reports an event, then exits or keeps running according to the reporter's
+ * `hook` option. Used by the hook and for crashed workers.
+ * @param reporter The reporter; its `hook` option applies.
+ * @param event The event to report.
+ * @param description Used in the log messages, e.g. `"uncaught error"`.
+ * @param report Sends the report; defaults to `reporter.crashReport`.
+ */
+export async function reportAndDecide(
+  reporter: CrashReporter,
+  event: HookEvent,
+  description: string,
+  report: () => Promise<void> = () => reporter.crashReport(event.report),
+): Promise<void> {
+  const options = resolveHookOptions(reporter.options.hook);
+  try {
+    await report();
+  } catch (err) {
+    console.error("Failed to report crash:", err);
+  }
+  // Exit even if crashReport itself threw an error
+  if (await decideAfterCrash(options, event) === "continue") {
+    console.error(`Continuing after ${description}.`);
+    return;
+  }
+  console.error(`Exiting due to ${description}.`);
+  await exitAfterCrash(options);
+}
+
+/**
+ * Runs the `onCrashExit` callbacks, waiting at most `cleanupTimeoutMs`, then
+ * exits the process with the configured code. Calls made while the callbacks
+ * run wait for the first exit.
+ * @param options The hook options.
+ */
+export function exitAfterCrash(
+  options: ResolvedHookOptions,
+): Promise<never> {
+  exiting ??= runCleanupAndExit(options);
+  return exiting;
+}
+
+async function runCleanupAndExit(
+  options: ResolvedHookOptions,
+): Promise<never> {
+  if (exitCallbacks.size > 0) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = Promise.all(
+      [...exitCallbacks].map(async (callback) => {
+        try {
+          await callback();
+        } catch (err) {
+          console.error("Crash exit callback failed:", err);
+        }
+      }),
+    ).then(() => true);
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), options.cleanupTimeoutMs);
+    });
+    const finished = await Promise.race([cleanup, timeout]);
+    clearTimeout(timer);
+    if (!finished) {
+      console.error(
+        `Crash exit callbacks did not finish within ${options.cleanupTimeoutMs} ms.`,
+      );
+    }
+  }
+  Deno.exit(options.exitCode);
+}
@@ -0,0 +1,133 @@
+/**
+ * Report fingerprints: the key reports are grouped by.
+ *
+ * A fingerprint is a hash of the report type, the error name and the
+ * normalized top frames of the stack trace (or the normalized message when
+ * there is none), so occurrences of the same bug on different machines and
+ * builds share it. The collector groups reports into issues by it, and the
+ * reporter uses it to suppress duplicates before sending.
+ */
+
+import type { CrashReportPayload } from "./payload.ts";
+import { parseStack } from "./stack.ts";
+
+/** Number of stack frames that make up a fingerprint. */
+const FINGERPRINT_FRAMES = 5;
+/**
+ * Extracts the name of the reported error (`error.name` for uncaught errors,
+ * `reason.name` for rejections), if there is one.
+ * @param payload The report payload.
+ */
+export function getErrorName(payload: CrashReportPayload): string | undefined {
+  const report = payload.report as Record<string, unknown>;
+  for (const value of [report.error, report.reason]) {
+    if (
+      typeof value === "object" && value !== null &&
+      typeof (value as Record<string, unknown>).name === "string"
+    ) {
+      return (value as Record<string, unknown>).name as string;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the thrown value of a report: `error` for uncaught errors,
+ * `reason` for rejections.
+ */
+export function getThrown(
+  payload: CrashReportPayload,
+): Record<string, unknown> {
+  const report = payload.report as Record<string, unknown>;
+  const thrown = report.error ?? report.reason;
+  return typeof thrown === "object" && thrown !== null
+    ? thrown as Record<string, unknown>
+    : {};
+}
+
+/**
+ * Normalizes a V8 stack trace into its top frames, stripping everything that
+ * differs between machines or builds: directories (and with them user home
+ * prefixes), line/column numbers and query strings. Deno-internal `ext:`
+ * frames are skipped.
+ *
+ * For example `    at loadConfig (file:///home/alice/app/src/config.ts:12:7)`
+ * becomes `loadConfig (config.ts)`.
+ *
+ * @param stack The raw `stack` string.
+ * @returns The normalized frames, top first.
+ */
+export function normalizeStackFrames(stack: string): string[] {
+  const frames: string[] = [];
+  for (const frame of parseStack(stack)) {
+    if (frame.file.startsWith("ext:") || frame.file.startsWith("node:")) {
+      continue;
+    }
+
+    const file = frame.file
+      .replace(/[?#].*$/, "") // query strings and fragments
+      .split(/[\\/]/).pop() || frame.file;
+    frames.push(`${frame.function ?? "<anonymous>"} (${file})`);
+    if (frames.length >= FINGERPRINT_FRAMES) break;
+  }
+  return frames;
+}
+
+/**
+ * Replaces volatile parts of an error message (numbers, hex ids, UUIDs) so
+ * that messages differing only in those values group together.
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(
+      /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+      "<uuid>",
+    )
+    .replace(/0x[0-9a-f]+/gi, "<hex>")
+    .replace(/\d+/g, "<n>");
+}
+
+/**
+ * Computes the grouping fingerprint of a report: a SHA-256 hash of the
+ * report type, the error name and the normalized top stack frames. Reports
+ * without a stack trace fall back to the normalized message.
+ * @param payload The report payload.
+ * @returns The fingerprint as a hex string.
+ */
+export async function computeFingerprint(
+  payload: CrashReportPayload,
+): Promise<string> {
+  const thrown = getThrown(payload);
+  const frames = typeof thrown.stack === "string"
+    ? normalizeStackFrames(thrown.stack)
+    : [];
+
+  const parts = [
+    payload.report.type ?? "unknown",
+    getErrorName(payload) ?? "Error",
+  ];
+  if (frames.length > 0) {
+    parts.push(...frames);
+  } else {
+    parts.push(normalizeMessage(getTitle(payload)));
+  }
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(parts.join("\n")),
+  );
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Picks a human-readable title for a report. */
+export function getTitle(payload: CrashReportPayload): string {
+  const thrown = getThrown(payload);
+  const report = payload.report as Record<string, unknown>;
+  for (const candidate of [thrown.message, report.message]) {
+    if (typeof candidate === "string" && candidate) return candidate;
+  }
+  const reason = report.reason ?? report.error;
+  return reason === undefined ? "(no message)" : String(reason);
+}
@@ -0,0 +1,101 @@
+/**
+ * Wire formats of the reporter: how a payload is encoded for the endpoint,
+ * and how the ingest key is sent (see `CrashReporterOptions.format`).
+ *
+ * - `crashReportFormat` (the default): The `CrashReportPayload` JSON of
+ *   `./payload.ts`, for the collector's `/api/report`. The key is sent as
+ *   `Authorization: Bearer <key>`.
+ * - `sentryEnvelopeFormat`: A Sentry envelope holding one event (see
+ *   `./sentry.ts`), for Sentry or any server speaking its protocol, including
+ *   the collector's `/api/<project>/envelope/`. The endpoint may be a DSN
+ *   (`https://<key>@host/<project>`); the key is sent as `X-Sentry-Auth`.
+ * - `otlpLogsFormat`: An OTLP/HTTP JSON logs request (see `./otlp.ts`), for
+ *   the `/v1/logs` endpoint of an OpenTelemetry collector. An endpoint
+ *   without a path gets `/v1/logs` appended; the key is sent as
+ *   `Authorization: Bearer <key>`.
+ *
+ * Other formats implement `ReportFormat`. Backends expecting their key in
+ * another header can be served by wrapping `CrashReporterOptions.transport`.
+ */
+
+import { encodeOtlpLogs } from "./otlp.ts";
+import type { CrashReportPayload } from "./payload.ts";
+import {
+  encodeSentryEnvelope,
+  payloadToSentryEvent,
+  SENTRY_ENVELOPE_CONTENT_TYPE,
+} from "./sentry.ts";
+
+/** Encodes reports for an endpoint, see `CrashReporterOptions.format`. */
+export interface ReportFormat {
+  /** Name of the format, for logs. */
+  name: string;
+  /** `Content-Type` of the encoded reports. */
+  contentType: string;
+  /**
+   * Turns the configured endpoint into the URL reports are POSTed to, e.g. a
+   * Sentry DSN into its envelope URL. Defaults to the endpoint as-is.
+   * @param endpoint The endpoint, without the ingest key.
+   */
+  resolveEndpoint?(endpoint: string): string;
+  /**
+   * Encodes a report. The result is kept in the outbox for retries.
+   * @param payload The payload.
+   * @param id Unique id of the report, the same for every delivery attempt.
+   * @returns The request body.
+   */
+  encode(payload: CrashReportPayload, id: string): string;
+  /**
+   * Builds the headers sending the ingest key.
+   * @param ingestKey The configured ingest key.
+   */
+  authHeaders(ingestKey: string): Record<string, string>;
+}
+
+/** The native format of the collector (the default). */
+export const crashReportFormat: ReportFormat = {
+  name: "crash-report",
+  contentType: "application/json",
+  encode: (payload) => JSON.stringify(payload),
+  authHeaders: (ingestKey) => ({ "Authorization": `Bearer ${ingestKey}` }),
+};
+
+/** Sentry envelopes, for Sentry and the collector's envelope endpoint. */
+export const sentryEnvelopeFormat: ReportFormat = {
+  name: "sentry-envelope",
+  contentType: SENTRY_ENVELOPE_CONTENT_TYPE,
+  resolveEndpoint: toSentryEnvelopeUrl,
+  encode: (payload, id) =>
+    encodeSentryEnvelope(payloadToSentryEvent(payload, id)),
+  authHeaders: (ingestKey) => ({
+    "X-Sentry-Auth": `Sentry sentry_version=7, sentry_key=${ingestKey}`,
+  }),
+};
+
+/** OTLP/HTTP JSON logs, for OpenTelemetry collectors. */
+export const otlpLogsFormat: ReportFormat = {
+  name: "otlp-logs",
+  contentType: "application/json",
+  resolveEndpoint: (endpoint) => {
+    const url = new URL(endpoint);
+    if (url.pathname === "/") url.pathname = "/v1/logs";
+    return url.href;
+  },
+  encode: (payload, id) => JSON.stringify(encodeOtlpLogs([{ payload, id }])),
+  authHeaders: (ingestKey) => ({ "Authorization": `Bearer ${ingestKey}` }),
+};
+
+/**
+ * Turns a Sentry DSN (`https://host/<path>/<project>`, without the key) into
+ * its envelope URL (`https://host/<path>/api/<project>/envelope/`). URLs
+ * already ending in `/envelope/` are kept.
+ */
+function toSentryEnvelopeUrl(endpoint: string): string {
+  const url = new URL(endpoint);
+  if (/\/envelope\/?$/.test(url.pathname)) return url.href;
+  const path = url.pathname.replace(/\/+$/, "");
+  const separator = path.lastIndexOf("/");
+  const project = path.slice(separator + 1);
+  url.pathname = `${path.slice(0, separator)}/api/${project}/envelope/`;
+  return url.href;
+}
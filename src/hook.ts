@@ -13,8 +13,29 @@
  * display a GUI confirmation dialog and send the report to the configured server,
  * and finally exits the application with a non-zero status code (`Deno.exit(1)`).
  *
- * **IMPORTANT:** This module requires the `CRASH_REPORT_BASE_URL` environment
- * variable to be set for reporting to be active.
+ * Long-running servers can keep going instead: the `hook` reporter option sets
+ * the policy per event type (`"exit"`, `"continue"` or a callback deciding per
+ * event) and the exit code. Callbacks registered with `onCrashExit` run, with
+ * a timeout, before the process exits (see `./exit.ts`).
+ *
+ * **IMPORTANT:** Reporting is only active once an endpoint is configured,
+ * either through the `CRASH_REPORT_BASE_URL` environment variable or by calling
+ * `configureCrashReporter` from `./reporter.ts`. The listeners look up the
+ * default reporter when an error happens, so configuring it after importing
+ * this module is fine. While no endpoint is configured, errors are left to
+ * Deno's default handling.
+ *
+ * While reporting is active (an endpoint is configured and the consent policy
+ * is not `"never"`), the hook also records `console.*` calls and `fetch`
+ * requests as breadcrumbs, which are attached to reports (see
+ * `configureBreadcrumbs`). Sources switched off there are not wrapped.
+ * Reports carry the current scope (`setTag`, `setUser`, ...); an error that
+ * escaped a `withScope` function is reported with that function's scope.
+ *
+ * If the reporter has an outbox enabled, reports left over from previous runs
+ * are flushed shortly after startup (once the entry module had a chance to call
+ * `configureCrashReporter`), and again whenever the next spooled report is
+ * due for a retry while the process keeps running.
  *
  * @example
  * ```typescript
@@ -36,72 +57,144 @@
  * // Promise.reject("Something async went wrong!");
  * ```
  */
-import {
-  CRASH_REPORT_BASE_URL,
-  CRASH_REPORT_ENDPOINT,
-  crashReport,
-} from "./reporter.ts";
+import { instrumentBreadcrumbs } from "./breadcrumbs.ts";
+import { reportAndDecide } from "./exit.ts";
+import { getCrashReporter } from "./reporter.ts";
+import type { ErrorReport, UnhandledRejectionReport } from "./payload.ts";
+import { runInErrorScope } from "./scope.ts";
 import { serializeValueForReport } from "./utils.ts";
 
 // -------- Hook error events -----------
-// If the crash reporting endpoint is configured, hook error events.
-if (CRASH_REPORT_ENDPOINT) {
+// Log the reporter's endpoint rather than the raw environment variable, which
+// may embed an ingest key (DSN-style URL)
+const defaultEndpoint = getCrashReporter().endpoint;
+if (defaultEndpoint) {
   console.log(
-    `Crash reporter activated. Reports will be sent to: ${CRASH_REPORT_BASE_URL}`,
+    `Crash reporter activated. Reports will be sent to: ${defaultEndpoint}`,
+  );
+} else {
+  console.warn(
+    "Crash reporter inactive until configured: CRASH_REPORT_BASE_URL environment variable not set.",
+  );
+}
+
+// Record console calls and fetch requests as breadcrumbs, and retry reports
+// spooled by previous runs. Checked again after a tick, so that a
+// `configureCrashReporter` call in the entry module is picked up.
+instrumentWhenReporting();
+setTimeout(() => {
+  instrumentWhenReporting();
+  flushOutbox();
+}, 0);
+
+self.addEventListener("error", async (event: ErrorEvent) => {
+  const reporter = getCrashReporter();
+  // Without an endpoint, keep Deno's default behavior
+  if (!reporter.endpoint) return;
+
+  console.error("\n--- Uncaught Error Captured ---");
+  event.preventDefault(); // Prevent Deno's default logging
+
+  // Construct the report data object first
+  const reportData: ErrorReport = {
+    type: "error", // Add type for context
+    message: event.message,
+    filename: event.filename,
+    lineno: event.lineno,
+    colno: event.colno,
+    error: serializeValueForReport(event.error), // Use the helper
+  };
+
+  await reportAndDecide(
+    reporter,
+    { type: "error", error: event.error, report: reportData },
+    "uncaught error",
+    // Pass the structured object; it is sent as-is (no re-encoding)
+    () => runInErrorScope(event.error, () => reporter.crashReport(reportData)),
   );
+  // The process kept running; retry the report if it was spooled
+  await scheduleOutboxFlush();
+});
+
+self.addEventListener(
+  "unhandledrejection",
+  async (event: PromiseRejectionEvent) => {
+    const reporter = getCrashReporter();
+    // Without an endpoint, keep Deno's default behavior
+    if (!reporter.endpoint) return;
 
-  self.addEventListener("error", async (event: ErrorEvent) => {
-    console.error("\n--- Uncaught Error Captured ---");
+    console.error("\n--- Unhandled Promise Rejection Captured ---");
     event.preventDefault(); // Prevent Deno's default logging
 
     // Construct the report data object first
-    const reportData = {
-      type: "error", // Add type for context
-      message: event.message,
-      filename: event.filename,
-      lineno: event.lineno,
-      colno: event.colno,
-      error: serializeValueForReport(event.error), // Use the helper
+    const reportData: UnhandledRejectionReport = {
+      type: "unhandledrejection", // Add type for context
+      reason: serializeValueForReport(event.reason), // Use the helper
     };
 
-    // Stringify the structured data
-    const reportJson = JSON.stringify(reportData, null, 2); // Pretty print for console log
-
-    try {
-      await crashReport(reportJson);
-    } finally {
-      // Ensure exit happens even if crashReport itself throws an error
-      console.error("Exiting due to uncaught error.");
-      Deno.exit(1);
-    }
-  });
+    await reportAndDecide(
+      reporter,
+      { type: "unhandledrejection", error: event.reason, report: reportData },
+      "unhandled promise rejection",
+      // Pass the structured object; it is sent as-is (no re-encoding)
+      () =>
+        runInErrorScope(event.reason, () => reporter.crashReport(reportData)),
+    );
+    // The process kept running; retry the report if it was spooled
+    await scheduleOutboxFlush();
+  },
+);
 
-  self.addEventListener(
-    "unhandledrejection",
-    async (event: PromiseRejectionEvent) => {
-      console.error("\n--- Unhandled Promise Rejection Captured ---");
-      event.preventDefault(); // Prevent Deno's default logging
+/**
+ * Installs the breadcrumb wrappers once the default reporter can send
+ * reports: it has an endpoint, its consent policy is not `"never"` and it
+ * attaches breadcrumbs.
+ */
+function instrumentWhenReporting() {
+  const { endpoint, options } = getCrashReporter();
+  if (
+    endpoint && options.consent !== "never" && options.breadcrumbs !== false
+  ) {
+    instrumentBreadcrumbs();
+  }
+}
 
-      // Construct the report data object first
-      const reportData = {
-        type: "unhandledrejection", // Add type for context
-        reason: serializeValueForReport(event.reason), // Use the helper
-      };
+// -------- Outbox retries -----------
+/** Upper bound of a `setTimeout` delay (about 24.8 days). */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+/** Lower bound between flushes, in case a retry could not be rescheduled. */
+const MIN_FLUSH_INTERVAL_MS = 1000;
+let outboxTimer: ReturnType<typeof setTimeout> | undefined;
 
-      // Stringify the structured data
-      const reportJson = JSON.stringify(reportData, null, 2);
+/** Flushes the outbox, then schedules the next flush. */
+async function flushOutbox() {
+  try {
+    await getCrashReporter().flushOutbox();
+  } catch (err) {
+    console.error("Failed to flush crash report outbox:", err);
+  }
+  await scheduleOutboxFlush();
+}
 
-      try {
-        await crashReport(reportJson);
-      } finally {
-        // Ensure exit happens even if crashReport itself throws an error
-        console.error("Exiting due to unhandled promise rejection.");
-        Deno.exit(1);
-      }
-    },
-  );
-} else {
-  console.warn(
-    "Crash reporter inactive: CRASH_REPORT_BASE_URL environment variable not set.",
+/**
+ * Schedules a flush for when the next spooled report is due, replacing the
+ * one scheduled before. The timer does not keep the process alive.
+ */
+async function scheduleOutboxFlush() {
+  let next: number | null;
+  try {
+    next = await getCrashReporter().nextOutboxAttempt();
+  } catch (err) {
+    console.error("Failed to read crash report outbox:", err);
+    return;
+  }
+  clearTimeout(outboxTimer);
+  if (next === null) return;
+  const delay = Math.min(
+    Math.max(next - Date.now(), MIN_FLUSH_INTERVAL_MS),
+    MAX_TIMER_DELAY_MS,
   );
+  const timer = setTimeout(flushOutbox, delay);
+  Deno.unrefTimer(timer);
+  outboxTimer = timer;
 }
@@ -0,0 +1,221 @@
+/**
+ * OpenTelemetry compatibility: conversion of crash report payloads into
+ * OTLP log records, encoded as the OTLP/HTTP JSON `ExportLogsServiceRequest`.
+ *
+ * Shared by the reporter, which can send reports to an OTLP endpoint (see
+ * `./formats.ts`), and by the collector, which exports stored reports in
+ * this format (`GET /api/export/otlp`).
+ *
+ * Every report becomes one log record with severity `ERROR`:
+ * - The application goes into the resource: `service.name`,
+ *   `service.version`, `deployment.environment.name`, `os.type`, `host.arch`
+ *   and `process.runtime.name`/`process.runtime.version`. Records are grouped
+ *   by resource.
+ * - The error follows the semantic conventions for exceptions:
+ *   `exception.type`, `exception.message` and `exception.stacktrace`.
+ * - The user goes into `user.id`, `user.name` and `user.email`.
+ * - Everything else goes into `crash_report.*` attributes: `type`, `report`,
+ *   `reporter_info`, `tags`, `contexts`, `breadcrumbs`, `user_comment` and
+ *   `suppressed_duplicates`.
+ *
+ * The log body is the title of the report, e.g. `TypeError: x is undefined`.
+ */
+
+import { getErrorName, getThrown, getTitle } from "./fingerprint.ts";
+import type { CrashReportPayload, ReporterInfo } from "./payload.ts";
+
+/** An OTLP `AnyValue`; `{}` is an empty value. */
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } }
+  | Record<string, never>;
+
+/** An OTLP attribute. */
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/** An OTLP log record. */
+export interface OtlpLogRecord {
+  /** Nanoseconds since epoch, as a decimal string. */
+  timeUnixNano: string;
+  observedTimeUnixNano?: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+}
+
+/** The OTLP/HTTP JSON body of `POST /v1/logs`. */
+export interface OtlpLogsRequest {
+  resourceLogs: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeLogs: {
+      scope: { name: string };
+      logRecords: OtlpLogRecord[];
+    }[];
+  }[];
+}
+
+/** A report to encode, see `encodeOtlpLogs`. */
+export interface OtlpLogInput {
+  payload: CrashReportPayload;
+  /** Unique id of the report, sent as `log.record.uid`. */
+  id?: string;
+  /** ISO 8601 timestamp of when the report was received, if it was. */
+  observedAt?: string;
+  /** Further attributes, e.g. the fingerprint; `undefined` ones are left out. */
+  attributes?: Record<string, unknown>;
+}
+
+/** The instrumentation scope of the log records. */
+export const OTLP_SCOPE_NAME = "@sigmasd/crash-report";
+
+/** `SEVERITY_NUMBER_ERROR` of the OTLP log data model. */
+const SEVERITY_ERROR = 17;
+/** Values of `host.arch` for the architectures of `Deno.build.arch`. */
+const HOST_ARCH: Record<string, string> = {
+  x86_64: "amd64",
+  aarch64: "arm64",
+};
+/** Nesting depth of attribute values; deeper values are sent as JSON strings. */
+const MAX_VALUE_DEPTH = 8;
+
+/**
+ * Encodes reports as an OTLP/HTTP JSON logs request.
+ * @param inputs The reports.
+ */
+export function encodeOtlpLogs(inputs: OtlpLogInput[]): OtlpLogsRequest {
+  const groups = new Map<
+    string,
+    { attributes: OtlpKeyValue[]; logRecords: OtlpLogRecord[] }
+  >();
+  for (const input of inputs) {
+    const attributes = resourceAttributes(input.payload.reporterInfo);
+    const key = JSON.stringify(attributes);
+    let group = groups.get(key);
+    if (!group) {
+      group = { attributes, logRecords: [] };
+      groups.set(key, group);
+    }
+    group.logRecords.push(toLogRecord(input));
+  }
+
+  return {
+    resourceLogs: [...groups.values()].map(({ attributes, logRecords }) => ({
+      resource: { attributes },
+      scopeLogs: [{ scope: { name: OTLP_SCOPE_NAME }, logRecords }],
+    })),
+  };
+}
+
+/**
+ * Builds the resource of a report. Values the collector filled in as
+ * `"unknown"` (legacy payloads, Sentry SDKs of other runtimes) are left out.
+ */
+function resourceAttributes(info: ReporterInfo): OtlpKeyValue[] {
+  const known = (value: string) => value === "unknown" ? undefined : value;
+  const denoVersion = known(info.denoVersion);
+  return toAttributes({
+    "service.name": info.appName ?? "unknown_service:deno",
+    "service.version": info.appVersion,
+    "deployment.environment.name": info.environment,
+    "os.type": known(info.os),
+    "host.arch": HOST_ARCH[info.arch] ?? known(info.arch),
+    "process.runtime.name": denoVersion && "deno",
+    "process.runtime.version": denoVersion,
+  });
+}
+
+function toLogRecord(input: OtlpLogInput): OtlpLogRecord {
+  const { payload } = input;
+  const thrown = getThrown(payload);
+  const errorName = getErrorName(payload);
+  const title = getTitle(payload);
+  const { os: _os, arch: _arch, denoVersion: _denoVersion, ...info } =
+    payload.reporterInfo;
+
+  const record: OtlpLogRecord = {
+    timeUnixNano: toUnixNano(payload.timestamp),
+    severityNumber: SEVERITY_ERROR,
+    severityText: "ERROR",
+    body: { stringValue: errorName ? `${errorName}: ${title}` : title },
+    attributes: toAttributes({
+      "log.record.uid": input.id,
+      "exception.type": errorName,
+      "exception.message": errorName ? title : undefined,
+      "exception.stacktrace": typeof thrown.stack === "string"
+        ? thrown.stack
+        : undefined,
+      "user.id": payload.user?.id,
+      "user.name": payload.user?.username,
+      "user.email": payload.user?.email,
+      "crash_report.type": payload.report.type,
+      "crash_report.report": payload.report,
+      "crash_report.reporter_info": info,
+      "crash_report.tags": payload.tags,
+      "crash_report.contexts": payload.contexts,
+      "crash_report.breadcrumbs": payload.breadcrumbs,
+      "crash_report.user_comment": payload.userComment,
+      "crash_report.suppressed_duplicates": payload.suppressedDuplicates,
+      ...input.attributes,
+    }),
+  };
+  if (input.observedAt) {
+    record.observedTimeUnixNano = toUnixNano(input.observedAt);
+  }
+  return record;
+}
+
+/** Converts attributes, leaving out `undefined` values. */
+function toAttributes(attributes: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toAnyValue(value, 0) }));
+}
+
+function toAnyValue(value: unknown, depth: number): OtlpAnyValue {
+  switch (typeof value) {
+    case "string":
+      return { stringValue: value };
+    case "boolean":
+      return { boolValue: value };
+    case "bigint":
+      return { intValue: String(value) };
+    case "number":
+      if (Number.isSafeInteger(value)) return { intValue: String(value) };
+      // JSON has no NaN or Infinity
+      return Number.isFinite(value)
+        ? { doubleValue: value }
+        : { stringValue: String(value) };
+  }
+  if (value === null || value === undefined) return {};
+  if (typeof value !== "object") return { stringValue: String(value) };
+  if (depth >= MAX_VALUE_DEPTH) return { stringValue: JSON.stringify(value) };
+
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value.map((item) => toAnyValue(item, depth + 1)),
+      },
+    };
+  }
+  return {
+    kvlistValue: {
+      values: Object.entries(value)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => ({ key, value: toAnyValue(field, depth + 1) })),
+    },
+  };
+}
+
+/** Converts an ISO 8601 timestamp; `"0"` (unknown) if it is invalid. */
+function toUnixNano(timestamp: string): string {
+  const ms = Date.parse(timestamp);
+  return Number.isNaN(ms) ? "0" : String(BigInt(ms) * 1_000_000n);
+}
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { encodeOtlpLogs, OTLP_SCOPE_NAME, type OtlpKeyValue } from "./otlp.ts";
+import type { CrashReportPayload, ReporterInfo } from "./payload.ts";
+
+const INFO: ReporterInfo = {
+  os: "linux",
+  arch: "x86_64",
+  denoVersion: "2.0.0",
+  appName: "notes",
+  appVersion: "1.4.0",
+  environment: "production",
+};
+
+function payload(fields: Partial<CrashReportPayload> = {}): CrashReportPayload {
+  return {
+    schemaVersion: 1,
+    timestamp: "2026-03-01T12:00:00.123Z",
+    report: { type: "message", message: "Disk full" },
+    reporterInfo: INFO,
+    ...fields,
+  };
+}
+
+/** Indexes attributes by key. */
+function attributeMap(attributes: OtlpKeyValue[]): Record<string, unknown> {
+  return Object.fromEntries(attributes.map(({ key, value }) => [key, value]));
+}
+
+Deno.test("encodes an error report as an OTLP log record", () => {
+  const stack =
+    "TypeError: x is undefined\n    at main (file:///app/main.ts:1:1)";
+  const request = encodeOtlpLogs([{
+    payload: payload({
+      report: {
+        type: "error",
+        message: "x is undefined",
+        error: { name: "TypeError", message: "x is undefined", stack },
+      },
+      user: { id: "42", email: "ada@example.com" },
+      tags: { screen: "editor" },
+      userComment: "Clicked save",
+      suppressedDuplicates: 3,
+    }),
+    id: "r1",
+    observedAt: "2026-03-01T12:00:01Z",
+    attributes: { "crash_report.fingerprint": "abc123", unset: undefined },
+  }]);
+
+  assert.equal(request.resourceLogs.length, 1);
+  const [{ resource, scopeLogs }] = request.resourceLogs;
+  assert.deepEqual(resource.attributes, [
+    { key: "service.name", value: { stringValue: "notes" } },
+    { key: "service.version", value: { stringValue: "1.4.0" } },
+    {
+      key: "deployment.environment.name",
+      value: { stringValue: "production" },
+    },
+    { key: "os.type", value: { stringValue: "linux" } },
+    { key: "host.arch", value: { stringValue: "amd64" } },
+    { key: "process.runtime.name", value: { stringValue: "deno" } },
+    { key: "process.runtime.version", value: { stringValue: "2.0.0" } },
+  ]);
+  assert.deepEqual(scopeLogs.map((s) => s.scope), [{ name: OTLP_SCOPE_NAME }]);
+
+  const [record] = scopeLogs[0].logRecords;
+  assert.equal(record.timeUnixNano, "1772366400123000000");
+  assert.equal(record.observedTimeUnixNano, "1772366401000000000");
+  assert.equal(record.severityNumber, 17);
+  assert.equal(record.severityText, "ERROR");
+  assert.deepEqual(record.body, { stringValue: "TypeError: x is undefined" });
+
+  const attributes = attributeMap(record.attributes);
+  assert.deepEqual(attributes["log.record.uid"], { stringValue: "r1" });
+  assert.deepEqual(attributes["exception.type"], { stringValue: "TypeError" });
+  assert.deepEqual(attributes["exception.message"], {
+    stringValue: "x is undefined",
+  });
+  assert.deepEqual(attributes["exception.stacktrace"], { stringValue: stack });
+  assert.deepEqual(attributes["user.id"], { stringValue: "42" });
+  assert.deepEqual(attributes["user.email"], {
+    stringValue: "ada@example.com",
+  });
+  assert.deepEqual(attributes["crash_report.type"], { stringValue: "error" });
+  assert.deepEqual(attributes["crash_report.reporter_info"], {
+    kvlistValue: {
+      values: [
+        { key: "appName", value: { stringValue: "notes" } },
+        { key: "appVersion", value: { stringValue: "1.4.0" } },
+        { key: "environment", value: { stringValue: "production" } },
+      ],
+    },
+  });
+  assert.deepEqual(attributes["crash_report.tags"], {
+    kvlistValue: {
+      values: [{ key: "screen", value: { stringValue: "editor" } }],
+    },
+  });
+  assert.deepEqual(attributes["crash_report.user_comment"], {
+    stringValue: "Clicked save",
+  });
+  assert.deepEqual(attributes["crash_report.suppressed_duplicates"], {
+    intValue: "3",
+  });
+  assert.deepEqual(attributes["crash_report.fingerprint"], {
+    stringValue: "abc123",
+  });
+  // Unset fields are left out
+  for (const key of ["user.name", "crash_report.contexts", "unset"]) {
+    assert.ok(!(key in attributes), key);
+  }
+});
+
+Deno.test("encodes messages without exception attributes", () => {
+  const [record] = encodeOtlpLogs([{ payload: payload() }])
+    .resourceLogs[0].scopeLogs[0].logRecords;
+
+  assert.deepEqual(record.body, { stringValue: "Disk full" });
+  assert.equal(record.observedTimeUnixNano, undefined);
+  const attributes = attributeMap(record.attributes);
+  assert.deepEqual(Object.keys(attributes), [
+    "crash_report.type",
+    "crash_report.report",
+    "crash_report.reporter_info",
+  ]);
+});
+
+Deno.test("groups OTLP log records by resource", () => {
+  const other = { ...INFO, appVersion: "1.5.0" };
+  const request = encodeOtlpLogs([
+    { payload: payload(), id: "a" },
+    { payload: payload({ reporterInfo: other }), id: "b" },
+    { payload: payload(), id: "c" },
+  ]);
+
+  assert.deepEqual(
+    request.resourceLogs.map(({ resource, scopeLogs }) => [
+      attributeMap(resource.attributes)["service.version"],
+      scopeLogs[0].logRecords.map((record) =>
+        attributeMap(record.attributes)["log.record.uid"]
+      ),
+    ]),
+    [
+      [{ stringValue: "1.4.0" }, [{ stringValue: "a" }, { stringValue: "c" }]],
+      [{ stringValue: "1.5.0" }, [{ stringValue: "b" }]],
+    ],
+  );
+  assert.deepEqual(encodeOtlpLogs([]), { resourceLogs: [] });
+});
+
+Deno.test("leaves unknown resource values out of OTLP resources", () => {
+  const request = encodeOtlpLogs([{
+    payload: payload({
+      timestamp: "not a date",
+      reporterInfo: { os: "unknown", arch: "riscv64", denoVersion: "unknown" },
+    }),
+  }]);
+
+  const [{ resource, scopeLogs }] = request.resourceLogs;
+  assert.deepEqual(resource.attributes, [
+    { key: "service.name", value: { stringValue: "unknown_service:deno" } },
+    { key: "host.arch", value: { stringValue: "riscv64" } },
+  ]);
+  assert.equal(scopeLogs[0].logRecords[0].timeUnixNano, "0");
+});
+
+Deno.test("encodes any JSON value as an OTLP value", () => {
+  let deep: unknown = "bottom";
+  for (let i = 0; i < 10; i++) deep = [deep];
+  const [record] = encodeOtlpLogs([{
+    payload: payload(),
+    attributes: {
+      values: {
+        flag: true,
+        count: 7,
+        ratio: 0.5,
+        nan: NaN,
+        none: null,
+        skipped: undefined,
+        list: ["a", 1],
+      },
+      deep,
+    },
+  }]).resourceLogs[0].scopeLogs[0].logRecords;
+
+  const attributes = attributeMap(record.attributes);
+  assert.deepEqual(attributes.values, {
+    kvlistValue: {
+      values: [
+        { key: "flag", value: { boolValue: true } },
+        { key: "count", value: { intValue: "7" } },
+        { key: "ratio", value: { doubleValue: 0.5 } },
+        { key: "nan", value: { stringValue: "NaN" } },
+        { key: "none", value: {} },
+        {
+          key: "list",
+          value: {
+            arrayValue: {
+              values: [{ stringValue: "a" }, { intValue: "1" }],
+            },
+          },
+        },
+      ],
+    },
+  });
+
+  // Past the depth limit, values are sent as JSON
+  let value = attributes.deep as Record<string, unknown>;
+  for (let depth = 0; depth < 8; depth++) {
+    value = (value.arrayValue as { values: Record<string, unknown>[] })
+      .values[0];
+  }
+  assert.deepEqual(value, { stringValue: '[["bottom"]]' });
+  // The whole request is plain JSON
+  assert.deepEqual(JSON.parse(JSON.stringify(record)), record);
+});
@@ -0,0 +1,215 @@
+/**
+ * On-disk outbox ("spool") for crash reports.
+ *
+ * Payloads that could not be delivered (network errors, collector restarts,
+ * `5xx`/`429` responses) are written to a spool directory as one JSON file per
+ * report. They are retried on the next flush with exponential backoff, and
+ * discarded once they exceed the configured maximum age. The number of
+ * spooled reports is capped; the oldest ones are evicted first.
+ *
+ * This module only deals with the files; the delivery itself lives in
+ * `./reporter.ts`.
+ */
+
+/**
+ * Outbox configuration, passed as `CrashReporterOptions.outbox`.
+ */
+export interface OutboxOptions {
+  /**
+   * Spool directory. Defaults to `crash-report/<appName>/outbox` inside the
+   * user's cache directory.
+   */
+  dir?: string;
+  /**
+   * Write every payload to the outbox before sending it, not only the ones
+   * that failed. Protects against the process dying mid-send.
+   */
+  spoolAll?: boolean;
+  /** Entries older than this are discarded instead of retried. Defaults to 7 days. */
+  maxAgeMs?: number;
+  /** Maximum number of spooled reports; the oldest are evicted first. Defaults to 50. */
+  maxEntries?: number;
+  /** Delay before the first retry, doubled after each failure. Defaults to 30 seconds. */
+  initialBackoffMs?: number;
+  /** Upper bound for the retry delay. Defaults to 6 hours. */
+  maxBackoffMs?: number;
+}
+
+/** Outbox configuration after defaults have been applied. */
+export type ResolvedOutboxOptions = Required<OutboxOptions>;
+
+/**
+ * A single spooled report, stored as `<id>.json` in the spool directory.
+ */
+export interface OutboxEntry {
+  /** Unique id of the report, also used as the file name. */
+  id: string;
+  /** When the report was first created (ms since epoch). */
+  createdAt: number;
+  /** Number of delivery attempts made so far. */
+  attempts: number;
+  /** Earliest time the next attempt may be made (ms since epoch). */
+  nextAttemptAt: number;
+  /** The encoded request body, sent as-is on retry. */
+  body: string;
+  /**
+   * `Content-Type` of `body`, see `CrashReporterOptions.format`. Entries
+   * spooled by older versions have none; their body is JSON.
+   */
+  contentType?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Applies defaults to the `outbox` reporter option.
+ * @param options The user-supplied option (`true` enables all defaults).
+ * @param appName The application name, used for the default directory.
+ * @returns The resolved options, or `null` if the outbox is disabled.
+ */
+export function resolveOutboxOptions(
+  options: boolean | OutboxOptions | undefined,
+  appName?: string,
+): ResolvedOutboxOptions | null {
+  if (!options) return null;
+  const opts = options === true ? {} : options;
+  return {
+    dir: opts.dir ?? defaultOutboxDir(appName),
+    spoolAll: opts.spoolAll ?? false,
+    maxAgeMs: opts.maxAgeMs ?? 7 * DAY_MS,
+    maxEntries: opts.maxEntries ?? 50,
+    initialBackoffMs: opts.initialBackoffMs ?? 30_000,
+    maxBackoffMs: opts.maxBackoffMs ?? 6 * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Returns the default spool directory for an application.
+ * Requires `--allow-env` for `HOME`/`XDG_CACHE_HOME` (`LOCALAPPDATA` on Windows).
+ * @param appName The application name, `"default"` if not given.
+ */
+export function defaultOutboxDir(appName = "default"): string {
+  const safeName = appName.replace(/[^\w.-]/g, "_");
+  let cacheDir: string;
+  if (Deno.build.os === "windows") {
+    cacheDir = Deno.env.get("LOCALAPPDATA") ?? ".";
+  } else if (Deno.build.os === "darwin") {
+    cacheDir = `${Deno.env.get("HOME") ?? "."}/Library/Caches`;
+  } else {
+    cacheDir = Deno.env.get("XDG_CACHE_HOME") ??
+      `${Deno.env.get("HOME") ?? "."}/.cache`;
+  }
+  return `${cacheDir}/crash-report/${safeName}/outbox`;
+}
+
+/**
+ * Computes when the next attempt may be made after a failed delivery.
+ * @param outbox The outbox configuration.
+ * @param attempts The number of attempts made so far (at least 1).
+ * @returns The earliest time of the next attempt (ms since epoch).
+ */
+export function nextAttemptTime(
+  outbox: ResolvedOutboxOptions,
+  attempts: number,
+): number {
+  const delay = Math.min(
+    outbox.initialBackoffMs * 2 ** Math.max(0, attempts - 1),
+    outbox.maxBackoffMs,
+  );
+  return Date.now() + delay;
+}
+
+/**
+ * Writes (or overwrites) an entry in the spool directory.
+ * The file is written to a temporary name first and then renamed, so a crash
+ * mid-write never leaves a truncated entry behind.
+ * @param outbox The outbox configuration.
+ * @param entry The entry to write.
+ */
+export async function writeOutboxEntry(
+  outbox: ResolvedOutboxOptions,
+  entry: OutboxEntry,
+): Promise<void> {
+  await Deno.mkdir(outbox.dir, { recursive: true });
+  const path = entryPath(outbox, entry.id);
+  await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(entry));
+  await Deno.rename(`${path}.tmp`, path);
+}
+
+/**
+ * Reads all entries from the spool directory, oldest first.
+ * Unreadable or malformed files are skipped. A missing directory yields no entries.
+ * @param outbox The outbox configuration.
+ */
+export async function readOutboxEntries(
+  outbox: ResolvedOutboxOptions,
+): Promise<OutboxEntry[]> {
+  const entries: OutboxEntry[] = [];
+  try {
+    for await (const file of Deno.readDir(outbox.dir)) {
+      if (!file.isFile || !file.name.endsWith(".json")) continue;
+      try {
+        const entry = JSON.parse(
+          await Deno.readTextFile(`${outbox.dir}/${file.name}`),
+        );
+        if (isOutboxEntry(entry)) entries.push(entry);
+      } catch (err) {
+        console.error(`Skipping unreadable outbox entry ${file.name}:`, err);
+      }
+    }
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return [];
+    throw err;
+  }
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Removes an entry from the spool directory. Missing entries are ignored.
+ * @param outbox The outbox configuration.
+ * @param id The id of the entry to remove.
+ */
+export async function removeOutboxEntry(
+  outbox: ResolvedOutboxOptions,
+  id: string,
+): Promise<void> {
+  try {
+    await Deno.remove(entryPath(outbox, id));
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+}
+
+/**
+ * Evicts the oldest entries until at most `maxEntries` remain.
+ * @param outbox The outbox configuration.
+ * @returns The evicted entries.
+ */
+export async function enforceOutboxLimit(
+  outbox: ResolvedOutboxOptions,
+): Promise<OutboxEntry[]> {
+  const entries = await readOutboxEntries(outbox);
+  const evicted = entries.slice(
+    0,
+    Math.max(0, entries.length - outbox.maxEntries),
+  );
+  for (const entry of evicted) {
+    await removeOutboxEntry(outbox, entry.id);
+  }
+  return evicted;
+}
+
+function entryPath(outbox: ResolvedOutboxOptions, id: string): string {
+  return `${outbox.dir}/${id}.json`;
+}
+
+function isOutboxEntry(value: unknown): value is OutboxEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === "string" &&
+    typeof entry.createdAt === "number" &&
+    typeof entry.attempts === "number" &&
+    typeof entry.nextAttemptAt === "number" &&
+    typeof entry.body === "string" &&
+    (entry.contentType === undefined || typeof entry.contentType === "string");
+}
@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import {
+  type OutboxEntry,
+  readOutboxEntries,
+  resolveOutboxOptions,
+  writeOutboxEntry,
+} from "./outbox.ts";
+import {
+  type CrashReporterOptions,
+  createCrashReporter,
+  type DeliveryResult,
+} from "./reporter.ts";
+
+const ENDPOINT = "http://collector.test/api/report";
+
+/** Creates a reporter spooling to a temporary directory. */
+async function setup(
+  respond: () => Response,
+  options: CrashReporterOptions = {},
+) {
+  const dir = await Deno.makeTempDir({ prefix: "crash-report-outbox-" });
+  const outbox = resolveOutboxOptions({
+    dir,
+    initialBackoffMs: 1000,
+    ...(typeof options.outbox === "object" ? options.outbox : {}),
+  })!;
+  const requests: string[] = [];
+  const results: DeliveryResult[] = [];
+  const reporter = createCrashReporter({
+    endpoint: ENDPOINT,
+    consent: "always",
+    scrub: false,
+    ...options,
+    outbox,
+    transport: (_url, init) => {
+      requests.push(String(init.body));
+      return Promise.resolve(respond());
+    },
+    onDelivery: (result) => results.push(result),
+  });
+  return {
+    outbox,
+    reporter,
+    requests,
+    results,
+    [Symbol.asyncDispose]: () => Deno.remove(dir, { recursive: true }),
+  };
+}
+
+function entry(id: string, fields: Partial<OutboxEntry> = {}): OutboxEntry {
+  return {
+    id,
+    createdAt: Date.now(),
+    attempts: 1,
+    nextAttemptAt: 0,
+    body: JSON.stringify({ id }),
+    ...fields,
+  };
+}
+
+const networkError = (): Response => {
+  throw new TypeError("error sending request: connection refused");
+};
+
+Deno.test("spools a report when the network fails", async () => {
+  await using env = await setup(networkError);
+  const before = Date.now();
+  await env.reporter.crashReport("Network down");
+
+  assert.deepEqual(env.results.map((r) => r.outcome), ["spooled"]);
+  assert.equal(
+    env.results[0].error,
+    "error sending request: connection refused",
+  );
+  const [spooled, ...rest] = await readOutboxEntries(env.outbox);
+  assert.equal(rest.length, 0);
+  assert.equal(spooled.id, env.results[0].id);
+  assert.equal(spooled.attempts, 1);
+  assert.equal(spooled.body, env.requests[0]);
+  assert.ok(spooled.nextAttemptAt >= before + 1000);
+  assert.equal(await env.reporter.nextOutboxAttempt(), spooled.nextAttemptAt);
+});
+
+Deno.test("spools 5xx responses but not 4xx ones", async () => {
+  let status = 503;
+  await using env = await setup(() => new Response(null, { status }));
+  await env.reporter.crashReport("Unavailable");
+  status = 400;
+  await env.reporter.crashReport("Bad request");
+
+  assert.deepEqual(env.results.map((r) => [r.outcome, r.status]), [
+    ["spooled", 503],
+    ["rejected", 400],
+  ]);
+  const entries = await readOutboxEntries(env.outbox);
+  assert.deepEqual(entries.map((e) => e.id), [env.results[0].id]);
+});
+
+Deno.test("retries only entries whose backoff elapsed", async () => {
+  await using env = await setup(() => new Response(null, { status: 202 }));
+  const now = Date.now();
+  const later = now + 60_000;
+  await writeOutboxEntry(env.outbox, entry("due", { createdAt: now - 2 }));
+  await writeOutboxEntry(
+    env.outbox,
+    entry("waiting", { createdAt: now - 1, nextAttemptAt: later }),
+  );
+  assert.equal(await env.reporter.nextOutboxAttempt(), 0);
+
+  const results = await env.reporter.flushOutbox();
+
+  assert.deepEqual(results.map((r) => [r.id, r.outcome, r.attempts]), [
+    ["due", "sent", 2],
+  ]);
+  assert.deepEqual(env.requests, [JSON.stringify({ id: "due" })]);
+  const entries = await readOutboxEntries(env.outbox);
+  assert.deepEqual(entries.map((e) => e.id), ["waiting"]);
+  assert.equal(await env.reporter.nextOutboxAttempt(), later);
+});
+
+Deno.test("doubles the backoff after each failed retry", async () => {
+  await using env = await setup(() => new Response(null, { status: 500 }));
+  await writeOutboxEntry(env.outbox, entry("retry", { attempts: 2 }));
+  const before = Date.now();
+
+  const results = await env.reporter.flushOutbox();
+
+  assert.deepEqual(results.map((r) => [r.outcome, r.attempts]), [
+    ["spooled", 3],
+  ]);
+  const [spooled] = await readOutboxEntries(env.outbox);
+  assert.equal(spooled.attempts, 3);
+  // initialBackoffMs * 2 ** (attempts - 1)
+  assert.ok(spooled.nextAttemptAt >= before + 4000);
+  assert.ok(spooled.nextAttemptAt <= Date.now() + 4000);
+});
+
+Deno.test("discards entries older than maxAgeMs", async () => {
+  await using env = await setup(() => new Response(null, { status: 202 }), {
+    outbox: { maxAgeMs: 60_000 },
+  });
+  await writeOutboxEntry(
+    env.outbox,
+    entry("expired", { createdAt: Date.now() - 61_000 }),
+  );
+  await writeOutboxEntry(env.outbox, entry("fresh"));
+
+  const results = await env.reporter.flushOutbox();
+
+  assert.deepEqual(results.map((r) => [r.id, r.outcome]), [
+    ["expired", "expired"],
+    ["fresh", "sent"],
+  ]);
+  assert.deepEqual(env.requests, [JSON.stringify({ id: "fresh" })]);
+  assert.deepEqual(await readOutboxEntries(env.outbox), []);
+  assert.equal(await env.reporter.nextOutboxAttempt(), null);
+});
+
+Deno.test("evicts the oldest entries beyond maxEntries", async () => {
+  await using env = await setup(networkError, { outbox: { maxEntries: 2 } });
+  const now = Date.now();
+  await writeOutboxEntry(env.outbox, entry("oldest", { createdAt: now - 2 }));
+  await writeOutboxEntry(env.outbox, entry("older", { createdAt: now - 1 }));
+
+  await env.reporter.crashReport("Still down");
+
+  const spooled = env.results.find((r) => r.outcome === "spooled");
+  assert.ok(spooled);
+  assert.deepEqual(
+    env.results.map((r) => [r.id, r.outcome]),
+    [["oldest", "evicted"], [spooled.id, "spooled"]],
+  );
+  const entries = await readOutboxEntries(env.outbox);
+  assert.deepEqual(entries.map((e) => e.id), ["older", spooled.id]);
+});
@@ -0,0 +1,526 @@
+/**
+ * Crash Report Payload Schema.
+ *
+ * Shared definition of the JSON document POSTed by the reporter and stored by
+ * the collector. The hook, `crashReport` and the collector all build or read
+ * reports through the types and helpers in this module, so the structured
+ * shape documented in the README is the one that actually travels.
+ *
+ * Payloads carry a `schemaVersion`. Reporters up to version 0.8 sent no
+ * version, and their hook double-encoded reports as a JSON string inside
+ * `report.message`; `parseCrashReportPayload` upgrades that legacy form.
+ */
+
+import {
+  type Breadcrumb,
+  BREADCRUMB_LEVELS,
+  isBreadcrumbLevel,
+} from "./breadcrumbs.ts";
+import type { ScopeUser } from "./scope.ts";
+import type { StackFrame } from "./stack.ts";
+
+/** The payload schema version produced by this reporter. */
+export const PAYLOAD_SCHEMA_VERSION = 1;
+
+/** Maximum length of a tag key. */
+export const MAX_TAG_KEY_LENGTH = 32;
+/** Maximum length of a tag value. */
+export const MAX_TAG_VALUE_LENGTH = 200;
+/** Maximum number of tags per report. */
+export const MAX_TAGS = 50;
+/** Maximum length of the comment typed into the consent dialog. */
+export const MAX_USER_COMMENT_LENGTH = 5_000;
+
+/**
+ * A serialized `Error`, as produced by `serializeValueForReport`.
+ * Custom own properties of the error (like `code`) are kept as extra keys;
+ * `cause` and the `errors` of an `AggregateError` are serialized recursively.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  /** `stack` parsed into frames, innermost first. */
+  frames?: StackFrame[];
+  [key: string]: unknown;
+}
+
+/** Report for an uncaught error, captured by the hook's `error` listener. */
+export interface ErrorReport {
+  type: "error";
+  message: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  /** The serialized thrown value (not necessarily an `Error`). */
+  error: unknown;
+}
+
+/** Report for an unhandled promise rejection. */
+export interface UnhandledRejectionReport {
+  type: "unhandledrejection";
+  /** The serialized rejection reason. */
+  reason: unknown;
+}
+
+/** Report for a plain message, e.g. `crashReport("Something failed")`. */
+export interface MessageReport {
+  type: "message";
+  message: string;
+}
+
+/** Report for a supervised subprocess that crashed, see `superviseCommand`. */
+export interface SubprocessCrashReport {
+  type: "subprocess_crash";
+  /** E.g. `"indexer exited with code 1"`. */
+  message: string;
+  /** The name given to `superviseCommand`, or the command. */
+  name: string;
+  command: string;
+  args: string[];
+  /** The exit code. */
+  code: number;
+  /** The signal that killed the process, if any. */
+  signal: string | null;
+  /** The last lines the process wrote to stderr. */
+  stderrTail: string;
+}
+
+/** Report sent when the reporter itself fails while handling another report. */
+export interface ReporterInternalErrorReport {
+  type: "reporter_internal_error";
+  error: unknown;
+  original_report: unknown;
+}
+
+/**
+ * Any other structured report passed to `crashReport` by the application.
+ * `type` is optional but recommended.
+ */
+export interface CustomReport {
+  type?: string;
+  [key: string]: unknown;
+}
+
+/** The `report` section of a payload. */
+export type CrashReportContent =
+  | ErrorReport
+  | UnhandledRejectionReport
+  | MessageReport
+  | SubprocessCrashReport
+  | ReporterInternalErrorReport
+  | CustomReport;
+
+/** Information about the reporting application and its environment. */
+export interface ReporterInfo {
+  os: string;
+  arch: string;
+  denoVersion: string;
+  appName?: string;
+  appVersion?: string;
+  environment?: string;
+  [key: string]: unknown;
+}
+
+/** The complete JSON document POSTed to the collector. */
+export interface CrashReportPayload {
+  schemaVersion: number;
+  /** ISO 8601 timestamp of when the report was created. */
+  timestamp: string;
+  report: CrashReportContent;
+  reporterInfo: ReporterInfo;
+  /** Events leading up to the report, oldest first. */
+  breadcrumbs?: Breadcrumb[];
+  /** Indexed key/value tags, see `setTag`. */
+  tags?: Record<string, string>;
+  /** The affected user, see `setUser`. */
+  user?: ScopeUser;
+  /** Named groups of extra data, see `setContext`. */
+  contexts?: Record<string, Record<string, unknown>>;
+  /** What the user was doing, as typed into the consent dialog. */
+  userComment?: string;
+  /**
+   * Number of duplicate reports the reporter suppressed since the last report
+   * it sent, see `CrashReporterOptions.throttle`.
+   */
+  suppressedDuplicates?: number;
+}
+
+/**
+ * Normalizes whatever was passed to `crashReport` into a report object.
+ * Strings become message reports; objects are used as-is.
+ * @param reportContent The value passed to `crashReport`.
+ */
+export function toReportContent(reportContent: unknown): CrashReportContent {
+  if (typeof reportContent === "string") {
+    return { type: "message", message: reportContent };
+  }
+  if (isRecord(reportContent)) {
+    return reportContent;
+  }
+  return { type: "message", message: String(reportContent) };
+}
+
+/**
+ * Builds a payload for the current schema version.
+ * @param report The report section.
+ * @param reporterInfo Information about the reporting application.
+ */
+export function createCrashReportPayload(
+  report: CrashReportContent,
+  reporterInfo: ReporterInfo,
+): CrashReportPayload {
+  return {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    report,
+    reporterInfo,
+  };
+}
+
+/** A problem with one field of a received payload. */
+export interface PayloadFieldError {
+  /** Dotted path of the field, e.g. `reporterInfo.os` (`""` for the body itself). */
+  field: string;
+  message: string;
+}
+
+/** Result of `parseCrashReportPayload`. */
+export type PayloadParseResult =
+  | { ok: true; payload: CrashReportPayload }
+  | { ok: false; errors: PayloadFieldError[] };
+
+/** Optional string fields of `reporterInfo`. */
+const OPTIONAL_INFO_FIELDS = ["appName", "appVersion", "environment"] as const;
+/** Fields the collector adds to frames it resolved through a source map. */
+const RESOLVED_FRAME_FIELDS = [
+  "generated",
+  "preContext",
+  "contextLine",
+  "postContext",
+] as const;
+
+/**
+ * Validates a received JSON body and upgrades legacy payloads to the current
+ * schema:
+ * - A missing `schemaVersion` is treated as the legacy (unversioned) format.
+ *   Legacy payloads are validated leniently: a missing `reporterInfo` is
+ *   filled with `"unknown"` values.
+ * - A legacy `report` of the form `{ message: "<json>" }` holding a
+ *   stringified hook report is parsed back into the structured object.
+ * - Plain string reports become message reports.
+ *
+ * Versioned payloads are validated strictly, including the fields of the
+ * built-in report types. The fields the collector renders or indexes are
+ * validated in every payload: the stack frames of the thrown value and the
+ * breadcrumbs.
+ *
+ * @param data The parsed request body.
+ * @returns The payload in the current schema, or the list of invalid fields.
+ */
+export function parseCrashReportPayload(data: unknown): PayloadParseResult {
+  const errors: PayloadFieldError[] = [];
+  const fail = (field: string, message: string) => {
+    errors.push({ field, message });
+  };
+
+  if (!isRecord(data)) {
+    fail("", "must be a JSON object");
+    return { ok: false, errors };
+  }
+
+  const legacy = data.schemaVersion === undefined;
+  if (
+    !legacy &&
+    (!Number.isInteger(data.schemaVersion) ||
+      (data.schemaVersion as number) < 1 ||
+      (data.schemaVersion as number) > PAYLOAD_SCHEMA_VERSION)
+  ) {
+    fail(
+      "schemaVersion",
+      `unsupported version (expected 1 to ${PAYLOAD_SCHEMA_VERSION})`,
+    );
+  }
+
+  if (typeof data.timestamp !== "string") {
+    fail("timestamp", "is required and must be a string");
+  } else if (Number.isNaN(Date.parse(data.timestamp))) {
+    fail("timestamp", "must be an ISO 8601 date");
+  }
+
+  let report = data.report;
+  if (!("report" in data) || report === undefined || report === null) {
+    fail("report", "is required");
+  } else if (legacy) {
+    if (isLegacyEncodedReport(report)) {
+      report = parseLegacyMessage(report.message);
+    }
+    report = toReportContent(report);
+  } else if (!isRecord(report)) {
+    fail("report", "must be an object");
+  }
+  if (isRecord(report)) validateReportContent(report, fail);
+
+  let reporterInfo = data.reporterInfo;
+  if (legacy) {
+    const info = isRecord(reporterInfo) ? reporterInfo : {};
+    reporterInfo = {
+      ...info,
+      os: String(info.os ?? "unknown"),
+      arch: String(info.arch ?? "unknown"),
+      denoVersion: String(info.denoVersion ?? "unknown"),
+    };
+  }
+  if (!isRecord(reporterInfo)) {
+    fail("reporterInfo", "is required and must be an object");
+  } else {
+    for (const field of ["os", "arch", "denoVersion"]) {
+      if (typeof reporterInfo[field] !== "string") {
+        fail(`reporterInfo.${field}`, "is required and must be a string");
+      }
+    }
+    for (const field of OPTIONAL_INFO_FIELDS) {
+      if (
+        reporterInfo[field] !== undefined &&
+        typeof reporterInfo[field] !== "string"
+      ) {
+        fail(`reporterInfo.${field}`, "must be a string");
+      }
+    }
+  }
+
+  const { breadcrumbs } = data;
+  if (breadcrumbs !== undefined) validateBreadcrumbs(breadcrumbs, fail);
+
+  const { tags, user, contexts, userComment, suppressedDuplicates } = data;
+  if (tags !== undefined) validateTags(tags, fail);
+  if (user !== undefined && !isRecord(user)) {
+    fail("user", "must be an object");
+  }
+  if (contexts !== undefined) {
+    if (!isRecord(contexts)) {
+      fail("contexts", "must be an object");
+    } else {
+      for (const [name, context] of Object.entries(contexts)) {
+        if (!isRecord(context)) fail(`contexts.${name}`, "must be an object");
+      }
+    }
+  }
+
+  if (
+    userComment !== undefined &&
+    (typeof userComment !== "string" ||
+      userComment.length > MAX_USER_COMMENT_LENGTH)
+  ) {
+    fail(
+      "userComment",
+      `must be a string of at most ${MAX_USER_COMMENT_LENGTH} characters`,
+    );
+  }
+
+  if (
+    suppressedDuplicates !== undefined &&
+    (!Number.isSafeInteger(suppressedDuplicates) ||
+      (suppressedDuplicates as number) < 0)
+  ) {
+    fail("suppressedDuplicates", "must be a non-negative integer");
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  const payload: CrashReportPayload = {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    timestamp: data.timestamp as string,
+    report: report as CrashReportContent,
+    reporterInfo: reporterInfo as ReporterInfo,
+  };
+  if (breadcrumbs !== undefined) {
+    payload.breadcrumbs = breadcrumbs as Breadcrumb[];
+  }
+  if (tags !== undefined) payload.tags = tags as Record<string, string>;
+  if (user !== undefined) payload.user = user as ScopeUser;
+  if (contexts !== undefined) {
+    payload.contexts = contexts as Record<string, Record<string, unknown>>;
+  }
+  if (userComment !== undefined) payload.userComment = userComment as string;
+  if (suppressedDuplicates !== undefined) {
+    payload.suppressedDuplicates = suppressedDuplicates as number;
+  }
+  return { ok: true, payload };
+}
+
+/**
+ * Checks the `tags` of a payload. Tags are indexed by the collector, so the
+ * reporter's limits on their number and length are enforced.
+ */
+function validateTags(
+  tags: unknown,
+  fail: (field: string, message: string) => void,
+) {
+  if (!isRecord(tags)) {
+    fail("tags", "must be an object");
+    return;
+  }
+  const entries = Object.entries(tags);
+  if (entries.length > MAX_TAGS) {
+    fail("tags", `must not have more than ${MAX_TAGS} entries`);
+  }
+  for (const [key, value] of entries) {
+    if (key === "" || key.length > MAX_TAG_KEY_LENGTH) {
+      fail(
+        `tags.${key}`,
+        `key must have 1 to ${MAX_TAG_KEY_LENGTH} characters`,
+      );
+    } else if (
+      typeof value !== "string" || value.length > MAX_TAG_VALUE_LENGTH
+    ) {
+      fail(
+        `tags.${key}`,
+        `must be a string of at most ${MAX_TAG_VALUE_LENGTH} characters`,
+      );
+    }
+  }
+}
+
+/** Checks the fields of the built-in report types. */
+function validateReportContent(
+  report: Record<string, unknown>,
+  fail: (field: string, message: string) => void,
+) {
+  if (report.type !== undefined && typeof report.type !== "string") {
+    fail("report.type", "must be a string");
+    return;
+  }
+
+  switch (report.type) {
+    case "error":
+      if (typeof report.message !== "string") {
+        fail("report.message", "is required and must be a string");
+      }
+      if (
+        report.filename !== undefined && typeof report.filename !== "string"
+      ) {
+        fail("report.filename", "must be a string");
+      }
+      for (const field of ["lineno", "colno"]) {
+        if (report[field] !== undefined && typeof report[field] !== "number") {
+          fail(`report.${field}`, "must be a number");
+        }
+      }
+      if (!("error" in report)) fail("report.error", "is required");
+      break;
+    case "unhandledrejection":
+      if (!("reason" in report)) fail("report.reason", "is required");
+      break;
+    case "message":
+      if (typeof report.message !== "string") {
+        fail("report.message", "is required and must be a string");
+      }
+      break;
+  }
+
+  // The collector renders and source-maps the frames of the thrown value
+  const thrownField = report.error != null ? "error" : "reason";
+  const thrown = report[thrownField];
+  if (isRecord(thrown) && thrown.frames !== undefined) {
+    validateFrames(thrown.frames, `report.${thrownField}.frames`, fail);
+  }
+}
+
+/** Checks the stack frames of a serialized error, see `StackFrame`. */
+function validateFrames(
+  frames: unknown,
+  field: string,
+  fail: (field: string, message: string) => void,
+) {
+  if (!Array.isArray(frames)) {
+    fail(field, "must be an array");
+    return;
+  }
+  frames.forEach((frame, i) => {
+    const path = `${field}.${i}`;
+    if (!isRecord(frame)) {
+      fail(path, "must be an object");
+      return;
+    }
+    if (typeof frame.file !== "string") {
+      fail(`${path}.file`, "is required and must be a string");
+    }
+    if (frame.function !== undefined && typeof frame.function !== "string") {
+      fail(`${path}.function`, "must be a string");
+    }
+    for (const key of ["line", "column"]) {
+      if (frame[key] !== undefined && typeof frame[key] !== "number") {
+        fail(`${path}.${key}`, "must be a number");
+      }
+    }
+    if (typeof frame.inApp !== "boolean") {
+      fail(`${path}.inApp`, "is required and must be a boolean");
+    }
+    if (frame.async !== undefined && typeof frame.async !== "boolean") {
+      fail(`${path}.async`, "must be a boolean");
+    }
+    for (const key of RESOLVED_FRAME_FIELDS) {
+      if (key in frame) fail(`${path}.${key}`, "is set by the collector");
+    }
+  });
+}
+
+/** Checks the breadcrumbs of a payload, see `Breadcrumb`. */
+function validateBreadcrumbs(
+  breadcrumbs: unknown,
+  fail: (field: string, message: string) => void,
+) {
+  if (!Array.isArray(breadcrumbs)) {
+    fail("breadcrumbs", "must be an array");
+    return;
+  }
+  breadcrumbs.forEach((breadcrumb, i) => {
+    const path = `breadcrumbs.${i}`;
+    if (!isRecord(breadcrumb)) {
+      fail(path, "must be an object");
+      return;
+    }
+    const { timestamp, category, level, message, data } = breadcrumb;
+    if (typeof timestamp !== "string" || Number.isNaN(Date.parse(timestamp))) {
+      fail(`${path}.timestamp`, "is required and must be an ISO 8601 date");
+    }
+    if (typeof category !== "string") {
+      fail(`${path}.category`, "is required and must be a string");
+    }
+    if (level !== undefined && !isBreadcrumbLevel(level)) {
+      fail(`${path}.level`, `must be one of ${BREADCRUMB_LEVELS.join(", ")}`);
+    }
+    if (message !== undefined && typeof message !== "string") {
+      fail(`${path}.message`, "must be a string");
+    }
+    if (data !== undefined && !isRecord(data)) {
+      fail(`${path}.data`, "must be an object");
+    }
+  });
+}
+
+/** Checks for the legacy `{ message: string }` wrapper (and nothing else). */
+function isLegacyEncodedReport(
+  report: unknown,
+): report is { message: string } {
+  return isRecord(report) && typeof report.message === "string" &&
+    Object.keys(report).length === 1;
+}
+
+/**
+ * Parses the `message` of a legacy report. Stringified hook reports are
+ * restored; anything else stays a plain message.
+ */
+function parseLegacyMessage(message: string): CrashReportContent {
+  try {
+    const parsed = JSON.parse(message);
+    if (isRecord(parsed) && typeof parsed.type === "string") {
+      return parsed;
+    }
+  } catch (_) { /* Not JSON, keep it as a message */ }
+  return { type: "message", message };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -8,18 +8,38 @@
  * - Displaying a native GUI dialog (platform-specific) to ask the user for
  *   confirmation before sending a report.
  * - Formatting the final payload including timestamp and environment details.
- * - Sending the report payload as JSON to the configured backend endpoint via `fetch`.
+ * - Sending the report payload as JSON to the configured backend endpoint via
+ *   `fetch`, or as a Sentry envelope or OTLP logs request (see `./formats.ts`).
  * - Handling internal errors within the reporter itself.
  *
  * **Key Exports:**
  * - `CRASH_REPORT_BASE_URL`: The base URL read from the environment variable.
  * - `CRASH_REPORT_ENDPOINT`: The full URL endpoint (`/api/report` appended) where reports are sent.
- * - `crashReport(reportContent)`: Function to initiate the reporting process.
+ * - `createCrashReporter(options)`: Creates an independent reporter instance.
+ * - `configureCrashReporter(options)`: Replaces the default reporter used by
+ *   `crashReport` and the hook.
+ * - `crashReport(reportContent)`: Function to initiate the reporting process
+ *   with the default reporter.
+ * - `setTag`, `setUser`, `setContext`, `setRelease`, `setEnvironment` and
+ *   `withScope`: Context merged into every report (see `./scope.ts`).
+ * - `onCrashExit(callback)`: Cleanup run before the hook exits the process
+ *   (see `./exit.ts`).
+ * - `addContextProvider(provider)`: Adds a section to the `reporterInfo` of
+ *   every report (see `./runtime_info.ts`).
+ * - `monitorWorker(worker)` and `superviseCommand(command, options)`: Report
+ *   crashes of workers and child processes (see `./supervise.ts`).
+ * - `crashReportFormat`, `sentryEnvelopeFormat` and `otlpLogsFormat`: Wire
+ *   formats for `CrashReporterOptions.format`, to send reports to Sentry or
+ *   an OpenTelemetry collector instead.
+ *
+ * The environment variables only provide defaults: anything passed to
+ * `configureCrashReporter` / `createCrashReporter` takes precedence, so a
+ * compiled binary can ship with a baked-in endpoint.
  *
  * @example
  * ```typescript
  * // This example shows *manual* triggering, usually you'd import the hook instead.
- * import { crashReport, CRASH_REPORT_ENDPOINT } from "jsr:@sigmasd/crash-report/reporter";
+ * import { crashReport, CRASH_REPORT_ENDPOINT } from "jsr:@sigmasd/crash-report";
  *
  * // Ensure CRASH_REPORT_BASE_URL is set in the environment
  * // export CRASH_REPORT_BASE_URL="https://your-report-server.com"
@@ -51,10 +71,165 @@
  * // NOTE: For automatic reporting of *uncaught* errors/rejections,
  * // simply import the hook at the start of your app:
  * // import "jsr:@sigmasd/crash-report/hook";
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Configuring the reporter in code instead of through the environment.
+ * import "jsr:@sigmasd/crash-report/hook";
+ * import { configureCrashReporter } from "jsr:@sigmasd/crash-report";
+ *
+ * configureCrashReporter({
+ *   endpoint: "https://your-report-server.com/api/report",
+ *   appName: "my-app",
+ *   appVersion: "1.2.3",
+ * });
+ * ```
  */
 
+import {
+  type Breadcrumb,
+  getBreadcrumbs,
+  SKIP_BREADCRUMB,
+  type UnrecordedRequestInit,
+} from "./breadcrumbs.ts";
+import {
+  type ConsentDecision,
+  type ConsentPolicy,
+  defaultConsentFile,
+  readConsentDecision,
+  writeConsentDecision,
+} from "./consent.ts";
+import {
+  type ConsentAnswer,
+  type ConsentPrompt,
+  defaultDialogBackends,
+  type DialogBackend,
+  runDialogChain,
+} from "./dialog.ts";
+import type { HookOptions, HookPolicy } from "./exit.ts";
+import { crashReportFormat, type ReportFormat } from "./formats.ts";
+import {
+  enforceOutboxLimit,
+  nextAttemptTime,
+  type OutboxEntry,
+  type OutboxOptions,
+  readOutboxEntries,
+  removeOutboxEntry,
+  type ResolvedOutboxOptions,
+  resolveOutboxOptions,
+  writeOutboxEntry,
+} from "./outbox.ts";
+import {
+  type CrashReportPayload,
+  createCrashReportPayload,
+  type ReporterInternalErrorReport,
+  toReportContent,
+} from "./payload.ts";
+import {
+  collectContextSections,
+  type ReporterInfoOptions,
+} from "./runtime_info.ts";
+import { getScopeData, type ScopeData } from "./scope.ts";
+import {
+  type ResolvedScrubOptions,
+  resolveScrubOptions,
+  type ScrubOptions,
+  scrubPayload,
+} from "./scrub.ts";
+import {
+  createThrottle,
+  resolveThrottleOptions,
+  type Throttle,
+  type ThrottleOptions,
+} from "./throttle.ts";
 import { serializeValueForReport } from "./utils.ts";
 
+export type {
+  Breadcrumb,
+  BreadcrumbInput,
+  BreadcrumbLevel,
+  BreadcrumbOptions,
+} from "./breadcrumbs.ts";
+export {
+  addBreadcrumb,
+  clearBreadcrumbs,
+  configureBreadcrumbs,
+} from "./breadcrumbs.ts";
+export type { ConsentDecision, ConsentPolicy } from "./consent.ts";
+export type {
+  ConsentAnswer,
+  ConsentPrompt,
+  DialogBackend,
+  ScriptedDialogBackend,
+  ScriptedDialogStep,
+} from "./dialog.ts";
+export {
+  createScriptedDialogBackend,
+  defaultDialogBackends,
+  kdialogBackend,
+  notifySendBackend,
+  osascriptBackend,
+  powershellBackend,
+  terminalBackend,
+  yadBackend,
+  zenityBackend,
+} from "./dialog.ts";
+export type {
+  CrashExitCallback,
+  HookDecider,
+  HookDecision,
+  HookEvent,
+  HookOptions,
+  HookPolicy,
+} from "./exit.ts";
+export { onCrashExit } from "./exit.ts";
+export type { ReportFormat } from "./formats.ts";
+export {
+  crashReportFormat,
+  otlpLogsFormat,
+  sentryEnvelopeFormat,
+} from "./formats.ts";
+export type { OutboxOptions } from "./outbox.ts";
+export type {
+  BuiltinContextSection,
+  ContextProvider,
+  ReporterInfoOptions,
+} from "./runtime_info.ts";
+export { addContextProvider } from "./runtime_info.ts";
+export type { ScopeData, ScopeUser } from "./scope.ts";
+export {
+  setContext,
+  setEnvironment,
+  setRelease,
+  setTag,
+  setUser,
+  withScope,
+} from "./scope.ts";
+export type { ScrubOptions } from "./scrub.ts";
+export type {
+  MonitorWorkerOptions,
+  SuperviseCommandOptions,
+  SupervisedProcess,
+} from "./supervise.ts";
+export type { WorkerCrashMessage } from "./worker_message.ts";
+export { monitorWorker, superviseCommand } from "./supervise.ts";
+export type { ThrottleOptions } from "./throttle.ts";
+export { DEFAULT_SCRUB_KEYS, DEFAULT_SCRUB_PATTERNS } from "./scrub.ts";
+export type {
+  CrashReportContent,
+  CrashReportPayload,
+  CustomReport,
+  ErrorReport,
+  MessageReport,
+  ReporterInfo,
+  ReporterInternalErrorReport,
+  SerializedError,
+  SubprocessCrashReport,
+  UnhandledRejectionReport,
+} from "./payload.ts";
+export { PAYLOAD_SCHEMA_VERSION } from "./payload.ts";
+
 /**
  * The base URL for the crash report server, read from the
  * `CRASH_REPORT_BASE_URL` environment variable. Trailing slashes are removed.
@@ -68,27 +243,379 @@ export const CRASH_REPORT_BASE_URL: string | undefined = Deno.env.get(
  * The full endpoint URL where crash reports will be POSTed.
  * Constructed by appending `/api/report` to `CRASH_REPORT_BASE_URL`.
  * Will be `null` if `CRASH_REPORT_BASE_URL` is not set, effectively disabling reporting.
+ * This is only the default endpoint; see `CrashReporterOptions.endpoint`.
  */
 export const CRASH_REPORT_ENDPOINT: string | null = CRASH_REPORT_BASE_URL
   ? `${CRASH_REPORT_BASE_URL}/api/report`
   : null; // Make it nullable if base url isn't set
 
-const textDecoder = new TextDecoder(); // Reuse decoder
+/**
+ * A callback deciding whether a report may be sent. It receives the report
+ * content passed to `crashReport` and the payload that would be sent, and
+ * resolves to `true` to send it.
+ */
+export type ConsentCallback = (
+  reportContent: unknown,
+  payload: CrashReportPayload,
+) => boolean | Promise<boolean>;
+
+/**
+ * A `fetch`-compatible function used to deliver reports. Useful to route
+ * reports through a proxy or to capture them in tests.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * A hook called with every payload after scrubbing, before the user is asked
+ * for consent (so the dialog shows its result). It may return a modified
+ * payload, or `null` to drop the report without asking.
+ */
+export type BeforeSendHook = (
+  payload: CrashReportPayload,
+) => CrashReportPayload | null | Promise<CrashReportPayload | null>;
+
+/**
+ * The outcome of a single delivery attempt (or outbox housekeeping step):
+ * - `"sent"`: The collector accepted the report.
+ * - `"rejected"`: The collector refused the report (`4xx`); it is not retried.
+ * - `"failed"`: Delivery failed and the report could not be spooled.
+ * - `"spooled"`: Delivery failed and the report was kept in the outbox for a retry.
+ * - `"expired"`: A spooled report exceeded the maximum age and was discarded.
+ * - `"evicted"`: A spooled report was discarded to respect the maximum spool size.
+ */
+export type DeliveryOutcome =
+  | "sent"
+  | "rejected"
+  | "failed"
+  | "spooled"
+  | "expired"
+  | "evicted";
+
+/**
+ * Describes what happened to a report, passed to `CrashReporterOptions.onDelivery`.
+ */
+export interface DeliveryResult {
+  /** Unique id of the report (also its outbox file name). */
+  id: string;
+  /** What happened to the report. */
+  outcome: DeliveryOutcome;
+  /** Number of delivery attempts made so far. */
+  attempts: number;
+  /** Whether the report was read back from the outbox. */
+  fromOutbox: boolean;
+  /** HTTP status returned by the collector, if a response was received. */
+  status?: number;
+  /** Error message for network/transport failures. */
+  error?: string;
+}
+
+/**
+ * Options accepted by `createCrashReporter` and `configureCrashReporter`.
+ * Every field is optional; omitted fields fall back to the environment.
+ */
+export interface CrashReporterOptions {
+  /**
+   * Full URL reports are POSTed to. Defaults to `CRASH_REPORT_ENDPOINT`.
+   * Pass `null` to disable sending. A DSN-style URL with the ingest key as
+   * user name (`https://<key>@host/api/report`) sets `ingestKey` as well.
+   */
+  endpoint?: string | null;
+  /**
+   * Project ingest key, sent as `Authorization: Bearer <key>` (or as `format`
+   * requires). Required when the collector has ingest keys configured.
+   */
+  ingestKey?: string;
+  /** Application name, included in `reporterInfo`. */
+  appName?: string;
+  /**
+   * Application version, included in `reporterInfo`. A release set with
+   * `setRelease` takes precedence.
+   */
+  appVersion?: string;
+  /**
+   * Deployment environment (e.g. `"production"`), included in `reporterInfo`.
+   * An environment set with `setEnvironment` takes precedence.
+   */
+  environment?: string;
+  /** Consent policy or callback. Defaults to `"ask"`. */
+  consent?: ConsentPolicy | ConsentCallback;
+  /**
+   * What the `"ask"` policies do when nobody can be asked: no display and
+   * no terminal (a service, CI, output piped to a file), or the dialog
+   * could not be shown. Defaults to `"never"`.
+   */
+  unattendedConsent?: ConsentDecision;
+  /**
+   * How the `"ask"` policies ask: the backends are tried in order, skipping
+   * unavailable or failing ones, until one gets an answer. Defaults to
+   * `defaultDialogBackends()`: the platform's native dialog (on Linux zenity,
+   * kdialog, yad or a notify-send notification), then a terminal prompt.
+   */
+  dialogs?: DialogBackend[];
+  /**
+   * File storing the decision of the `"ask-once-and-remember"` policy.
+   * Defaults to `crash-report/<appName>/consent.json` inside the user's
+   * config directory. Requires read/write permissions for it.
+   */
+  consentFile?: string;
+  /** Function used to POST reports. Defaults to the global `fetch`. */
+  transport?: Transport;
+  /**
+   * How reports are encoded and the ingest key is sent. Defaults to
+   * `crashReportFormat`, for the collector's `/api/report`. Use
+   * `sentryEnvelopeFormat` with a Sentry DSN as `endpoint`, or
+   * `otlpLogsFormat` with the URL of an OpenTelemetry collector.
+   */
+  format?: ReportFormat;
+  /**
+   * Keep undeliverable reports in a local spool directory and retry them on
+   * the next flush. `true` enables the outbox with default settings.
+   * Disabled by default. Requires read/write permissions for the directory.
+   */
+  outbox?: boolean | OutboxOptions;
+  /**
+   * Suppress duplicate reports (same fingerprint within a time window, also
+   * across restarts), sample reports and cap the reports per process. `true`
+   * enables deduplication with default settings. Disabled by default. The
+   * deduplication state file requires read/write permissions.
+   */
+  throttle?: boolean | ThrottleOptions;
+  /** Called with the outcome of every delivery attempt. */
+  onDelivery?: (result: DeliveryResult) => void;
+  /**
+   * Redact sensitive data (secret-looking keys, e-mail addresses, tokens, IP
+   * addresses, the home directory) before reports leave the machine.
+   * Enabled by default; pass `false` to disable or options to customize.
+   * Redacting the home directory requires `--allow-env=HOME`
+   * (`USERPROFILE` on Windows).
+   */
+  scrub?: boolean | ScrubOptions;
+  /**
+   * Called with every payload after scrubbing, before the user is asked for
+   * consent. Return a modified payload, or `null` to drop the report. If the
+   * hook throws, the report is dropped. The user's comment is added after it.
+   */
+  beforeSend?: BeforeSendHook;
+  /**
+   * Attach the recorded breadcrumbs (see `addBreadcrumb` and
+   * `configureBreadcrumbs`) to reports. Defaults to `true`.
+   */
+  breadcrumbs?: boolean;
+  /**
+   * Sections added to `reporterInfo` (memory, uptime, CLI args, permissions,
+   * ...): set a section to `false` to leave it out, or `hostname: true` to
+   * include the host name. `providers` adds custom sections. See
+   * `./runtime_info.ts` for the list.
+   */
+  reporterInfo?: ReporterInfoOptions;
+  /**
+   * What the hook does after reporting an uncaught error or an unhandled
+   * rejection: `"exit"` (the default), `"continue"`, a callback deciding per
+   * event, or options setting a policy per event type, the exit code and the
+   * timeout of the `onCrashExit` callbacks.
+   */
+  hook?: HookPolicy | HookOptions;
+}
+
+/**
+ * A configured crash reporter instance, as returned by `createCrashReporter`.
+ */
+export interface CrashReporter {
+  /** The endpoint reports are sent to, or `null` if reporting is disabled. */
+  readonly endpoint: string | null;
+  /** The options this reporter was created with, after applying defaults. */
+  readonly options: Readonly<CrashReporterOptions>;
+  /**
+   * Asks for consent according to the configured policy and sends the report.
+   * See the module-level `crashReport` for the accepted inputs.
+   */
+  crashReport(reportContent: unknown): Promise<void>;
+  /**
+   * Retries the reports waiting in the outbox whose backoff delay has elapsed,
+   * and discards expired ones. Does nothing if the outbox is disabled.
+   * @returns The outcome for every processed entry.
+   */
+  flushOutbox(): Promise<DeliveryResult[]>;
+  /**
+   * Returns when the next spooled report is due for a retry, e.g. to
+   * schedule the next `flushOutbox` call.
+   * @returns The earliest retry time (ms since epoch), or `null` if the
+   * outbox is disabled or empty.
+   */
+  nextOutboxAttempt(): Promise<number | null>;
+  /**
+   * Returns the decision remembered by the `"ask-once-and-remember"` policy,
+   * e.g. to show it in the application's settings.
+   * @returns `"always"`, `"never"`, or `null` if the user was not asked yet.
+   */
+  getConsentDecision(): Promise<ConsentDecision | null>;
+  /**
+   * Changes the remembered decision; `null` forgets it, so the user is
+   * asked again on the next report.
+   */
+  setConsentDecision(decision: ConsentDecision | null): Promise<void>;
+}
+
+/** Reporter options after defaults have been applied. */
+interface ReporterConfig extends CrashReporterOptions {
+  endpoint: string | null;
+  consent: ConsentPolicy | ConsentCallback;
+  unattendedConsent: ConsentDecision;
+  dialogs: DialogBackend[];
+  transport: Transport;
+  format: ReportFormat;
+  /** The resolved outbox settings, `null` if disabled. */
+  spool: ResolvedOutboxOptions | null;
+  /** The resolved scrubbing settings, `null` if disabled. */
+  scrubber: ResolvedScrubOptions | null;
+  /** Deduplication, sampling and session cap state, `null` if disabled. */
+  throttler: Throttle | null;
+}
+
+/** Context captured when a report is triggered, attached to the payload. */
+interface ReportContext {
+  breadcrumbs: Breadcrumb[];
+  scope: ScopeData;
+}
+
+/**
+ * Creates a new reporter instance. The instance is independent from the
+ * default reporter used by `crashReport` and the hook.
+ * @param options Reporter options; omitted fields fall back to the environment.
+ * @returns The reporter instance.
+ */
+export function createCrashReporter(
+  options: CrashReporterOptions = {},
+): CrashReporter {
+  const format = options.format ?? crashReportFormat;
+  const { endpoint, ingestKey } = parseEndpoint(
+    options.endpoint === undefined ? CRASH_REPORT_ENDPOINT : options.endpoint,
+    format,
+  );
+  const config: ReporterConfig = {
+    ...options,
+    endpoint,
+    ingestKey: options.ingestKey ?? ingestKey,
+    consent: options.consent ?? "ask",
+    unattendedConsent: options.unattendedConsent ?? "never",
+    dialogs: options.dialogs ?? defaultDialogBackends(),
+    // Resolve `fetch` lazily so later patches of the global are honored
+    transport: options.transport ?? ((url, init) => fetch(url, init)),
+    format,
+    spool: resolveOutboxOptions(options.outbox, options.appName),
+    scrubber: resolveScrubOptions(options.scrub),
+    throttler: null,
+  };
+  const throttle = resolveThrottleOptions(options.throttle, options.appName);
+  if (throttle) config.throttler = createThrottle(throttle);
+
+  return {
+    endpoint: config.endpoint,
+    options: config,
+    crashReport: (reportContent) => runCrashReport(config, reportContent),
+    flushOutbox: () => flushOutbox(config),
+    nextOutboxAttempt: () => nextOutboxAttempt(config),
+    getConsentDecision: () => getConsentDecision(config),
+    setConsentDecision: (decision) => setConsentDecision(config, decision),
+  };
+}
+
+/**
+ * Splits a DSN-style endpoint into the plain URL and the embedded ingest key.
+ * `fetch` refuses URLs with credentials, so the key has to be moved to a header.
+ * The plain URL is then resolved by the wire format, e.g. a Sentry DSN into
+ * its envelope URL.
+ * @param endpoint The configured endpoint.
+ * @param format The wire format.
+ */
+function parseEndpoint(
+  endpoint: string | null,
+  format: ReportFormat,
+): { endpoint: string | null; ingestKey?: string } {
+  if (!endpoint) return { endpoint };
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch (_) {
+    return { endpoint }; // Leave invalid URLs for fetch to complain about
+  }
+
+  let ingestKey: string | undefined;
+  if (url.username || url.password) {
+    ingestKey = decodeURIComponent(url.password || url.username);
+    url.username = "";
+    url.password = "";
+  }
+  return {
+    endpoint: format.resolveEndpoint?.(url.href) ?? url.href,
+    ingestKey,
+  };
+}
+
+let defaultReporter: CrashReporter | undefined;
+
+/**
+ * Creates a reporter and installs it as the default one, used by
+ * `crashReport` and by the hook.
+ * @param options Reporter options; omitted fields fall back to the environment.
+ * @returns The newly installed default reporter.
+ */
+export function configureCrashReporter(
+  options: CrashReporterOptions,
+): CrashReporter {
+  defaultReporter = createCrashReporter(options);
+  return defaultReporter;
+}
+
+/**
+ * Returns the default reporter. If `configureCrashReporter` was never called,
+ * a reporter configured purely from the environment is created on first use.
+ */
+export function getCrashReporter(): CrashReporter {
+  return defaultReporter ??= createCrashReporter();
+}
 
 /**
- * Submits a crash report after showing a confirmation dialog to the user.
+ * Submits a crash report through the default reporter, after showing a
+ * confirmation dialog to the user (unless configured otherwise).
  *
  * @param reportContent The report data to send - can be:
  *   - An object: Will be sent as structured data
+ *   - An `Error`: Will be sent like an uncaught error (`type: "error"`)
  *   - A string: Will be sent as a message
  *   - Other types will be converted appropriately
  * @returns A Promise that resolves when the reporting process is complete
  */
-export async function crashReport(
+export function crashReport(reportContent: unknown): Promise<void> {
+  return getCrashReporter().crashReport(reportContent);
+}
+
+/**
+ * Runs the reporting process for a reporter instance.
+ * @param config The reporter configuration.
+ * @param reportContent The report data to send.
+ */
+async function runCrashReport(
+  config: ReporterConfig,
   reportContent: unknown,
 ): Promise<void> {
+  // Snapshot first, so the reporter's own logging below is not included
+  const context: ReportContext = {
+    breadcrumbs: config.breadcrumbs === false ? [] : getBreadcrumbs(),
+    scope: getScopeData(reportContent),
+  };
   console.error("--- Crash Reporter Initializing ---");
 
+  // Errors, cycles, Maps, BigInts, ... become JSON-safe data. A bare Error is
+  // reported like an uncaught one.
+  const report = reportContent instanceof Error
+    ? {
+      type: "error",
+      message: reportContent.message,
+      error: serializeValueForReport(reportContent),
+    }
+    : serializeValueForReport(reportContent);
+
   try {
     // Convert to string for logging purposes
     let reportContentString: string;
@@ -98,16 +625,8 @@ export async function crashReport(
     } else if (reportContent === undefined || reportContent === null) {
       reportContentString = "Empty report (undefined or null)";
     } else if (typeof reportContent === "object") {
-      try {
-        // Format JSON with indentation for better readability in logs
-        reportContentString = JSON.stringify(reportContent, null, 2);
-      } catch (err) {
-        // Handle circular references or other serialization issues
-        reportContentString = `Error serializing report object: ${
-          err instanceof Error ? err.message : String(err)
-        }
-Original object type: ${typeof reportContent}`;
-      }
+      // Format JSON with indentation for better readability in logs
+      reportContentString = JSON.stringify(report, null, 2);
     } else {
       // Handle primitive values
       reportContentString = String(reportContent);
@@ -117,9 +636,11 @@ Original object type: ${typeof reportContent}`;
       !reportContentString || reportContentString.trim() === "" ||
       reportContentString.trim() === "{}"
     ) {
-      console.error("--- Received empty or minimal report data. Exiting. ---");
-      // Still exit with error code, as an error occurred to trigger this.
-      Deno.exit(1);
+      // Nothing to send; whether the process exits is up to the exit policy
+      // of the hook (see ./exit.ts), not to the reporter
+      console.error(
+        "--- Received empty or minimal report data, not sending. ---",
+      );
       return;
     }
 
@@ -128,15 +649,45 @@ Original object type: ${typeof reportContent}`;
     console.error(reportContentString);
     console.error("---------------------------\n");
 
-    // Show GUI confirmation dialog
-    const confirmed = await showConfirmationDialog();
+    // Build the payload first, so the dialog can show exactly what is sent
+    const payload = await preparePayload(config, report, context);
+    if (!payload) return;
+
+    // Drop duplicates before bothering the user again
+    let suppressed = 0;
+    let fingerprint: string | undefined;
+    if (config.throttler) {
+      const decision = await config.throttler.check(payload);
+      if (!decision.ok) {
+        console.log(
+          `Report suppressed (${decision.reason}, fingerprint ${decision.fingerprint}).`,
+        );
+        return;
+      }
+      fingerprint = decision.fingerprint;
+      suppressed = await config.throttler.suppressedCount();
+      if (suppressed > 0) payload.suppressedDuplicates = suppressed;
+    }
+
+    // Ask for consent (GUI confirmation dialog by default)
+    const answer = await resolveConsent(config, reportContent, payload);
 
     // Handle the response
-    if (confirmed) {
-      console.log("User accepted via GUI. Attempting to send report...");
-      await sendReport(reportContent); // Pass the original content
+    if (answer.choice === "send" || answer.choice === "always") {
+      console.log("Report approved. Attempting to send report...");
+      if (answer.comment) payload.userComment = answer.comment;
+      const result = await sendPayload(config, payload);
+      // Only a report that reached the collector (or the outbox) counts for
+      // deduplication and carried the suppressed duplicates
+      if (
+        config.throttler && fingerprint &&
+        (result?.outcome === "sent" || result?.outcome === "spooled")
+      ) {
+        await config.throttler.commit(fingerprint);
+        await config.throttler.acknowledgeSuppressed(suppressed);
+      }
     } else {
-      console.log("User declined via GUI or dialog failed. Report not sent.");
+      console.log("Report declined or dialog failed. Report not sent.");
     }
   } catch (err) {
     console.error(
@@ -144,16 +695,16 @@ Original object type: ${typeof reportContent}`;
       err instanceof Error ? err.stack : err,
     );
     // Optionally try to send the reporter's own error (without GUI confirmation)
-    if (CRASH_REPORT_ENDPOINT) { // Check if sending is possible
+    if (config.endpoint) { // Check if sending is possible
       try {
-        const internalErrorReport = {
+        const internalErrorReport: ReporterInternalErrorReport = {
           type: "reporter_internal_error",
           error: serializeValueForReport(err),
-          original_report: reportContent,
+          original_report: report,
         };
         console.error("Attempting to send internal error report...");
         // Send directly without confirmation
-        await sendReportInternal(internalErrorReport);
+        await sendReportInternal(config, internalErrorReport, context);
         console.error("Attempted to send internal error report.");
       } catch (sendErr) {
         console.error(
@@ -168,204 +719,255 @@ Original object type: ${typeof reportContent}`;
 }
 
 /**
- * Shows a platform-specific GUI dialog asking for confirmation.
- * @returns Promise<boolean> True if the user confirmed, false otherwise.
+ * Decides whether a report may be sent, according to the consent policy.
+ * @param config The reporter configuration.
+ * @param reportContent The report data, passed to consent callbacks.
+ * @param payload The payload that will be sent, shown by the dialogs.
+ * @returns The answer: `"send"` or `"always"` if the report may be sent,
+ *   with the user's comment, if any.
  */
-async function showConfirmationDialog(): Promise<boolean> {
-  const title = "Crash Report";
-  // Keep the message generic, as showing raw details isn't very user-friendly in a dialog.
-  const message =
-    `An application error occurred.\n\nDetails have been printed to the console/terminal.\n\nDo you want to send an anonymous crash report to help improve the application?`;
-  const sendButton = "Send Report";
-  const cancelButton = "Don't Send";
+async function resolveConsent(
+  config: ReporterConfig,
+  reportContent: unknown,
+  payload: CrashReportPayload,
+): Promise<ConsentAnswer> {
+  if (typeof config.consent === "function") {
+    const confirmed = await config.consent(reportContent, payload);
+    return { choice: confirmed ? "send" : "skip" };
+  }
+  switch (config.consent) {
+    case "always":
+      console.log("Consent policy is 'always', sending without asking.");
+      return { choice: "send" };
+    case "never":
+      console.log("Consent policy is 'never', not sending.");
+      return { choice: "skip" };
+  }
 
-  try {
-    let command: Deno.Command;
-    let successCondition: (output: Deno.CommandOutput) => boolean;
-
-    switch (Deno.build.os) {
-      case "windows": {
-        console.log("Using PowerShell for dialog...");
-        const psCommand = `
-                    Add-Type -AssemblyName System.Windows.Forms;
-                    $result = [System.Windows.Forms.MessageBox]::Show('${
-          message.replace(/'/g, "''") // Basic escaping for PowerShell string
-        }', '${
-          title.replace(/'/g, "''")
-        }', [System.Windows.Forms.MessageBoxButtons]::YesNo, [System.Windows.Forms.MessageBoxIcon]::Warning, [System.Windows.Forms.MessageBoxDefaultButton]::Button1);
-                    if ($result -eq 'Yes') { exit 0 } else { exit 1 }
-                `;
-        command = new Deno.Command("powershell", {
-          args: ["-NoProfile", "-Command", psCommand],
-          stdin: "null",
-          stdout: "piped", // Capture stdout to check if needed
-          stderr: "piped",
-        });
-        // Success is exit code 0
-        successCondition = (output) => output.success;
-        break;
-      }
+  const remember = config.consent === "ask-once-and-remember";
+  if (remember) {
+    const decision = await getConsentDecision(config);
+    if (decision) {
+      console.log(`Using remembered consent decision '${decision}'.`);
+      return { choice: decision === "always" ? "send" : "skip" };
+    }
+  }
 
-      case "darwin": // macOS
-      {
-        console.log("Using osascript for dialog...");
-        const appleScript = `display dialog "${message.replace(/"/g, '\\"') // Basic escaping for AppleScript string
-        }" with title "${
-          title.replace(/"/g, '\\"')
-        }" buttons {"${cancelButton}", "${sendButton}"} default button "${sendButton}" with icon caution
-                    set the button_pressed to button returned of the result
-                    if button_pressed is "${sendButton}" then
-                        return 0 -- Convention for success
-                    else
-                        error number -128 -- Standard cancel code
-                    end if`;
-        command = new Deno.Command("osascript", {
-          args: ["-e", appleScript],
-          stdin: "null",
-          stdout: "piped", // Capture stdout just in case
-          stderr: "piped",
-        });
-        // Success is exit code 0 (osascript error -128 means user cancelled)
-        successCondition = (output) => output.success;
-        break;
-      }
+  const answer = await askForConsent(config, {
+    remember,
+    details: JSON.stringify(payload, null, 2),
+  });
+  if (remember && (answer.choice === "always" || answer.choice === "never")) {
+    await setConsentDecision(config, answer.choice);
+  }
+  return answer;
+}
 
-      case "linux": {
-        console.log(
-          "Using zenity for dialog (requires zenity to be installed)...",
-        );
-        command = new Deno.Command("zenity", {
-          args: [
-            "--question",
-            "--title",
-            title,
-            "--text",
-            message,
-            "--ok-label",
-            sendButton,
-            "--cancel-label",
-            cancelButton,
-            "--icon=dialog-warning",
-            "--width=400", // Optional: set a width
-          ],
-          stdin: "null",
-          stdout: "null", // Zenity uses exit code for result
-          stderr: "piped",
-        });
-        // Success is exit code 0
-        successCondition = (output) => output.success;
-        break;
-      }
-      default: {
-        console.warn(
-          `Unsupported OS (${Deno.build.os}) for GUI dialog. Falling back to console prompt.`,
-        );
-        return confirm(`${message}\nSend report?`);
-      }
-    }
+/**
+ * Asks the user through the first dialog backend that can ask. When nobody
+ * can be asked, the `unattendedConsent` default applies.
+ * @param config The reporter configuration.
+ * @param prompt What to show.
+ */
+async function askForConsent(
+  config: ReporterConfig,
+  prompt: ConsentPrompt,
+): Promise<ConsentAnswer> {
+  const answer = await runDialogChain(config.dialogs, prompt);
+  if (answer) return answer;
+  console.log(
+    `Nobody can be asked for consent (no dialog or terminal available), applying unattendedConsent '${config.unattendedConsent}'.`,
+  );
+  return { choice: config.unattendedConsent === "always" ? "send" : "skip" };
+}
 
-    // Execute the command
-    console.log("Waiting for user response in dialog...");
-    const output = await command.output(); // Use output() to wait and get result
+/**
+ * Reads the remembered consent decision of a reporter.
+ * @returns The decision, or `null` if none is stored or it cannot be read.
+ */
+async function getConsentDecision(
+  config: ReporterConfig,
+): Promise<ConsentDecision | null> {
+  try {
+    return await readConsentDecision(consentFile(config));
+  } catch (err) {
+    console.error(
+      "Failed to read the remembered consent decision:",
+      err instanceof Error ? err.message : err,
+    );
+    return null;
+  }
+}
 
-    if (successCondition(output)) {
-      console.log("Dialog confirmed by user.");
-      return true; // User confirmed
-    } else {
-      const stderr = textDecoder.decode(output.stderr).trim();
-      // Check for specific cancel codes or messages if needed (e.g., osascript error -128)
-      if (!output.success || stderr) { // If failed or has stderr
-        if (stderr) {
-          console.error(
-            `Dialog command failed or was cancelled. Code: ${output.code}, Stderr: ${stderr}`,
-          );
-        } else {
-          console.log(
-            `Dialog command exited with code ${output.code} (likely cancelled by user).`,
-          );
-        }
-      } else {
-        console.log("Dialog cancelled by user.");
-      }
-      return false; // User cancelled or command failed
-    }
+/**
+ * Stores (or forgets, with `null`) the consent decision of a reporter.
+ */
+async function setConsentDecision(
+  config: ReporterConfig,
+  decision: ConsentDecision | null,
+): Promise<void> {
+  try {
+    await writeConsentDecision(consentFile(config), decision);
   } catch (err) {
-    console.error("--------------------------------------------------");
-    console.error("FATAL: Failed to display or execute GUI dialog command.");
-    if (err instanceof Deno.errors.NotFound) {
-      console.error(
-        "=> The required dialog command (e.g., zenity, powershell, osascript) might not be installed or found in the system's PATH.",
-      );
-    } else {
+    console.error(
+      "Failed to store the consent decision:",
+      err instanceof Error ? err.message : err,
+    );
+  }
+}
+
+function consentFile(config: ReporterConfig): string {
+  return config.consentFile ?? defaultConsentFile(config.appName);
+}
+
+/**
+ * Builds the payload for a report: attaches the breadcrumbs and scope, then
+ * applies scrubbing and the `beforeSend` hook.
+ * @param config The reporter configuration.
+ * @param reportContent The report content (object or string).
+ * @param context The breadcrumbs and scope to attach.
+ * @returns The payload, or `null` if `beforeSend` dropped it.
+ */
+async function preparePayload(
+  config: ReporterConfig,
+  reportContent: unknown,
+  context: ReportContext,
+): Promise<CrashReportPayload | null> {
+  const { breadcrumbs, scope } = context;
+  // Strings are wrapped as message reports, objects are used as-is
+  let payload: CrashReportPayload | null = createCrashReportPayload(
+    toReportContent(reportContent),
+    {
+      os: Deno.build.os,
+      arch: Deno.build.arch,
+      denoVersion: Deno.version.deno,
+      appName: config.appName,
+      appVersion: scope.release ?? config.appVersion,
+      environment: scope.environment ?? config.environment,
+      ...await collectContextSections(config.reporterInfo),
+    },
+  );
+  if (breadcrumbs.length > 0) payload.breadcrumbs = breadcrumbs;
+  if (Object.keys(scope.tags).length > 0) payload.tags = scope.tags;
+  if (scope.user) payload.user = serializeValueForReport(scope.user);
+  if (Object.keys(scope.contexts).length > 0) {
+    payload.contexts = serializeValueForReport(scope.contexts);
+  }
+  if (config.scrubber) payload = scrubPayload(payload, config.scrubber);
+  if (config.beforeSend) {
+    try {
+      payload = await config.beforeSend(payload);
+    } catch (err) {
+      // Never fall back to sending what the hook was meant to filter
       console.error(
-        "=> Error details:",
+        "beforeSend hook failed, dropping report:",
         err instanceof Error ? err.stack : err,
       );
+      return null;
+    }
+    if (!payload) {
+      console.log("Report dropped by beforeSend hook.");
+      return null;
     }
-    console.error("--------------------------------------------------");
-    console.error("Report will not be sent automatically.");
-    return false; // Don't send if dialog failed
   }
+  return payload;
 }
 
 /**
- * Sends the report to the configured endpoint.
- * @param reportContent The report content (object or string).
+ * Sends a prepared payload to the configured endpoint.
+ * @param config The reporter configuration.
+ * @param payload The payload, as returned by `preparePayload`.
+ * @returns The outcome of the delivery, `null` without an endpoint.
  */
-async function sendReport(reportContent: unknown) {
-  if (!CRASH_REPORT_ENDPOINT) {
-    console.error("CRASH_REPORT_BASE_URL not set, cannot send report.");
-    return;
+async function sendPayload(
+  config: ReporterConfig,
+  payload: CrashReportPayload,
+): Promise<DeliveryResult | null> {
+  if (!config.endpoint) {
+    console.error("No crash report endpoint configured, cannot send report.");
+    return null;
   }
-  await sendReportInternal(reportContent);
+
+  console.log(
+    `Sending report to: ${config.endpoint} (${config.format.name} format)`,
+  );
+  const id = crypto.randomUUID();
+  return await deliver(config, config.endpoint, {
+    id,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: 0,
+    body: config.format.encode(payload, id),
+    contentType: config.format.contentType,
+  }, false);
 }
 
 /**
- * Internal function to actually send the report via fetch.
- * Used by both normal reporting and internal error reporting.
+ * Builds and sends a report without asking for consent. Used for internal
+ * error reports.
+ * @param config The reporter configuration.
  * @param reportContent The report content (object or string).
+ * @param context The breadcrumbs and scope to attach.
  */
-async function sendReportInternal(reportContent: unknown) {
-  if (!CRASH_REPORT_ENDPOINT) return; // Should not happen if called correctly, but safeguard
-
-  console.log(`Sending report to: ${CRASH_REPORT_ENDPOINT}`);
-
-  // Prepare the report payload based on the type of input
-  let reportPayload: unknown;
+async function sendReportInternal(
+  config: ReporterConfig,
+  reportContent: unknown,
+  context: ReportContext,
+) {
+  const payload = await preparePayload(config, reportContent, context);
+  if (payload) await sendPayload(config, payload);
+}
 
-  if (typeof reportContent === "string") {
-    // Simple approach: wrap strings as messages
-    reportPayload = { message: reportContent };
-  } else {
-    // Already an object or other value, use directly
-    reportPayload = reportContent;
+/**
+ * Sends a serialized payload and records the outcome. Retryable failures
+ * (network errors, `5xx`, `429`) are written to the outbox when enabled.
+ * @param config The reporter configuration.
+ * @param endpoint The URL to send to.
+ * @param entry The payload to send, wrapped as an outbox entry.
+ * @param fromOutbox Whether the entry was read back from the outbox.
+ * @returns The outcome of the attempt.
+ */
+async function deliver(
+  config: ReporterConfig,
+  endpoint: string,
+  entry: OutboxEntry,
+  fromOutbox: boolean,
+): Promise<DeliveryResult> {
+  const { spool } = config;
+  if (spool?.spoolAll && !fromOutbox) {
+    // Write-ahead, so the report survives if the process dies mid-send
+    await spoolEntry(config, spool, entry);
   }
 
+  entry.attempts++;
+  const result: DeliveryResult = {
+    id: entry.id,
+    outcome: "failed",
+    attempts: entry.attempts,
+    fromOutbox,
+  };
+
   try {
-    // Requires --allow-net=<hostname> or --allow-net
-    const response = await fetch(CRASH_REPORT_ENDPOINT, {
+    const init: UnrecordedRequestInit = {
       method: "POST",
       headers: {
-        "Content-Type": "application/json",
+        "Content-Type": entry.contentType ?? "application/json",
         "User-Agent": `DenoCrashReporter/${Deno.version.deno}`,
+        ...(config.ingestKey
+          ? config.format.authHeaders(config.ingestKey)
+          : {}),
       },
-      body: JSON.stringify({ // Structure the final payload for the server
-        timestamp: new Date().toISOString(),
-        // Embed the processed report
-        report: reportPayload,
-        reporterInfo: {
-          os: Deno.build.os,
-          arch: Deno.build.arch,
-          denoVersion: Deno.version.deno,
-          // Consider adding app name/version if available via env vars
-          // appName: Deno.env.get("APP_NAME"),
-          // appVersion: Deno.env.get("APP_VERSION"),
-        },
-      }),
-    });
+      body: entry.body,
+      // Keep the reporter's own requests out of the breadcrumbs
+      [SKIP_BREADCRUMB]: true,
+    };
+    // Requires --allow-net=<hostname> or --allow-net
+    const response = await config.transport(endpoint, init);
+    result.status = response.status;
 
     if (response.ok) {
       console.log("Report sent successfully!");
+      result.outcome = "sent";
     } else {
       console.error(
         `Failed to send report: ${response.status} ${response.statusText}`,
@@ -374,11 +976,125 @@ async function sendReportInternal(reportContent: unknown) {
         const errorBody = await response.text();
         if (errorBody) console.error("Server response body:", errorBody);
       } catch (_) { /* Ignore error reading body */ }
+      // Client errors won't go away by retrying the same payload
+      const retryable = response.status >= 500 || response.status === 429;
+      result.outcome = retryable ? "failed" : "rejected";
     }
   } catch (error) {
     console.error(
       "Network or fetch error:",
       error instanceof Error ? error.stack : error,
     );
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  if (spool) {
+    if (result.outcome === "failed") {
+      entry.nextAttemptAt = nextAttemptTime(spool, entry.attempts);
+      if (await spoolEntry(config, spool, entry)) {
+        console.error(`Report kept in outbox for a later retry: ${spool.dir}`);
+        result.outcome = "spooled";
+      }
+    } else if (spool.spoolAll || fromOutbox) {
+      try {
+        await removeOutboxEntry(spool, entry.id);
+      } catch (err) {
+        console.error("Failed to remove report from outbox:", err);
+      }
+    }
+  }
+
+  config.onDelivery?.(result);
+  return result;
+}
+
+/**
+ * Writes an entry to the outbox and evicts the oldest entries beyond the limit.
+ * @returns True if the entry was written.
+ */
+async function spoolEntry(
+  config: ReporterConfig,
+  spool: ResolvedOutboxOptions,
+  entry: OutboxEntry,
+): Promise<boolean> {
+  try {
+    await writeOutboxEntry(spool, entry);
+    for (const evicted of await enforceOutboxLimit(spool)) {
+      config.onDelivery?.({
+        id: evicted.id,
+        outcome: "evicted",
+        attempts: evicted.attempts,
+        fromOutbox: true,
+      });
+    }
+    return true;
+  } catch (err) {
+    console.error(
+      "Failed to write report to outbox:",
+      err instanceof Error ? err.stack : err,
+    );
+    return false;
   }
 }
+
+/**
+ * Retries due outbox entries and discards expired ones.
+ * @param config The reporter configuration.
+ * @returns The outcome for every processed entry.
+ */
+async function flushOutbox(config: ReporterConfig): Promise<DeliveryResult[]> {
+  const { spool, endpoint } = config;
+  if (!spool || !endpoint) return [];
+
+  let entries: OutboxEntry[];
+  try {
+    entries = await readOutboxEntries(spool);
+  } catch (err) {
+    console.error(
+      "Failed to read crash report outbox:",
+      err instanceof Error ? err.stack : err,
+    );
+    return [];
+  }
+
+  const results: DeliveryResult[] = [];
+  const now = Date.now();
+  for (const entry of entries) {
+    if (now - entry.createdAt > spool.maxAgeMs) {
+      try {
+        await removeOutboxEntry(spool, entry.id);
+      } catch (err) {
+        console.error("Failed to remove expired report from outbox:", err);
+      }
+      const result: DeliveryResult = {
+        id: entry.id,
+        outcome: "expired",
+        attempts: entry.attempts,
+        fromOutbox: true,
+      };
+      config.onDelivery?.(result);
+      results.push(result);
+      continue;
+    }
+    if (entry.nextAttemptAt > now) continue; // Still backing off
+
+    console.log(`Retrying report from outbox: ${entry.id}`);
+    results.push(await deliver(config, endpoint, entry, true));
+  }
+  return results;
+}
+
+/**
+ * Finds the earliest retry time among the outbox entries.
+ * @param config The reporter configuration.
+ * @returns The time (ms since epoch), or `null` if there is nothing to retry.
+ */
+async function nextOutboxAttempt(
+  config: ReporterConfig,
+): Promise<number | null> {
+  const { spool } = config;
+  if (!spool || !config.endpoint) return null;
+  const entries = await readOutboxEntries(spool);
+  if (entries.length === 0) return null;
+  return Math.min(...entries.map((entry) => entry.nextAttemptAt));
+}
@@ -0,0 +1,227 @@
+/**
+ * Context providers: sections of `reporterInfo` describing the process and
+ * runtime at the time of the report.
+ *
+ * Each provider produces one section, keyed by its name. The built-in ones:
+ *
+ * | Section       | Contents                                                   | Permission needed       |
+ * | ------------- | ---------------------------------------------------------- | ----------------------- |
+ * | `memory`      | `Deno.memoryUsage()`: `rss`, `heapTotal`, `heapUsed`, ...  | None                    |
+ * | `uptime`      | Process uptime (ms), system uptime (s)                     | `--allow-sys=osUptime`  |
+ * | `hostname`    | `Deno.hostname()`, **off by default**                      | `--allow-sys=hostname`  |
+ * | `args`        | `Deno.args`                                                | None                    |
+ * | `mainModule`  | `Deno.mainModule`                                          | None                    |
+ * | `versions`    | Deno, V8 and TypeScript versions                           | None                    |
+ * | `permissions` | State of each permission (`"granted"`, `"prompt"`, ...)    | None                    |
+ * | `cpus`        | `navigator.hardwareConcurrency`                            | None                    |
+ * | `loadAverage` | `Deno.loadavg()` over 1, 5 and 15 minutes                  | `--allow-sys=loadavg`   |
+ * | `locale`      | Locale and time zone                                       | None                    |
+ *
+ * Values that need a permission which is not granted are left out rather
+ * than triggering a prompt. Every section can be switched off with the
+ * `reporterInfo` reporter option; applications add their own sections with
+ * `addContextProvider` or `reporterInfo.providers`. Sections are serialized
+ * and scrubbed like the rest of the report.
+ */
+
+import { serializeValueForReport } from "./utils.ts";
+
+/** Produces one section of `reporterInfo`. */
+export interface ContextProvider {
+  /** Key of the section in `reporterInfo`, e.g. `"database"`. */
+  readonly name: string;
+  /** Returns the section; `undefined` leaves it out. */
+  collect(): unknown | Promise<unknown>;
+}
+
+/** Names of the built-in sections. */
+export type BuiltinContextSection =
+  | "memory"
+  | "uptime"
+  | "hostname"
+  | "args"
+  | "mainModule"
+  | "versions"
+  | "permissions"
+  | "cpus"
+  | "loadAverage"
+  | "locale";
+
+/**
+ * The `reporterInfo` reporter option: switches for the built-in sections
+ * (all on, except `hostname`) and additional providers.
+ */
+export type ReporterInfoOptions =
+  & { [section in BuiltinContextSection]?: boolean }
+  & {
+    /** Providers of this reporter, collected after the global ones. */
+    providers?: ContextProvider[];
+  };
+
+/** Keys of `reporterInfo` that providers cannot replace. */
+const RESERVED_SECTIONS = new Set([
+  "os",
+  "arch",
+  "denoVersion",
+  "appName",
+  "appVersion",
+  "environment",
+]);
+
+/** A provider taking longer than this is left out. */
+const PROVIDER_TIMEOUT_MS = 1_000;
+
+const PERMISSION_NAMES = [
+  "read",
+  "write",
+  "net",
+  "env",
+  "sys",
+  "run",
+  "ffi",
+  "import",
+] as const;
+
+/** Providers registered with `addContextProvider`. */
+const globalProviders = new Set<ContextProvider>();
+
+const BUILTIN_PROVIDERS: Record<BuiltinContextSection, ContextProvider> = {
+  memory: {
+    name: "memory",
+    collect: () => Deno.memoryUsage(),
+  },
+  uptime: {
+    name: "uptime",
+    collect: () => {
+      const uptime: Record<string, number> = {
+        processMs: Math.round(performance.now()),
+      };
+      if (isGranted({ name: "sys", kind: "osUptime" })) {
+        uptime.systemSeconds = Deno.osUptime();
+      }
+      return uptime;
+    },
+  },
+  hostname: {
+    name: "hostname",
+    collect: () =>
+      isGranted({ name: "sys", kind: "hostname" })
+        ? Deno.hostname()
+        : undefined,
+  },
+  args: {
+    name: "args",
+    collect: () => Deno.args,
+  },
+  mainModule: {
+    name: "mainModule",
+    collect: () => Deno.mainModule,
+  },
+  versions: {
+    name: "versions",
+    collect: () => ({ ...Deno.version }),
+  },
+  permissions: {
+    name: "permissions",
+    collect: () =>
+      Object.fromEntries(
+        PERMISSION_NAMES.map((name) => [
+          name,
+          Deno.permissions.querySync({ name }).state,
+        ]),
+      ),
+  },
+  cpus: {
+    name: "cpus",
+    collect: () => navigator.hardwareConcurrency,
+  },
+  loadAverage: {
+    name: "loadAverage",
+    collect: () =>
+      isGranted({ name: "sys", kind: "loadavg" }) ? Deno.loadavg() : undefined,
+  },
+  locale: {
+    name: "locale",
+    collect: () => {
+      const { locale, timeZone } = Intl.DateTimeFormat().resolvedOptions();
+      return { locale, timeZone, language: navigator.language };
+    },
+  },
+};
+
+/**
+ * Registers a provider for all reporters, e.g. to report the state of a
+ * connection pool with every crash.
+ * @param provider The provider; its `name` must not be a built-in field of
+ *   `reporterInfo` (`os`, `appName`, ...).
+ * @returns A function unregistering the provider.
+ */
+export function addContextProvider(provider: ContextProvider): () => void {
+  globalProviders.add(provider);
+  return () => {
+    globalProviders.delete(provider);
+  };
+}
+
+/**
+ * Collects the enabled sections. Providers run concurrently; one that throws
+ * or takes longer than a second is left out, with a log message.
+ * @param options The `reporterInfo` reporter option.
+ * @returns The sections, keyed by provider name.
+ */
+export async function collectContextSections(
+  options: ReporterInfoOptions = {},
+): Promise<Record<string, unknown>> {
+  const builtins = (Object.keys(BUILTIN_PROVIDERS) as BuiltinContextSection[])
+    .filter((section) => options[section] ?? section !== "hostname")
+    .map((section) => BUILTIN_PROVIDERS[section]);
+  const providers = [
+    ...builtins,
+    ...globalProviders,
+    ...(options.providers ?? []),
+  ].filter((provider) => {
+    if (!RESERVED_SECTIONS.has(provider.name)) return true;
+    console.error(
+      `Context provider '${provider.name}' ignored: the name is reserved.`,
+    );
+    return false;
+  });
+
+  const sections: Record<string, unknown> = {};
+  const results = await Promise.all(providers.map(runProvider));
+  providers.forEach((provider, i) => {
+    if (results[i] !== undefined) {
+      sections[provider.name] = serializeValueForReport(results[i]);
+    }
+  });
+  return sections;
+}
+
+async function runProvider(provider: ContextProvider): Promise<unknown> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => {
+      console.error(`Context provider '${provider.name}' timed out.`);
+      resolve(undefined);
+    }, PROVIDER_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([
+      (async () => await provider.collect())(),
+      timeout,
+    ]);
+  } catch (err) {
+    console.error(
+      `Context provider '${provider.name}' failed:`,
+      err instanceof Error ? err.message : err,
+    );
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Whether a permission is granted, without prompting for it. */
+function isGranted(descriptor: Deno.PermissionDescriptor): boolean {
+  return Deno.permissions.querySync(descriptor).state === "granted";
+}
@@ -0,0 +1,189 @@
+/**
+ * Scoped context: tags, user, named contexts, release and environment that
+ * are merged into every report.
+ *
+ * The global scope is process-wide, shared by all reporter instances, and
+ * changed with `setTag`, `setUser`, `setContext`, `setRelease` and
+ * `setEnvironment`. `withScope` runs a function in a copy of the current
+ * scope: changes made inside it (also across `await`) only apply to reports
+ * sent from within the function.
+ *
+ * An error that escapes a `withScope` function remembers the scope it was
+ * thrown in, so when it ends up uncaught (and is reported by the hook) the
+ * report still carries the operation's context.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  MAX_TAG_KEY_LENGTH,
+  MAX_TAG_VALUE_LENGTH,
+  MAX_TAGS,
+} from "./payload.ts";
+
+/** The user affected by a report, set with `setUser`. */
+export interface ScopeUser {
+  id?: string;
+  username?: string;
+  email?: string;
+  [key: string]: unknown;
+}
+
+/** A snapshot of a scope, as attached to reports. */
+export interface ScopeData {
+  tags: Record<string, string>;
+  user?: ScopeUser;
+  /** Named groups of extra data, see `setContext`. */
+  contexts: Record<string, Record<string, unknown>>;
+  /** Overrides `CrashReporterOptions.appVersion`. */
+  release?: string;
+  /** Overrides `CrashReporterOptions.environment`. */
+  environment?: string;
+}
+
+const globalScope: ScopeData = { tags: {}, contexts: {} };
+const storage = new AsyncLocalStorage<ScopeData>();
+/** Scopes remembered by errors that escaped `withScope`. */
+const errorScopes = new WeakMap<object, ScopeData>();
+
+/**
+ * Sets a tag. Tags are short strings the collector indexes, so reports can be
+ * filtered on them (e.g. `GET /api/reports?tag=screen:settings`).
+ * Keys are cut to 32 characters and values to 200; tags beyond the 50th are
+ * ignored.
+ * @param key The tag name.
+ * @param value The tag value. `undefined` removes the tag.
+ */
+export function setTag(
+  key: string,
+  value: string | number | boolean | undefined,
+) {
+  const { tags } = currentScope();
+  key = String(key).slice(0, MAX_TAG_KEY_LENGTH);
+  if (!key) return;
+  if (value === undefined) {
+    delete tags[key];
+  } else if (key in tags || Object.keys(tags).length < MAX_TAGS) {
+    tags[key] = String(value).slice(0, MAX_TAG_VALUE_LENGTH);
+  }
+}
+
+/**
+ * Sets the user affected by subsequent reports.
+ * @param user The user, or `null` to clear it.
+ */
+export function setUser(user: ScopeUser | null) {
+  const scope = currentScope();
+  if (user) scope.user = { ...user };
+  else delete scope.user;
+}
+
+/**
+ * Sets a named group of extra data, e.g. `setContext("order", { id: 42 })`.
+ * @param name The context name.
+ * @param context The data, or `null` to remove the context.
+ */
+export function setContext(
+  name: string,
+  context: Record<string, unknown> | null,
+) {
+  const { contexts } = currentScope();
+  if (context) contexts[name] = { ...context };
+  else delete contexts[name];
+}
+
+/**
+ * Sets the release reported as `reporterInfo.appVersion`, taking precedence
+ * over the `appVersion` reporter option. Source maps are looked up by it.
+ * @param release The release, or `undefined` to fall back to the option.
+ */
+export function setRelease(release: string | undefined) {
+  const scope = currentScope();
+  if (release === undefined) delete scope.release;
+  else scope.release = release;
+}
+
+/**
+ * Sets the environment reported as `reporterInfo.environment`, taking
+ * precedence over the `environment` reporter option.
+ * @param environment The environment, or `undefined` to fall back to the option.
+ */
+export function setEnvironment(environment: string | undefined) {
+  const scope = currentScope();
+  if (environment === undefined) delete scope.environment;
+  else scope.environment = environment;
+}
+
+/**
+ * Runs a function in a copy of the current scope. The `set*` functions
+ * called inside it, including after an `await`, change the copy only.
+ * Errors thrown (or promises rejected) by the function remember the scope.
+ * @param fn The function to run.
+ * @returns The result of the function.
+ */
+export function withScope<T>(fn: () => T): T {
+  const scope = cloneScope(currentScope());
+  return storage.run(scope, () => {
+    let result: T;
+    try {
+      result = fn();
+    } catch (err) {
+      rememberScope(err, scope);
+      throw err;
+    }
+    if (result instanceof Promise) {
+      return result.catch((err) => {
+        rememberScope(err, scope);
+        throw err;
+      }) as T;
+    }
+    return result;
+  });
+}
+
+/**
+ * Returns a snapshot of the scope to attach to a report: the scope the error
+ * escaped from, if it escaped a `withScope` function, or the current scope.
+ * @param error The reported value, if any.
+ */
+export function getScopeData(error?: unknown): ScopeData {
+  return cloneScope(rememberedScope(error) ?? currentScope());
+}
+
+/**
+ * Runs a function in the scope an error escaped from, if any. Used by the
+ * hook, whose listeners run outside of the failed operation.
+ * @param error The uncaught error or rejection reason.
+ * @param fn The function to run.
+ */
+export function runInErrorScope<T>(error: unknown, fn: () => T): T {
+  const remembered = rememberedScope(error);
+  return remembered ? storage.run(remembered, fn) : fn();
+}
+
+function currentScope(): ScopeData {
+  return storage.getStore() ?? globalScope;
+}
+
+function rememberScope(error: unknown, scope: ScopeData) {
+  // The innermost scope wins; outer `withScope` calls see it first
+  if (typeof error === "object" && error !== null && !errorScopes.has(error)) {
+    errorScopes.set(error, scope);
+  }
+}
+
+function rememberedScope(error: unknown): ScopeData | undefined {
+  return typeof error === "object" && error !== null
+    ? errorScopes.get(error)
+    : undefined;
+}
+
+function cloneScope(scope: ScopeData): ScopeData {
+  const clone: ScopeData = {
+    tags: { ...scope.tags },
+    contexts: { ...scope.contexts },
+  };
+  if (scope.user) clone.user = { ...scope.user };
+  if (scope.release !== undefined) clone.release = scope.release;
+  if (scope.environment !== undefined) clone.environment = scope.environment;
+  return clone;
+}
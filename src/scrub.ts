@@ -0,0 +1,251 @@
+/**
+ * Scrubbing of sensitive data before reports leave the machine.
+ *
+ * Three passes are applied to the `report`, `reporterInfo`, `breadcrumbs`,
+ * `tags`, `user` and `contexts` sections of a payload:
+ * - Values stored under sensitive keys (`password`, `token`, `cookie`, ...)
+ *   are replaced as a whole, whatever their type.
+ * - Strings are searched for sensitive patterns (e-mail addresses, bearer
+ *   tokens, IP addresses), which are replaced.
+ * - The user's home directory is replaced by `~` in every string, so stack
+ *   traces and file names do not reveal the user name.
+ *
+ * The payload is scrubbed in its JSON form, so it sees exactly what would be
+ * sent. The identity fields of `reporterInfo` that the reporter fills in from
+ * its own configuration (`os`, `appVersion`, ...) are left untouched, so the
+ * collector can still filter on them. Likewise, the `id`, `username` and
+ * `email` the application passed to `setUser` are sent as set. Scrubbing
+ * happens before `CrashReporterOptions.beforeSend` runs.
+ */
+
+import {
+  type CrashReportPayload,
+  MAX_TAG_VALUE_LENGTH,
+  type ReporterInfo,
+} from "./payload.ts";
+import type { ScopeUser } from "./scope.ts";
+
+/**
+ * Scrubbing configuration, passed as `CrashReporterOptions.scrub`.
+ */
+export interface ScrubOptions {
+  /**
+   * Keys whose values are redacted. Strings match any key containing them,
+   * ignoring case, `-` and `_` (so `"apikey"` matches `X-Api-Key`); regular
+   * expressions are tested against the key as-is. Replaces the defaults,
+   * see `DEFAULT_SCRUB_KEYS`.
+   */
+  keys?: (string | RegExp)[];
+  /** Additional keys, on top of `keys`. */
+  extraKeys?: (string | RegExp)[];
+  /**
+   * Patterns replaced in every string. Must use the global flag. Replaces the
+   * defaults, see `DEFAULT_SCRUB_PATTERNS`.
+   */
+  patterns?: RegExp[];
+  /** Additional patterns, on top of `patterns`. */
+  extraPatterns?: RegExp[];
+  /** Replace the home directory with `~`. Defaults to `true`. */
+  redactHomeDir?: boolean;
+  /** Text that replaces redacted values. Defaults to `"[REDACTED]"`. */
+  replacement?: string;
+}
+
+/** Scrubbing configuration after defaults have been applied. */
+export interface ResolvedScrubOptions {
+  keys: (string | RegExp)[];
+  patterns: RegExp[];
+  /** Matchers for the home directory prefixes to replace. */
+  homeDirs: RegExp[];
+  replacement: string;
+}
+
+/** Keys redacted by default. */
+export const DEFAULT_SCRUB_KEYS: readonly string[] = [
+  "password",
+  "passwd",
+  "secret",
+  "token",
+  "authorization",
+  "cookie",
+  "apikey",
+  "accesskey",
+  "privatekey",
+  "credential",
+];
+
+/**
+ * Patterns redacted by default: e-mail addresses, bearer tokens, IP
+ * addresses, and `key=value` / `key: value` pairs with a sensitive key inside
+ * formatted strings (like console breadcrumbs).
+ */
+export const DEFAULT_SCRUB_PATTERNS: readonly RegExp[] = [
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  /\bBearer\s+[\w.~+/-]+=*/gi,
+  /\b(?:password|passwd|secret|token|api[_-]?key|authorization)["']?\s*[:=]\s*(?:"[^"]*"|'[^']*'|[^\s,;&}]+)/gi,
+  /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi,
+];
+
+/** `reporterInfo` fields set by the reporter itself, never scrubbed. */
+const IDENTITY_FIELDS = [
+  "os",
+  "arch",
+  "denoVersion",
+  "appName",
+  "appVersion",
+  "environment",
+  "versions", // V8 versions look like IP addresses
+] as const;
+
+/** `user` fields set deliberately by the application, never scrubbed. */
+const USER_IDENTITY_FIELDS = ["id", "username", "email"] as const;
+
+/**
+ * Applies defaults to the `scrub` reporter option.
+ * @param options The user-supplied option (`true` or omitted enables all defaults).
+ * @returns The resolved options, or `null` if scrubbing is disabled.
+ */
+export function resolveScrubOptions(
+  options: boolean | ScrubOptions | undefined,
+): ResolvedScrubOptions | null {
+  if (options === false) return null;
+  const opts = options === true || options === undefined ? {} : options;
+  return {
+    keys: [
+      ...(opts.keys ?? DEFAULT_SCRUB_KEYS),
+      ...(opts.extraKeys ?? []),
+    ].map((key) => typeof key === "string" ? normalizeKey(key) : key),
+    patterns: [
+      ...(opts.patterns ?? DEFAULT_SCRUB_PATTERNS),
+      ...(opts.extraPatterns ?? []),
+    ],
+    homeDirs: opts.redactHomeDir === false ? [] : findHomeDirs(),
+    replacement: opts.replacement ?? "[REDACTED]",
+  };
+}
+
+/**
+ * Returns a scrubbed copy of a payload.
+ * @param payload The payload about to be sent.
+ * @param options The resolved scrubbing configuration.
+ */
+export function scrubPayload(
+  payload: CrashReportPayload,
+  options: ResolvedScrubOptions,
+): CrashReportPayload {
+  // Work on the JSON form: it is what would be sent, and it is a deep copy
+  const json: CrashReportPayload = JSON.parse(JSON.stringify(payload));
+  const reporterInfo = scrubValue(json.reporterInfo, options) as ReporterInfo;
+  for (const field of IDENTITY_FIELDS) {
+    if (json.reporterInfo[field] !== undefined) {
+      (reporterInfo as Record<string, unknown>)[field] =
+        json.reporterInfo[field];
+    }
+  }
+  const scrubbed: CrashReportPayload = {
+    ...json,
+    report: scrubValue(json.report, options) as CrashReportPayload["report"],
+    reporterInfo,
+  };
+  if (json.breadcrumbs) {
+    scrubbed.breadcrumbs = scrubValue(
+      json.breadcrumbs,
+      options,
+    ) as CrashReportPayload["breadcrumbs"];
+  }
+  if (json.tags) {
+    // A replacement may be longer than what it replaced
+    scrubbed.tags = Object.fromEntries(
+      Object.entries(scrubValue(json.tags, options) as Record<string, string>)
+        .map(([key, value]) => [key, value.slice(0, MAX_TAG_VALUE_LENGTH)]),
+    );
+  }
+  if (json.user) {
+    const user = scrubValue(json.user, options) as ScopeUser;
+    for (const field of USER_IDENTITY_FIELDS) {
+      if (json.user[field] !== undefined) user[field] = json.user[field];
+    }
+    scrubbed.user = user;
+  }
+  if (json.contexts) {
+    scrubbed.contexts = scrubValue(
+      json.contexts,
+      options,
+    ) as CrashReportPayload["contexts"];
+  }
+  return scrubbed;
+}
+
+function scrubValue(value: unknown, options: ResolvedScrubOptions): unknown {
+  if (typeof value === "string") return scrubString(value, options);
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubValue(item, options));
+  }
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = isSensitiveKey(key, options)
+        ? options.replacement
+        : scrubValue(item, options);
+    }
+    return result;
+  }
+  return value;
+}
+
+function scrubString(value: string, options: ResolvedScrubOptions): string {
+  let result = value;
+  for (const home of options.homeDirs) {
+    result = result.replace(home, "~");
+  }
+  for (const pattern of options.patterns) {
+    result = result.replace(pattern, options.replacement);
+  }
+  return result;
+}
+
+function isSensitiveKey(key: string, options: ResolvedScrubOptions): boolean {
+  const normalized = normalizeKey(key);
+  return options.keys.some((candidate) =>
+    typeof candidate === "string"
+      ? normalized.includes(candidate)
+      : (candidate.lastIndex = 0, candidate.test(key))
+  );
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, "");
+}
+
+/**
+ * Builds matchers for the spellings of the home directory that may appear in
+ * stack traces: the plain path, and on Windows also with forward slashes (as
+ * in `file://` URLs). A match must end at a path boundary, so `/home/al` does
+ * not match inside `/home/alice`. Without `--allow-env` nothing is matched
+ * and paths are left as-is.
+ */
+function findHomeDirs(): RegExp[] {
+  let home: string | undefined;
+  try {
+    home = Deno.build.os === "windows"
+      ? Deno.env.get("USERPROFILE")
+      : Deno.env.get("HOME");
+  } catch (_) {
+    return []; // No --allow-env for the variable
+  }
+  home = home?.replace(/[\\/]+$/, "");
+  // A home directory of `/` (e.g. some service users) would match everything
+  if (!home || home.length < 2) return [];
+  const spellings = Deno.build.os === "windows"
+    ? [home, home.replaceAll("\\", "/")]
+    : [home];
+  // Windows paths are case-insensitive
+  const flags = Deno.build.os === "windows" ? "gi" : "g";
+  return spellings.map((path) =>
+    new RegExp(
+      `${path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w.-])`,
+      flags,
+    )
+  );
+}
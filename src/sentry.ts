@@ -0,0 +1,502 @@
+/**
+ * Sentry compatibility: conversion between crash report payloads and Sentry
+ * events, and the envelope format Sentry SDKs send events in.
+ *
+ * Shared by the reporter, which can send reports as envelopes to Sentry or
+ * any server speaking its protocol (see `./formats.ts`), and by the
+ * collector, which accepts envelopes from Sentry SDKs at
+ * `/api/<project>/envelope/`.
+ *
+ * Events built from payloads carry the whole payload in
+ * `extra.crash_report`, so the collector restores such reports exactly.
+ * Events of other SDKs are mapped field by field: the last exception becomes
+ * the error (the ones before it its `cause` chain), with its frames turned
+ * back into a V8-style stack so it is fingerprinted like any other report;
+ * events without an exception become message reports.
+ */
+
+import { isBreadcrumbLevel } from "./breadcrumbs.ts";
+import { getThrown, getTitle } from "./fingerprint.ts";
+import {
+  type CrashReportPayload,
+  MAX_TAG_KEY_LENGTH,
+  MAX_TAG_VALUE_LENGTH,
+  MAX_TAGS,
+  PAYLOAD_SCHEMA_VERSION,
+} from "./payload.ts";
+import { isInAppFile, parseStack, type StackFrame } from "./stack.ts";
+
+/** The `Content-Type` of Sentry envelopes. */
+export const SENTRY_ENVELOPE_CONTENT_TYPE = "application/x-sentry-envelope";
+
+/** A stack frame of a Sentry event. */
+export interface SentryFrame {
+  function?: string;
+  filename?: string;
+  abs_path?: string;
+  lineno?: number;
+  colno?: number;
+  in_app?: boolean;
+}
+
+/** An exception of a Sentry event. */
+export interface SentryException {
+  /** The error name, e.g. `TypeError`. */
+  type: string;
+  /** The error message. */
+  value?: string;
+  /** The frames, outermost first (the reverse of `StackFrame` lists). */
+  stacktrace?: { frames: SentryFrame[] };
+  /** How the exception was caught, e.g. `onunhandledrejection`. */
+  mechanism?: { type: string; handled: boolean };
+}
+
+/** A breadcrumb of a Sentry event. */
+export interface SentryBreadcrumb {
+  /** Seconds since epoch. */
+  timestamp: number;
+  category: string;
+  level?: string;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+/** The fields of a Sentry event written by `payloadToSentryEvent`. */
+export interface SentryEvent {
+  /** 32 hex characters. */
+  event_id: string;
+  /** Seconds since epoch. */
+  timestamp: number;
+  platform: string;
+  level: string;
+  release?: string;
+  environment?: string;
+  /** Exceptions, causes first and the reported error last. */
+  exception?: { values: SentryException[] };
+  /** For reports without an error. */
+  message?: { formatted: string };
+  tags: Record<string, string>;
+  user?: Record<string, unknown>;
+  contexts: Record<string, Record<string, unknown>>;
+  breadcrumbs?: { values: SentryBreadcrumb[] };
+  extra: Record<string, unknown>;
+}
+
+/** An item of a Sentry envelope. */
+export interface SentryEnvelopeItem {
+  /** The item header, e.g. `{ "type": "event", "length": 1234 }`. */
+  header: Record<string, unknown>;
+  /** The raw item payload. */
+  payload: Uint8Array;
+}
+
+/** A parsed Sentry envelope. */
+export interface SentryEnvelope {
+  /** The envelope header, e.g. `{ "event_id": "...", "dsn": "..." }`. */
+  header: Record<string, unknown>;
+  items: SentryEnvelopeItem[];
+}
+
+/** Result of `parseSentryEnvelope`. */
+export type SentryEnvelopeParseResult =
+  | { ok: true; envelope: SentryEnvelope }
+  | { ok: false; error: string };
+
+/** Causes of an error added to an event, beyond the error itself. */
+const MAX_CAUSES = 5;
+/** Report types raised by uncaught errors, see `./payload.ts`. */
+const MECHANISMS: Record<string, string> = {
+  error: "onerror",
+  unhandledrejection: "onunhandledrejection",
+};
+
+/**
+ * Converts a payload into a Sentry event.
+ * @param payload The payload.
+ * @param id Unique id of the report; a UUID becomes the event id.
+ */
+export function payloadToSentryEvent(
+  payload: CrashReportPayload,
+  id: string,
+): SentryEvent {
+  const { reporterInfo: info } = payload;
+  const type = payload.report.type ?? "custom";
+  const contexts: Record<string, Record<string, unknown>> = {
+    ...payload.contexts,
+    os: { name: info.os },
+    runtime: { name: "deno", version: info.denoVersion },
+    device: { arch: info.arch },
+  };
+  if (info.appName) {
+    contexts.app = { app_name: info.appName, app_version: info.appVersion };
+  }
+
+  const event: SentryEvent = {
+    event_id: id.replaceAll("-", "").toLowerCase(),
+    timestamp: Date.parse(payload.timestamp) / 1000,
+    platform: "javascript",
+    level: "error",
+    release: info.appVersion,
+    environment: info.environment,
+    tags: { "crash_report.type": type, ...payload.tags },
+    user: payload.user,
+    contexts,
+    extra: { crash_report: payload },
+  };
+
+  const exceptions: SentryException[] = [];
+  let error: unknown = getThrown(payload);
+  while (isRecord(error) && exceptions.length <= MAX_CAUSES) {
+    if (typeof error.name !== "string" && typeof error.stack !== "string") {
+      break; // Not an error, e.g. a rejection with a plain object
+    }
+    exceptions.unshift(toSentryException(error));
+    error = error.cause;
+  }
+  if (exceptions.length > 0) {
+    const uncaught = Object.hasOwn(MECHANISMS, type);
+    exceptions.at(-1)!.mechanism = {
+      type: uncaught ? MECHANISMS[type] : "generic",
+      handled: !uncaught,
+    };
+    event.exception = { values: exceptions };
+  } else {
+    event.message = { formatted: getTitle(payload) };
+  }
+
+  if (payload.breadcrumbs?.length) {
+    event.breadcrumbs = {
+      values: payload.breadcrumbs.map((breadcrumb) => ({
+        timestamp: Date.parse(breadcrumb.timestamp) / 1000,
+        category: breadcrumb.category,
+        level: breadcrumb.level,
+        message: breadcrumb.message,
+        data: breadcrumb.data,
+      })),
+    };
+  }
+  return event;
+}
+
+/**
+ * Converts a received Sentry event into a payload. The result is not
+ * validated yet; pass it to `parseCrashReportPayload`.
+ * @param event The parsed event item of an envelope.
+ */
+export function sentryEventToPayload(
+  event: Record<string, unknown>,
+): Record<string, unknown> {
+  // Sent by this reporter: restore the original payload
+  const extra = asRecord(event.extra);
+  if (isRecord(extra.crash_report)) return extra.crash_report;
+
+  const contexts: Record<string, Record<string, unknown>> = {};
+  for (const [name, context] of Object.entries(asRecord(event.contexts))) {
+    if (isRecord(context)) contexts[name] = context;
+  }
+  const { os = {}, runtime = {}, device = {}, app = {} } = contexts;
+  const sdk = asRecord(event.sdk);
+  contexts.sentry = compact({
+    event_id: asString(event.event_id),
+    level: asString(event.level),
+    logger: asString(event.logger),
+    transaction: asString(event.transaction),
+  });
+
+  return compact({
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    timestamp: toIsoTimestamp(event.timestamp) ?? new Date().toISOString(),
+    report: toReport(event),
+    reporterInfo: compact({
+      os: asString(os.name) ?? "unknown",
+      arch: asString(device.arch) ?? "unknown",
+      denoVersion: (runtime.name === "deno" && asString(runtime.version)) ||
+        "unknown",
+      runtime: asString(runtime.name) &&
+        `${runtime.name} ${asString(runtime.version) ?? ""}`.trim(),
+      appName: asString(app.app_name),
+      appVersion: asString(event.release),
+      environment: asString(event.environment),
+      platform: asString(event.platform),
+      serverName: asString(event.server_name),
+      sdk: asString(sdk.name) &&
+        `${sdk.name}/${asString(sdk.version) ?? "unknown"}`,
+    }),
+    breadcrumbs: toBreadcrumbs(event.breadcrumbs),
+    tags: toTags(event.tags),
+    user: isRecord(event.user) ? event.user : undefined,
+    contexts,
+  });
+}
+
+/**
+ * Encodes an event as a Sentry envelope holding a single event item.
+ * @param event The event.
+ */
+export function encodeSentryEnvelope(event: SentryEvent): string {
+  const body = JSON.stringify(event);
+  const length = new TextEncoder().encode(body).byteLength;
+  return [
+    JSON.stringify({ event_id: event.event_id }),
+    JSON.stringify({ type: "event", content_type: "application/json", length }),
+    body,
+  ].join("\n") + "\n";
+}
+
+/**
+ * Parses a Sentry envelope: a JSON header line, then items made of a JSON
+ * header line and a payload. The payload is `length` bytes if the item
+ * header says so, and runs to the end of the line otherwise.
+ * @param bytes The (decompressed) request body.
+ * @returns The envelope, or what is wrong with it.
+ */
+export function parseSentryEnvelope(
+  bytes: Uint8Array,
+): SentryEnvelopeParseResult {
+  let offset = 0;
+  const readLine = () => {
+    let end = bytes.indexOf(0x0a, offset);
+    if (end === -1) end = bytes.length;
+    const line = bytes.subarray(offset, end);
+    offset = end + 1;
+    return line;
+  };
+
+  const header = parseJsonLine(readLine());
+  if (!header) {
+    return { ok: false, error: "The envelope header must be a JSON object" };
+  }
+  const items: SentryEnvelopeItem[] = [];
+  while (offset < bytes.length) {
+    const line = readLine();
+    if (line.length === 0) continue; // Trailing newline
+    const itemHeader = parseJsonLine(line);
+    if (!itemHeader) {
+      return {
+        ok: false,
+        error: `The header of item ${items.length} must be a JSON object`,
+      };
+    }
+
+    const { length } = itemHeader;
+    let payload: Uint8Array;
+    if (length === undefined) {
+      payload = offset < bytes.length ? readLine() : new Uint8Array();
+    } else if (
+      typeof length === "number" && Number.isSafeInteger(length) &&
+      length >= 0 && offset + length <= bytes.length
+    ) {
+      payload = bytes.subarray(offset, offset + length);
+      offset += length;
+      if (bytes[offset] === 0x0a) offset++;
+    } else {
+      return {
+        ok: false,
+        error: `The length of item ${items.length} exceeds the envelope`,
+      };
+    }
+    items.push({ header: itemHeader, payload });
+  }
+  return { ok: true, envelope: { header, items } };
+}
+
+// --- Payload to event ---
+
+function toSentryException(error: Record<string, unknown>): SentryException {
+  const frames: StackFrame[] = Array.isArray(error.frames)
+    ? error.frames
+    : typeof error.stack === "string"
+    ? parseStack(error.stack)
+    : [];
+  const exception: SentryException = {
+    type: typeof error.name === "string" ? error.name : "Error",
+    value: typeof error.message === "string" ? error.message : undefined,
+  };
+  if (frames.length > 0) {
+    exception.stacktrace = {
+      frames: frames.map((frame) => ({
+        function: frame.function,
+        filename: frame.file,
+        abs_path: frame.file,
+        lineno: frame.line,
+        colno: frame.column,
+        in_app: frame.inApp,
+      })).reverse(),
+    };
+  }
+  return exception;
+}
+
+// --- Event to payload ---
+
+/** Builds the `report` of an event: its last exception, or its message. */
+function toReport(event: Record<string, unknown>): Record<string, unknown> {
+  const exceptions = asRecords(event.exception);
+  const exception = exceptions.at(-1);
+  if (!exception) {
+    const logentry = asRecord(event.logentry);
+    const message = asRecord(event.message);
+    return {
+      type: "message",
+      message: asString(event.message) ?? asString(message.formatted) ??
+        asString(message.message) ?? asString(logentry.formatted) ??
+        asString(logentry.message) ?? "(no message)",
+    };
+  }
+
+  // Earlier exceptions are the causes of later ones
+  let error: Record<string, unknown> | undefined;
+  for (const current of exceptions) {
+    const cause = error;
+    error = toSerializedError(current);
+    if (cause) error.cause = cause;
+  }
+
+  const mechanism = asRecord(exception.mechanism);
+  if (mechanism.type === "onunhandledrejection") {
+    return { type: "unhandledrejection", reason: error };
+  }
+  return {
+    type: "error",
+    message: error!.message || error!.name,
+    error,
+  };
+}
+
+/** Converts an exception into a serialized error, see `./payload.ts`. */
+function toSerializedError(
+  exception: Record<string, unknown>,
+): Record<string, unknown> {
+  const name = asString(exception.type) ?? "Error";
+  const message = asString(exception.value) ?? "";
+  // Sentry lists frames outermost first, V8 innermost first
+  const sentryFrames = asRecords(asRecord(exception.stacktrace).frames)
+    .reverse();
+  const frames = sentryFrames.map((frame) => {
+    const file = asString(frame.abs_path) ?? asString(frame.filename) ??
+      asString(frame.module) ?? "<anonymous>";
+    return compact({
+      function: asString(frame.function),
+      file,
+      line: asNumber(frame.lineno),
+      column: asNumber(frame.colno),
+      inApp: typeof frame.in_app === "boolean"
+        ? frame.in_app
+        : isInAppFile(file),
+    }) as unknown as StackFrame;
+  });
+  return {
+    name,
+    message,
+    stack: [`${name}: ${message}`, ...frames.map(formatV8Frame)].join("\n"),
+    frames,
+  };
+}
+
+/** Formats a frame like a line of a V8 stack trace, so `parseStack` reads it back. */
+function formatV8Frame(frame: StackFrame): string {
+  let location = frame.file;
+  if (frame.line !== undefined) location += `:${frame.line}`;
+  if (frame.line !== undefined && frame.column !== undefined) {
+    location += `:${frame.column}`;
+  }
+  return frame.function
+    ? `    at ${frame.function} (${location})`
+    : `    at ${location}`;
+}
+
+/** Converts Sentry breadcrumbs (`{ values: [...] }` or a plain list). */
+function toBreadcrumbs(
+  breadcrumbs: unknown,
+): Record<string, unknown>[] | undefined {
+  const list = asRecords(breadcrumbs);
+  if (list.length === 0) return undefined;
+  return list.map((breadcrumb) => {
+    const level = asString(breadcrumb.level);
+    return compact({
+      timestamp: toIsoTimestamp(breadcrumb.timestamp) ??
+        new Date(0).toISOString(),
+      category: asString(breadcrumb.category) ?? asString(breadcrumb.type) ??
+        "default",
+      level: level === "fatal"
+        ? "error"
+        : isBreadcrumbLevel(level)
+        ? level
+        : undefined,
+      message: asString(breadcrumb.message),
+      data: isRecord(breadcrumb.data) ? breadcrumb.data : undefined,
+    });
+  });
+}
+
+/**
+ * Converts Sentry tags (an object or a list of pairs), dropping or
+ * truncating what exceeds the limits of `./payload.ts`.
+ */
+function toTags(tags: unknown): Record<string, string> | undefined {
+  const entries = Array.isArray(tags)
+    ? tags.filter((pair) => Array.isArray(pair) && pair.length === 2)
+    : Object.entries(asRecord(tags));
+  const result: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    if (Object.keys(result).length >= MAX_TAGS) break;
+    if (typeof key !== "string" || !key || key.length > MAX_TAG_KEY_LENGTH) {
+      continue;
+    }
+    if (value === null || typeof value === "object") continue;
+    result[key] = String(value).slice(0, MAX_TAG_VALUE_LENGTH);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/** Converts a Sentry timestamp (seconds since epoch, or RFC 3339). */
+function toIsoTimestamp(value: unknown): string | undefined {
+  const ms = typeof value === "number"
+    ? value * 1000
+    : typeof value === "string"
+    ? Date.parse(value)
+    : NaN;
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+}
+
+// --- Helpers ---
+
+function parseJsonLine(line: Uint8Array): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(new TextDecoder().decode(line));
+    return isRecord(value) ? value : null;
+  } catch (_) {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+/** Reads a list of objects, given as a plain list or as `{ values: [...] }`. */
+function asRecords(value: unknown): Record<string, unknown>[] {
+  const list = Array.isArray(value) ? value : asRecord(value).values;
+  return Array.isArray(list) ? list.filter(isRecord) : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/** Leaves out `undefined` fields, which some stores would keep. */
+function compact<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined),
+  ) as T;
+}
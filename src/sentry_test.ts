@@ -0,0 +1,274 @@
+import assert from "node:assert/strict";
+import { sentryEnvelopeFormat } from "./formats.ts";
+import { type CrashReportPayload, parseCrashReportPayload } from "./payload.ts";
+import { parseSentryEnvelope, sentryEventToPayload } from "./sentry.ts";
+import { parseStack } from "./stack.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const PAYLOAD: CrashReportPayload = {
+  schemaVersion: 1,
+  timestamp: "2026-03-01T12:00:00.000Z",
+  report: {
+    type: "error",
+    message: "x is undefined",
+    error: {
+      name: "TypeError",
+      message: "x is undefined",
+      stack: [
+        "TypeError: x is undefined",
+        "    at render (file:///app/src/view.ts:8:3)",
+        "    at async Promise.all (index 0)",
+      ].join("\n"),
+      frames: parseStack(
+        "    at render (file:///app/src/view.ts:8:3)\n" +
+          "    at async Promise.all (index 0)",
+      ),
+      cause: { name: "RangeError", message: "Ünïcödé ✓" },
+    },
+  },
+  reporterInfo: {
+    os: "linux",
+    arch: "x86_64",
+    denoVersion: "2.0.0",
+    appName: "notes",
+    appVersion: "1.4.0",
+    environment: "production",
+  },
+  breadcrumbs: [{
+    timestamp: "2026-03-01T11:59:58.000Z",
+    category: "ui.click",
+    level: "info",
+    message: "Save",
+  }],
+  tags: { screen: "editor" },
+  user: { id: "42" },
+  contexts: { editor: { tabs: 3 } },
+  userComment: "Clicked save\ntwice",
+  suppressedDuplicates: 2,
+};
+
+function parse(envelope: string | Uint8Array) {
+  return parseSentryEnvelope(
+    typeof envelope === "string" ? encoder.encode(envelope) : envelope,
+  );
+}
+
+Deno.test("round-trips payloads through Sentry envelopes", () => {
+  const id = crypto.randomUUID();
+  const body = sentryEnvelopeFormat.encode(PAYLOAD, id);
+
+  const result = parse(body);
+  assert.ok(result.ok);
+  const { header, items } = result.envelope;
+  const eventId = id.replaceAll("-", "");
+  assert.deepEqual(header, { event_id: eventId });
+  assert.equal(items.length, 1);
+  assert.deepEqual(items[0].header, {
+    type: "event",
+    content_type: "application/json",
+    length: items[0].payload.byteLength,
+  });
+
+  const event = JSON.parse(decoder.decode(items[0].payload));
+  assert.equal(event.event_id, eventId);
+  assert.equal(event.release, "1.4.0");
+  assert.deepEqual(
+    event.exception.values.map((e: { type: string }) => e.type),
+    ["RangeError", "TypeError"],
+  );
+  assert.deepEqual(event.exception.values[1].stacktrace.frames, [
+    {
+      function: "Promise.all",
+      filename: "index 0",
+      abs_path: "index 0",
+      in_app: false,
+    },
+    {
+      function: "render",
+      filename: "file:///app/src/view.ts",
+      abs_path: "file:///app/src/view.ts",
+      lineno: 8,
+      colno: 3,
+      in_app: true,
+    },
+  ]);
+
+  const payload = sentryEventToPayload(event);
+  assert.deepEqual(payload, PAYLOAD);
+  assert.equal(parseCrashReportPayload(payload).ok, true);
+});
+
+Deno.test("parses length-prefixed and newline-delimited items", () => {
+  const attachment = "line one\nline two\n\n{ not json";
+  const event = JSON.stringify({ event_id: "a".repeat(32), message: "Ünï" });
+  const envelope = [
+    JSON.stringify({ event_id: "a".repeat(32) }),
+    JSON.stringify({
+      type: "attachment",
+      length: encoder.encode(attachment).byteLength,
+    }),
+    attachment,
+    // Multi-byte characters count as bytes
+    JSON.stringify({ type: "event", length: encoder.encode(event).byteLength }),
+    event,
+    JSON.stringify({ type: "client_report" }),
+    JSON.stringify({ discarded_events: [] }),
+    JSON.stringify({ type: "session", length: 0 }),
+    "",
+    // No trailing newline after the last item
+    JSON.stringify({ type: "user_report" }),
+  ].join("\n");
+
+  const result = parse(envelope);
+  assert.ok(result.ok);
+  assert.deepEqual(
+    result.envelope.items.map((item) => [
+      item.header.type,
+      decoder.decode(item.payload),
+    ]),
+    [
+      ["attachment", attachment],
+      ["event", event],
+      ["client_report", '{"discarded_events":[]}'],
+      ["session", ""],
+      ["user_report", ""],
+    ],
+  );
+});
+
+Deno.test("rejects malformed envelopes", () => {
+  const header = JSON.stringify({});
+  const rejections: [string, string][] = [
+    ["", "The envelope header must be a JSON object"],
+    ["[1]\n", "The envelope header must be a JSON object"],
+    [
+      `${header}\n{"type":"event","length":2}\n{}\nnot json\n`,
+      "The header of item 1 must be a JSON object",
+    ],
+    [
+      `${header}\n{"type":"event","length":50}\n{}\n`,
+      "The length of item 0 exceeds the envelope",
+    ],
+    [
+      `${header}\n{"type":"event","length":-1}\n{}\n`,
+      "The length of item 0 exceeds the envelope",
+    ],
+    [
+      `${header}\n{"type":"event","length":"2"}\n{}\n`,
+      "The length of item 0 exceeds the envelope",
+    ],
+  ];
+
+  for (const [envelope, error] of rejections) {
+    assert.deepEqual(parse(envelope), { ok: false, error }, envelope);
+  }
+});
+
+Deno.test("converts events of other Sentry SDKs", () => {
+  const payload = sentryEventToPayload({
+    event_id: "b".repeat(32),
+    timestamp: 1772366400.5,
+    platform: "python",
+    level: "fatal",
+    release: "2.1.0",
+    server_name: "web-1",
+    sdk: { name: "sentry.python", version: "2.0.0" },
+    contexts: { runtime: { name: "CPython", version: "3.12.1" } },
+    exception: {
+      values: [
+        { type: "KeyError", value: "'id'" },
+        {
+          type: "ValueError",
+          value: "bad request",
+          mechanism: { type: "generic", handled: false },
+          // Outermost first
+          stacktrace: {
+            frames: [
+              { function: "main", filename: "app.py", lineno: 40 },
+              {
+                function: "handle",
+                abs_path: "/srv/app/views.py",
+                lineno: 12,
+                colno: 5,
+                in_app: true,
+              },
+            ],
+          },
+        },
+      ],
+    },
+    tags: [["region", "eu"], ["nested", { a: 1 }], ["count", 3]],
+    breadcrumbs: {
+      values: [{ timestamp: 1772366399, type: "http", level: "fatal" }],
+    },
+  });
+
+  assert.deepEqual(payload, {
+    schemaVersion: 1,
+    timestamp: "2026-03-01T12:00:00.500Z",
+    report: {
+      type: "error",
+      message: "bad request",
+      error: {
+        name: "ValueError",
+        message: "bad request",
+        stack: [
+          "ValueError: bad request",
+          "    at handle (/srv/app/views.py:12:5)",
+          "    at main (app.py:40)",
+        ].join("\n"),
+        frames: [
+          {
+            function: "handle",
+            file: "/srv/app/views.py",
+            line: 12,
+            column: 5,
+            inApp: true,
+          },
+          { function: "main", file: "app.py", line: 40, inApp: true },
+        ],
+        cause: {
+          name: "KeyError",
+          message: "'id'",
+          stack: "KeyError: 'id'",
+          frames: [],
+        },
+      },
+    },
+    reporterInfo: {
+      os: "unknown",
+      arch: "unknown",
+      denoVersion: "unknown",
+      runtime: "CPython 3.12.1",
+      appVersion: "2.1.0",
+      platform: "python",
+      serverName: "web-1",
+      sdk: "sentry.python/2.0.0",
+    },
+    breadcrumbs: [{
+      timestamp: "2026-03-01T11:59:59.000Z",
+      category: "http",
+      level: "error",
+    }],
+    tags: { region: "eu", count: "3" },
+    contexts: {
+      runtime: { name: "CPython", version: "3.12.1" },
+      sentry: { event_id: "b".repeat(32), level: "fatal" },
+    },
+  });
+  assert.equal(parseCrashReportPayload(payload).ok, true);
+});
+
+Deno.test("converts Sentry events without an exception to messages", () => {
+  const payload = sentryEventToPayload({
+    logentry: { message: "Disk %s full", formatted: "Disk /var full" },
+  });
+
+  assert.deepEqual(payload.report, {
+    type: "message",
+    message: "Disk /var full",
+  });
+  assert.equal(parseCrashReportPayload(payload).ok, true);
+});
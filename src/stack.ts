@@ -0,0 +1,79 @@
+/**
+ * Parsing of V8 stack traces into structured frames.
+ *
+ * Shared by the reporter, which sends the parsed frames along with the raw
+ * `stack` of every serialized error, and by the collector, which groups
+ * reports by their frames and resolves them against uploaded source maps.
+ */
+
+/** One frame of a parsed stack trace. */
+export interface StackFrame {
+  /** Function name (e.g. `loadConfig`, `Foo.bar`, `new Foo`), if known. */
+  function?: string;
+  /**
+   * File URL or path, e.g. `file:///app/main.ts`, `jsr:@std/path/join.ts`,
+   * or, for frames without a file, V8's location as is: `<anonymous>`,
+   * `native`, or `index 0` for the element a `Promise.all` waits on.
+   */
+  file: string;
+  /** 1-based line number. */
+  line?: number;
+  /** 1-based column number. */
+  column?: number;
+  /** Whether the frame is in application code, not in a dependency or in Deno itself. */
+  inApp: boolean;
+  /** Whether the frame is an `await` continuation (`at async fn (...)`). */
+  async?: boolean;
+}
+
+/**
+ * Parses a V8 stack trace. Lines that are not frames (the `Error: message`
+ * header, continuation lines of multi-line messages) are skipped.
+ * @param stack The raw `stack` string.
+ * @returns The frames, innermost first.
+ */
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n")) {
+    const frame = parseStackLine(line);
+    if (frame) frames.push(frame);
+  }
+  return frames;
+}
+
+/** V8 locations of frames that have no file. */
+const NON_FILE_LOCATION = /^(?:<anonymous>|native|index \d+)$/;
+
+/**
+ * Tells application files from dependencies and runtime code: `jsr:`, `npm:`
+ * and remote (`https:`) modules, `node_modules` directories, Deno-internal
+ * `ext:`/`node:` modules and frames without a file are not in-app.
+ * @param file The file URL or path of a frame.
+ */
+export function isInAppFile(file: string): boolean {
+  if (/^(ext|node|jsr|npm|https?|data|blob):/.test(file)) return false;
+  if (file.includes("/node_modules/") || file.includes("\\node_modules\\")) {
+    return false;
+  }
+  return !NON_FILE_LOCATION.test(file);
+}
+
+function parseStackLine(line: string): StackFrame | null {
+  // `at fn (location)` or `at location`
+  const match = line.match(/^\s*at\s+(?:(.+?)\s+\((.*)\)|(.*?))\s*$/);
+  if (!match) return null;
+
+  let fn = match[1];
+  const location = match[2] ?? match[3];
+  const isAsync = fn?.startsWith("async ") ?? false;
+  if (isAsync) fn = fn!.slice("async ".length);
+
+  const position = location.match(/^(.*?)(?::(\d+))?(?::(\d+))?$/)!;
+  const file = position[1] || location;
+  const frame: StackFrame = { file, inApp: isInAppFile(file) };
+  if (fn) frame.function = fn;
+  if (position[2]) frame.line = Number(position[2]);
+  if (position[3]) frame.column = Number(position[3]);
+  if (isAsync) frame.async = true;
+  return frame;
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { isInAppFile, parseStack } from "./stack.ts";
+
+Deno.test("parses the frames of a V8 stack trace", () => {
+  const stack = [
+    "Error: Config missing",
+    "  in /etc/app.json",
+    "    at loadConfig (file:///app/src/config.ts:12:7)",
+    "    at new App (file:///app/src/app.ts:3:5)",
+    "    at file:///app/main.ts:1:1",
+    "    at async run (jsr:@std/cli/run.ts:40:3)",
+    "    at Object.parse (https://deno.land/x/lib/mod.ts:8:12)",
+    "    at Module.load (ext:deno_node/module.ts:20:1)",
+    "    at eval (<anonymous>)",
+  ].join("\n");
+
+  assert.deepEqual(parseStack(stack), [
+    {
+      function: "loadConfig",
+      file: "file:///app/src/config.ts",
+      line: 12,
+      column: 7,
+      inApp: true,
+    },
+    {
+      function: "new App",
+      file: "file:///app/src/app.ts",
+      line: 3,
+      column: 5,
+      inApp: true,
+    },
+    { file: "file:///app/main.ts", line: 1, column: 1, inApp: true },
+    {
+      function: "run",
+      file: "jsr:@std/cli/run.ts",
+      line: 40,
+      column: 3,
+      inApp: false,
+      async: true,
+    },
+    {
+      function: "Object.parse",
+      file: "https://deno.land/x/lib/mod.ts",
+      line: 8,
+      column: 12,
+      inApp: false,
+    },
+    {
+      function: "Module.load",
+      file: "ext:deno_node/module.ts",
+      line: 20,
+      column: 1,
+      inApp: false,
+    },
+    { function: "eval", file: "<anonymous>", inApp: false },
+  ]);
+});
+
+Deno.test("parses frames without a file as not in-app", () => {
+  const stack = [
+    "Error: boom",
+    "    at fail (file:///app/main.ts:2:9)",
+    "    at Array.map (native)",
+    "    at async Promise.all (index 0)",
+    "    at async Promise.allSettled (index 12)",
+  ].join("\n");
+
+  assert.deepEqual(parseStack(stack).slice(1), [
+    { function: "Array.map", file: "native", inApp: false },
+    {
+      function: "Promise.all",
+      file: "index 0",
+      inApp: false,
+      async: true,
+    },
+    {
+      function: "Promise.allSettled",
+      file: "index 12",
+      inApp: false,
+      async: true,
+    },
+  ]);
+});
+
+Deno.test("tells application files from dependencies", () => {
+  assert.equal(isInAppFile("file:///app/main.ts"), true);
+  assert.equal(isInAppFile("/app/main.js"), true);
+  assert.equal(isInAppFile("C:\\app\\main.ts"), true);
+  assert.equal(isInAppFile("file:///app/node_modules/lib/index.js"), false);
+  assert.equal(isInAppFile("C:\\app\\node_modules\\lib\\index.js"), false);
+  assert.equal(isInAppFile("npm:lodash@4/index.js"), false);
+  assert.equal(isInAppFile("node:fs"), false);
+  assert.equal(isInAppFile("index 0"), false);
+  // Only V8's own locations, not files that happen to look alike
+  assert.equal(isInAppFile("/app/index 0"), true);
+});
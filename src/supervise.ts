@@ -0,0 +1,264 @@
+/**
+ * Crash reporting for code running outside of the main isolate: Web Workers
+ * and child processes.
+ *
+ * A worker imports `./worker.ts` first, which forwards its uncaught errors
+ * and unhandled rejections to the main thread as `WorkerCrashMessage`s (see
+ * `./worker_message.ts`),
+ * together with the worker's scope. `monitorWorker` receives them on the
+ * main thread and reports them through the default reporter, tagged with
+ * `worker:<name>`. Errors of workers without the worker hook (the ones Deno
+ * propagates to the `Worker` object) are reported too, with less detail.
+ * Either way, the reporter's `hook` option decides whether the main process
+ * exits afterwards, as for errors of the main thread.
+ *
+ * `superviseCommand` spawns a child process, passes its stderr through while
+ * keeping the last lines, and reports a `SubprocessCrashReport` (exit code,
+ * signal, stderr tail) when it fails, tagged with `subprocess:<name>`.
+ */
+
+import { type HookEvent, reportAndDecide } from "./exit.ts";
+import type { ErrorReport, SubprocessCrashReport } from "./payload.ts";
+import { type CrashReporter, getCrashReporter } from "./reporter.ts";
+import {
+  type ScopeData,
+  setContext,
+  setEnvironment,
+  setRelease,
+  setTag,
+  setUser,
+  withScope,
+} from "./scope.ts";
+import { serializeValueForReport } from "./utils.ts";
+import {
+  isWorkerCrashMessage,
+  WORKER_CRASH_MESSAGE_KEY,
+} from "./worker_message.ts";
+
+/** Options of `monitorWorker`. */
+export interface MonitorWorkerOptions {
+  /**
+   * Name used for the `worker` tag. Defaults to the name the worker reports
+   * (the `name` passed to `new Worker`), or `"worker"`.
+   */
+  name?: string;
+  /**
+   * Called when the worker crashed (e.g. to start a new one), before the
+   * crash is reported. `event.error` is the serialized error.
+   */
+  onCrash?: (event: HookEvent) => void;
+}
+
+/** Options of `superviseCommand`: `Deno.CommandOptions` plus these fields. */
+export interface SuperviseCommandOptions extends Deno.CommandOptions {
+  /** Name used for the `subprocess` tag and the message. Defaults to the command. */
+  name?: string;
+  /** Number of stderr lines kept for the report. Defaults to 50. */
+  stderrTailLines?: number;
+  /**
+   * Decides whether an exit is a crash worth reporting. Defaults to any
+   * unsuccessful exit.
+   */
+  isCrash?: (status: Deno.CommandStatus) => boolean;
+  /** The reporter to use. Defaults to the default reporter. */
+  reporter?: CrashReporter;
+}
+
+/** A child process spawned by `superviseCommand`. */
+export interface SupervisedProcess {
+  /** The child process. Its `stderr` is consumed by the supervisor. */
+  child: Deno.ChildProcess;
+  /** Resolves with the exit status once the process exited and a crash was reported. */
+  status: Promise<Deno.CommandStatus>;
+}
+
+/** Keep at most this many characters of stderr, however long the lines. */
+const MAX_STDERR_TAIL_LENGTH = 16_000;
+
+/**
+ * Reports the crashes of a worker through the default reporter. Call it right
+ * after creating the worker, before adding other `message` listeners: crash
+ * messages are not passed on to them. Without an endpoint, forwarded crashes
+ * are only logged and other worker errors keep Deno's default behavior.
+ * @param worker The worker.
+ * @param options The worker name and a crash callback.
+ * @returns A function that stops monitoring.
+ */
+export function monitorWorker(
+  worker: Worker,
+  options: MonitorWorkerOptions = {},
+): () => void {
+  const onMessage = (event: MessageEvent) => {
+    if (!isWorkerCrashMessage(event.data)) return;
+    event.stopImmediatePropagation();
+    const { worker: workerName, report, scope } =
+      event.data[WORKER_CRASH_MESSAGE_KEY];
+    const name = options.name ?? workerName ?? "worker";
+    const error = report.type === "error" ? report.error : report.reason;
+    // Without an endpoint there is nothing to report, nor a reason to exit:
+    // the worker hook printed the error, the worker is closed
+    if (!getCrashReporter().endpoint) {
+      console.error(`Worker "${name}" crashed; no crash report endpoint set.`);
+      options.onCrash?.({ type: report.type, error, report });
+      return;
+    }
+    console.error(`\n--- Crash in Worker "${name}" Captured ---`);
+    handleWorkerCrash(name, { type: report.type, error, report }, scope);
+  };
+  // Errors of workers without the worker hook, propagated by Deno
+  const onError = (event: ErrorEvent) => {
+    const reporter = getCrashReporter();
+    // Without an endpoint, keep Deno's default behavior
+    if (!reporter.endpoint) return;
+    event.preventDefault();
+    const name = options.name ?? "worker";
+    console.error(`\n--- Uncaught Error in Worker "${name}" Captured ---`);
+    const report: ErrorReport = {
+      type: "error",
+      message: event.message,
+      filename: event.filename,
+      lineno: event.lineno,
+      colno: event.colno,
+      error: serializeValueForReport(event.error ?? event.message),
+    };
+    handleWorkerCrash(name, { type: "error", error: event.error, report });
+  };
+  const handleWorkerCrash = (
+    name: string,
+    event: HookEvent,
+    scope?: ScopeData,
+  ) => {
+    const reporter = getCrashReporter();
+    const report = () =>
+      withScope(() => {
+        if (scope) applyScope(scope);
+        setTag("worker", name);
+        return reporter.crashReport(event.report);
+      });
+    options.onCrash?.(event);
+    reportAndDecide(reporter, event, `crash in worker "${name}"`, report);
+  };
+
+  worker.addEventListener("message", onMessage);
+  worker.addEventListener("error", onError);
+  return () => {
+    worker.removeEventListener("message", onMessage);
+    worker.removeEventListener("error", onError);
+  };
+}
+
+/**
+ * Spawns a child process and reports it if it crashes. Its stderr is passed
+ * through to this process's stderr, keeping the last lines for the report.
+ * Other `Deno.CommandOptions` (arguments, stdin, stdout, environment) are
+ * passed to `Deno.Command` as-is.
+ *
+ * @example
+ * ```typescript
+ * const { status } = superviseCommand(Deno.execPath(), {
+ *   args: ["run", "indexer.ts"],
+ *   name: "indexer",
+ * });
+ * if (!(await status).success) restartIndexer();
+ * ```
+ * @param command The command to run.
+ * @param options Command options, plus the supervisor settings.
+ * @returns The child process and its status.
+ */
+export function superviseCommand(
+  command: string | URL,
+  options: SuperviseCommandOptions = {},
+): SupervisedProcess {
+  const {
+    name: givenName,
+    stderrTailLines = 50,
+    isCrash = (status) => !status.success,
+    reporter: givenReporter,
+    ...commandOptions
+  } = options;
+  const commandName = command instanceof URL ? command.href : command;
+  const name = givenName ?? commandName;
+  const child = new Deno.Command(command, {
+    ...commandOptions,
+    stderr: "piped",
+  }).spawn();
+  const stderrTail = passThroughStderr(child.stderr, stderrTailLines);
+
+  const status = (async () => {
+    const [status, tail] = await Promise.all([child.status, stderrTail]);
+    if (!isCrash(status)) return status;
+
+    const report: SubprocessCrashReport = {
+      type: "subprocess_crash",
+      message: status.signal
+        ? `${name} was killed by ${status.signal}`
+        : `${name} exited with code ${status.code}`,
+      name,
+      command: commandName,
+      args: (commandOptions.args ?? []).map(String),
+      code: status.code,
+      signal: status.signal,
+      stderrTail: tail,
+    };
+    console.error(`\n--- Subprocess Crash Captured: ${report.message} ---`);
+    const reporter = givenReporter ?? getCrashReporter();
+    try {
+      await withScope(() => {
+        setTag("subprocess", name);
+        return reporter.crashReport(report);
+      });
+    } catch (err) {
+      console.error("Failed to report subprocess crash:", err);
+    }
+    return status;
+  })();
+  return { child, status };
+}
+
+/**
+ * Copies a child's stderr to ours, keeping its last lines.
+ * @returns The last `lines` lines, once the stream ended.
+ */
+async function passThroughStderr(
+  stream: ReadableStream<Uint8Array>,
+  lines: number,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let tail = "";
+  for await (const chunk of stream) {
+    // The child's output is forwarded even if ours is closed
+    try {
+      await writeToStderr(chunk);
+    } catch (_) { /* ignore */ }
+    tail = trimTail(tail + decoder.decode(chunk, { stream: true }), lines);
+  }
+  return trimTail(tail + decoder.decode(), lines).replace(/\n$/, "");
+}
+
+function trimTail(text: string, lines: number): string {
+  text = text.slice(-MAX_STDERR_TAIL_LENGTH);
+  // A trailing newline ends the last line rather than starting a new one
+  const parts = text.split("\n");
+  const keep = text.endsWith("\n") ? lines + 1 : lines;
+  return parts.length > keep ? parts.slice(-keep).join("\n") : text;
+}
+
+async function writeToStderr(data: Uint8Array) {
+  let written = 0;
+  while (written < data.length) {
+    written += await Deno.stderr.write(data.subarray(written));
+  }
+}
+
+/** Copies a worker's scope into the current scope. */
+function applyScope(scope: ScopeData) {
+  for (const [key, value] of Object.entries(scope.tags ?? {})) {
+    setTag(key, value);
+  }
+  if (scope.user) setUser(scope.user);
+  for (const [name, context] of Object.entries(scope.contexts ?? {})) {
+    setContext(name, context);
+  }
+  if (scope.release !== undefined) setRelease(scope.release);
+  if (scope.environment !== undefined) setEnvironment(scope.environment);
+}
@@ -0,0 +1,277 @@
+/**
+ * Client-side throttling of crash reports: deduplication, sampling and a
+ * per-session cap.
+ *
+ * An app crashing on startup under a supervisor that restarts it, or a
+ * `crashReport` call in a hot loop, would otherwise send the same report over
+ * and over. Before the user is asked, every report goes through three checks
+ * (`Throttle.check`):
+ *
+ * 1. **Deduplication:** a report whose fingerprint (see `./fingerprint.ts`) was
+ *    sent within `dedupeWindowMs` is suppressed. The fingerprints are
+ *    kept in a small JSON file, so the window spans restarts:
+ *
+ *    ```json
+ *    { "seen": { "3f2a...": 1714564800000 }, "suppressed": 12 }
+ *    ```
+ * 2. **Sampling:** only a fraction of the reports is kept, overall or per
+ *    report type (`sampleRate`).
+ * 3. **Session cap:** at most `maxReportsPerSession` reports per process.
+ *
+ * A report only counts as sent for deduplication and the session cap once it
+ * was delivered or kept in the outbox (`Throttle.commit`): a report the user
+ * declined, or whose delivery failed, does not suppress the next occurrence.
+ *
+ * The number of suppressed duplicates is sent as `suppressedDuplicates` with
+ * the next report that is actually sent, so the collector still learns how
+ * often the crash happened.
+ */
+
+import { computeFingerprint } from "./fingerprint.ts";
+import { defaultOutboxDir } from "./outbox.ts";
+import type { CrashReportPayload } from "./payload.ts";
+
+/** Throttling configuration, passed as `CrashReporterOptions.throttle`. */
+export interface ThrottleOptions {
+  /**
+   * Reports whose fingerprint was sent within this window are suppressed. `0` disables deduplication. Defaults to 10 minutes.
+   */
+  dedupeWindowMs?: number;
+  /**
+   * File persisting the deduplication state across restarts, or `null` to
+   * keep it in memory only. Defaults to `crash-report/<appName>/throttle.json`
+   * inside the user's cache directory. Requires read/write permissions for it.
+   */
+  stateFile?: string | null;
+  /**
+   * Fraction of reports to keep, from `0` to `1`: one rate for all reports,
+   * or rates per report type (e.g. `{ message: 0.1 }`); types without a rate
+   * are all kept. Defaults to `1`.
+   */
+  sampleRate?: number | Record<string, number>;
+  /** Maximum number of reports sent per process. Unlimited by default. */
+  maxReportsPerSession?: number;
+}
+
+/** Throttling configuration after defaults have been applied. */
+export interface ResolvedThrottleOptions {
+  dedupeWindowMs: number;
+  stateFile: string | null;
+  sampleRate: number | Record<string, number>;
+  maxReportsPerSession: number;
+}
+
+/** Contents of the state file. */
+export interface ThrottleState {
+  /** When a report with each fingerprint was last sent (ms since epoch). */
+  seen: Record<string, number>;
+  /** Duplicates suppressed since the last report that was sent. */
+  suppressed: number;
+}
+
+/** Why a report was suppressed. */
+export type ThrottleReason = "duplicate" | "sampled" | "session_cap";
+
+/** Result of `Throttle.check`. */
+export type ThrottleDecision =
+  | { ok: true; fingerprint: string }
+  | { ok: false; reason: ThrottleReason; fingerprint: string };
+
+/** The throttling state of one reporter, see `createThrottle`. */
+export interface Throttle {
+  /**
+   * Decides whether a report may go on to the consent step. Only a
+   * suppressed duplicate is recorded (see `suppressedCount`); the report
+   * counts as sent once `commit` is called.
+   */
+  check(payload: CrashReportPayload): Promise<ThrottleDecision>;
+  /**
+   * Records that the report with this fingerprint was delivered or kept in
+   * the outbox: later duplicates are suppressed, and it counts towards the
+   * session cap.
+   */
+  commit(fingerprint: string): Promise<void>;
+  /** Returns the number of duplicates suppressed since the last sent report. */
+  suppressedCount(): Promise<number>;
+  /**
+   * Records that a report carrying `count` suppressed duplicates was sent,
+   * so they are not reported again.
+   */
+  acknowledgeSuppressed(count: number): Promise<void>;
+}
+
+/** Fingerprints kept in the state, the most recent ones win. */
+const MAX_SEEN_FINGERPRINTS = 200;
+
+/**
+ * Applies defaults to the `throttle` reporter option.
+ * @param options The user-supplied option (`true` enables all defaults).
+ * @param appName The application name, used for the default state file.
+ * @returns The resolved options, or `null` if throttling is disabled.
+ */
+export function resolveThrottleOptions(
+  options: boolean | ThrottleOptions | undefined,
+  appName?: string,
+): ResolvedThrottleOptions | null {
+  if (!options) return null;
+  const opts = options === true ? {} : options;
+  return {
+    dedupeWindowMs: opts.dedupeWindowMs ?? 10 * 60 * 1000,
+    stateFile: opts.stateFile === undefined
+      ? defaultThrottleFile(appName)
+      : opts.stateFile,
+    sampleRate: opts.sampleRate ?? 1,
+    maxReportsPerSession: opts.maxReportsPerSession ?? Infinity,
+  };
+}
+
+/**
+ * Returns the default state file of an application, next to its outbox.
+ * Requires `--allow-env` for `HOME`/`XDG_CACHE_HOME` (`LOCALAPPDATA` on Windows).
+ * @param appName The application name, `"default"` if not given.
+ */
+export function defaultThrottleFile(appName = "default"): string {
+  return defaultOutboxDir(appName).replace(/outbox$/, "throttle.json");
+}
+
+/**
+ * Creates the throttling state of a reporter. The session count lives in
+ * memory; the deduplication state in the state file (or in memory if there is
+ * none, or it cannot be accessed).
+ * @param options The resolved options.
+ */
+export function createThrottle(options: ResolvedThrottleOptions): Throttle {
+  let memoryState: ThrottleState = { seen: {}, suppressed: 0 };
+  let useFile = options.stateFile !== null;
+  let sessionCount = 0;
+  // Reports may be handled concurrently; state updates must not interleave
+  let queue: Promise<unknown> = Promise.resolve();
+  const locked = <T>(fn: () => Promise<T>): Promise<T> => {
+    const result = queue.then(fn);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  const load = async (): Promise<ThrottleState> => {
+    if (!useFile) return memoryState;
+    try {
+      memoryState = await readThrottleState(options.stateFile!);
+    } catch (err) {
+      fileFailed(err);
+    }
+    return memoryState;
+  };
+  const save = async (state: ThrottleState) => {
+    memoryState = state;
+    if (!useFile) return;
+    try {
+      await writeThrottleState(options.stateFile!, state);
+    } catch (err) {
+      fileFailed(err);
+    }
+  };
+  const fileFailed = (err: unknown) => {
+    useFile = false;
+    console.error(
+      `Cannot use throttle state file ${options.stateFile}, keeping the state in memory:`,
+      err instanceof Error ? err.message : err,
+    );
+  };
+
+  return {
+    check: (payload) =>
+      locked(async () => {
+        const fingerprint = await computeFingerprint(payload);
+        const state = await load();
+        pruneSeen(state, Date.now() - options.dedupeWindowMs);
+
+        if (options.dedupeWindowMs > 0 && fingerprint in state.seen) {
+          state.suppressed++;
+          await save(state);
+          return { ok: false, reason: "duplicate", fingerprint };
+        }
+        if (Math.random() >= sampleRateFor(options, payload)) {
+          return { ok: false, reason: "sampled", fingerprint };
+        }
+        if (sessionCount >= options.maxReportsPerSession) {
+          return { ok: false, reason: "session_cap", fingerprint };
+        }
+        return { ok: true, fingerprint };
+      }),
+    commit: (fingerprint) =>
+      locked(async () => {
+        sessionCount++;
+        if (options.dedupeWindowMs <= 0) return;
+        const state = await load();
+        const now = Date.now();
+        pruneSeen(state, now - options.dedupeWindowMs);
+        state.seen[fingerprint] = now;
+        await save(state);
+      }),
+    suppressedCount: () => locked(async () => (await load()).suppressed),
+    acknowledgeSuppressed: (count) =>
+      locked(async () => {
+        if (count <= 0) return;
+        const state = await load();
+        // Duplicates suppressed meanwhile are kept for the next report
+        state.suppressed = Math.max(0, state.suppressed - count);
+        await save(state);
+      }),
+  };
+}
+
+/**
+ * Reads the state file.
+ * @returns The state; an empty one if the file does not exist or is invalid.
+ */
+export async function readThrottleState(path: string): Promise<ThrottleState> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return { seen: {}, suppressed: 0 };
+    throw err;
+  }
+  try {
+    const stored = JSON.parse(text) as Partial<ThrottleState>;
+    const seen: Record<string, number> = {};
+    if (typeof stored.seen === "object" && stored.seen !== null) {
+      for (const [fingerprint, time] of Object.entries(stored.seen)) {
+        if (typeof time === "number") seen[fingerprint] = time;
+      }
+    }
+    const suppressed = Number.isSafeInteger(stored.suppressed)
+      ? Math.max(0, stored.suppressed!)
+      : 0;
+    return { seen, suppressed };
+  } catch (_) {
+    return { seen: {}, suppressed: 0 }; // Corrupt file, start over
+  }
+}
+
+/** Writes the state file, creating its directory if needed. */
+export async function writeThrottleState(
+  path: string,
+  state: ThrottleState,
+): Promise<void> {
+  const dir = path.replace(/[\\/][^\\/]*$/, "");
+  if (dir !== path) await Deno.mkdir(dir, { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(state) + "\n");
+}
+
+/** Drops fingerprints seen before `since`, and the oldest beyond the limit. */
+function pruneSeen(state: ThrottleState, since: number) {
+  const entries = Object.entries(state.seen)
+    .filter(([, time]) => time >= since)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_SEEN_FINGERPRINTS);
+  state.seen = Object.fromEntries(entries);
+}
+
+function sampleRateFor(
+  options: ResolvedThrottleOptions,
+  payload: CrashReportPayload,
+): number {
+  if (typeof options.sampleRate === "number") return options.sampleRate;
+  return options.sampleRate[payload.report.type ?? "unknown"] ?? 1;
+}
@@ -0,0 +1,199 @@
+import assert from "node:assert/strict";
+import { createScriptedDialogBackend } from "./dialog.ts";
+import { type CrashReportPayload, toReportContent } from "./payload.ts";
+import { createCrashReporter } from "./reporter.ts";
+import {
+  createThrottle,
+  readThrottleState,
+  resolveThrottleOptions,
+  type ThrottleOptions,
+  writeThrottleState,
+} from "./throttle.ts";
+
+/** Creates a throttle keeping its state in a temporary file. */
+async function setup(options: ThrottleOptions = {}) {
+  const dir = await Deno.makeTempDir({ prefix: "crash-report-throttle-" });
+  const resolved = resolveThrottleOptions({
+    stateFile: `${dir}/throttle.json`,
+    ...options,
+  })!;
+  return {
+    options: resolved,
+    stateFile: resolved.stateFile!,
+    throttle: createThrottle(resolved),
+    [Symbol.asyncDispose]: () => Deno.remove(dir, { recursive: true }),
+  };
+}
+
+function payload(report: unknown): CrashReportPayload {
+  return {
+    schemaVersion: 1,
+    timestamp: new Date().toISOString(),
+    report: toReportContent(report),
+    reporterInfo: { os: "linux", arch: "x86_64", denoVersion: "2.0.0" },
+  };
+}
+
+Deno.test("suppresses duplicates of a committed report", async () => {
+  await using env = await setup();
+  const crash = payload("Disk full");
+
+  const first = await env.throttle.check(crash);
+  assert.equal(first.ok, true);
+  await env.throttle.commit(first.fingerprint);
+
+  assert.deepEqual(await env.throttle.check(payload("Disk full")), {
+    ok: false,
+    reason: "duplicate",
+    fingerprint: first.fingerprint,
+  });
+  assert.equal((await env.throttle.check(payload("Out of memory"))).ok, true);
+  assert.equal(await env.throttle.suppressedCount(), 1);
+});
+
+Deno.test("does not suppress duplicates of an uncommitted report", async () => {
+  await using env = await setup({ maxReportsPerSession: 1 });
+
+  // E.g. declined by the user, or its delivery failed
+  assert.equal((await env.throttle.check(payload("Disk full"))).ok, true);
+
+  assert.equal((await env.throttle.check(payload("Disk full"))).ok, true);
+  assert.equal(await env.throttle.suppressedCount(), 0);
+  assert.deepEqual(await readThrottleState(env.stateFile), {
+    seen: {},
+    suppressed: 0,
+  });
+});
+
+Deno.test("keeps the deduplication state across restarts", async () => {
+  await using env = await setup();
+  const decision = await env.throttle.check(payload("Disk full"));
+  await env.throttle.commit(decision.fingerprint);
+
+  const restarted = createThrottle(env.options);
+  assert.equal((await restarted.check(payload("Disk full"))).ok, false);
+
+  const state = await readThrottleState(env.stateFile);
+  assert.deepEqual(Object.keys(state.seen), [decision.fingerprint]);
+  assert.equal(state.suppressed, 1);
+});
+
+Deno.test("lets duplicates through once the window passed", async () => {
+  await using env = await setup({ dedupeWindowMs: 60_000 });
+  const recent = await env.throttle.check(payload("Disk full"));
+  const old = await env.throttle.check(payload("Out of memory"));
+  await writeThrottleState(env.stateFile, {
+    seen: {
+      [recent.fingerprint]: Date.now() - 1000,
+      [old.fingerprint]: Date.now() - 61_000,
+    },
+    suppressed: 0,
+  });
+
+  assert.equal((await env.throttle.check(payload("Disk full"))).ok, false);
+  assert.equal((await env.throttle.check(payload("Out of memory"))).ok, true);
+  // Expired fingerprints are dropped from the file
+  const { seen } = await readThrottleState(env.stateFile);
+  assert.deepEqual(Object.keys(seen), [recent.fingerprint]);
+});
+
+Deno.test("acknowledging keeps duplicates suppressed meanwhile", async () => {
+  await using env = await setup();
+  const decision = await env.throttle.check(payload("Disk full"));
+  await env.throttle.commit(decision.fingerprint);
+  await env.throttle.check(payload("Disk full"));
+  await env.throttle.check(payload("Disk full"));
+
+  const sent = await env.throttle.suppressedCount();
+  await env.throttle.check(payload("Disk full"));
+  await env.throttle.acknowledgeSuppressed(sent);
+
+  assert.equal(sent, 2);
+  assert.equal(await env.throttle.suppressedCount(), 1);
+});
+
+Deno.test("samples overall and per report type", async () => {
+  await using env = await setup({ sampleRate: { message: 0 } });
+  const message = await env.throttle.check(payload("Disk full"));
+  assert.equal(message.ok === false && message.reason, "sampled");
+  // Types without a rate are all kept
+  const error = await env.throttle.check(payload({ type: "error" }));
+  assert.equal(error.ok, true);
+
+  await using none = await setup({ sampleRate: 0 });
+  const decision = await none.throttle.check(payload({ type: "error" }));
+  assert.equal(decision.ok === false && decision.reason, "sampled");
+});
+
+Deno.test("caps the reports sent per session", async () => {
+  await using env = await setup({ maxReportsPerSession: 2 });
+
+  for (const message of ["One", "Two"]) {
+    const decision = await env.throttle.check(payload(message));
+    assert.equal(decision.ok, true);
+    await env.throttle.commit(decision.fingerprint);
+  }
+  const decision = await env.throttle.check(payload("Three"));
+  assert.equal(decision.ok === false && decision.reason, "session_cap");
+});
+
+Deno.test("starts over from a corrupt state file", async () => {
+  await using env = await setup();
+  await Deno.writeTextFile(env.stateFile, "{ not json");
+
+  assert.deepEqual(await readThrottleState(env.stateFile), {
+    seen: {},
+    suppressed: 0,
+  });
+  assert.equal((await env.throttle.check(payload("Disk full"))).ok, true);
+});
+
+Deno.test("keeps the state in memory if the file is unusable", async () => {
+  await using env = await setup();
+  // A directory cannot be written as a file
+  await Deno.mkdir(env.stateFile);
+
+  const decision = await env.throttle.check(payload("Disk full"));
+  assert.equal(decision.ok, true);
+  await env.throttle.commit(decision.fingerprint);
+  assert.equal((await env.throttle.check(payload("Disk full"))).ok, false);
+});
+
+Deno.test("reporter: declined and failed reports do not suppress", async () => {
+  await using env = await setup();
+  let status = 400;
+  const sent: CrashReportPayload[] = [];
+  const dialog = createScriptedDialogBackend([
+    { choice: "skip" },
+    { choice: "send" },
+    { choice: "send" },
+    { choice: "send" },
+  ]);
+  const reporter = createCrashReporter({
+    endpoint: "http://collector.test/api/report",
+    scrub: false,
+    dialogs: [dialog],
+    throttle: { stateFile: env.stateFile },
+    transport: (_url, init) => {
+      sent.push(JSON.parse(String(init.body)));
+      return Promise.resolve(new Response(null, { status }));
+    },
+  });
+
+  // Declined, then rejected by the collector: both are asked about
+  await reporter.crashReport("Disk full");
+  await reporter.crashReport("Disk full");
+  assert.equal(dialog.prompts.length, 2);
+  assert.equal(sent.length, 1);
+
+  status = 202;
+  await reporter.crashReport("Disk full");
+  assert.equal(sent.length, 2);
+  // Now the duplicate is suppressed, and counted with the next report
+  await reporter.crashReport("Disk full");
+  assert.equal(dialog.prompts.length, 3);
+  await reporter.crashReport("Out of memory");
+  assert.equal(sent.length, 3);
+  assert.equal(sent[2].suppressedDuplicates, 1);
+  assert.equal(await env.throttle.suppressedCount(), 0);
+});
@@ -1,56 +1,295 @@
+/**
+ * Serialization of arbitrary values (thrown errors, rejection reasons, report
+ * context) into JSON-safe data.
+ *
+ * Values that JSON cannot represent are replaced by tagged objects carrying a
+ * `$type` field, so they survive `JSON.stringify` instead of being dropped or
+ * making it throw:
+ *
+ * | Value                           | Serialized as                                          |
+ * | ------------------------------- | ------------------------------------------------------ |
+ * | `undefined`                     | `{ $type: "undefined" }`                               |
+ * | `NaN`, `Infinity`               | `{ $type: "number", value: "NaN" }`                    |
+ * | `10n`                           | `{ $type: "bigint", value: "10" }`                     |
+ * | `Symbol("x")`                   | `{ $type: "symbol", description: "x" }`                |
+ * | functions                       | `{ $type: "function", name }`                          |
+ * | `Map`                           | `{ $type: "Map", size, entries: [[key, value], ...] }` |
+ * | `Set`                           | `{ $type: "Set", size, values: [...] }`                |
+ * | typed arrays                    | `{ $type: "Uint8Array", length, values: [...] }`       |
+ * | `ArrayBuffer`, `DataView`       | `{ $type: "ArrayBuffer", byteLength }`                 |
+ * | `RegExp`                        | `{ $type: "RegExp", value: "/a+/g" }`                  |
+ * | `Promise`, `WeakMap`, `WeakSet` | `{ $type: "Promise" }`                                 |
+ * | circular references             | `{ $type: "circular" }`                                |
+ * | values nested too deeply        | `{ $type: "truncated", reason: "depth" }`              |
+ * | values past the size budget     | `{ $type: "truncated", reason: "size" }`               |
+ * | omitted collection items        | `{ $type: "truncated", remaining: 42 }`                |
+ * | omitted object keys             | `$truncated: 42` on the object                         |
+ * | properties whose getter threw   | `{ $type: "unserializable", error: "..." }`            |
+ *
+ * Serialized errors also carry their `stack` parsed into `frames` (see
+ * `./stack.ts`).
+ *
+ * Dates become ISO strings, and objects with a `toJSON` method are serialized
+ * through it, as `JSON.stringify` would.
+ */
+
+import { parseStack } from "./stack.ts";
+
+/**
+ * Limits applied by `serializeValueForReport`, so a huge or deeply nested
+ * value cannot blow up the report.
+ */
+export interface SerializeOptions {
+  /** Nesting depth after which values are replaced by a marker. Defaults to 10. */
+  maxDepth?: number;
+  /** Strings longer than this are cut. Defaults to 10 000 characters. */
+  maxStringLength?: number;
+  /** Items kept per array, `Map`, `Set` or typed array, and keys per object. Defaults to 100. */
+  maxItems?: number;
+  /** Total number of values serialized; the rest is replaced by markers. Defaults to 5 000. */
+  maxNodes?: number;
+}
+
+interface SerializeState extends Required<SerializeOptions> {
+  /** Number of values serialized so far. */
+  nodes: number;
+  /** Objects on the path from the root to the current value. */
+  ancestors: Set<object>;
+}
+
 /**
  * Serializes a value for inclusion in the crash report, paying special
  * attention to Error objects to capture stack traces and messages.
+ *
+ * Errors keep their `name`, `message` and `stack`, plus every own property
+ * (like `code`), serialized recursively: `cause` chains and the `errors` of an
+ * `AggregateError` are serialized as errors too. `DOMException`s keep their
+ * `code`. Thrown non-Error values (`throw "hello world"`) are serialized like
+ * any other value.
+ *
  * @param value The value to serialize (e.g., event.error, event.reason)
+ * @param options Depth and size limits.
  * @returns A representation suitable for JSON stringification.
  */
-// deno-lint-ignore no-explicit-any
-export function serializeValueForReport(value: unknown): any {
-  if (value instanceof Error) {
-    // Capture standard error properties
-    // deno-lint-ignore no-explicit-any
-    const errorObj: Record<string, any> = {
-      name: value.name,
-      message: value.message,
-      stack: value.stack,
-    };
-    // Capture any additional own properties (enumerable or not), like 'code'
-    Object.getOwnPropertyNames(value).forEach((key) => {
-      if (key !== "name" && key !== "message" && key !== "stack") {
-        // deno-lint-ignore no-explicit-any
-        errorObj[key] = (value as any)[key];
-      }
-    });
-    return errorObj;
+export function serializeValueForReport(
+  value: unknown,
+  options: SerializeOptions = {},
+  // deno-lint-ignore no-explicit-any
+): any {
+  return serialize(value, 0, {
+    maxDepth: options.maxDepth ?? 10,
+    maxStringLength: options.maxStringLength ?? 10_000,
+    maxItems: options.maxItems ?? 100,
+    maxNodes: options.maxNodes ?? 5_000,
+    nodes: 0,
+    ancestors: new Set(),
+  });
+}
+
+function serialize(
+  value: unknown,
+  depth: number,
+  state: SerializeState,
+): unknown {
+  if (++state.nodes > state.maxNodes) {
+    return { $type: "truncated", reason: "size" };
   }
 
-  // Handle AggregateError specifically if available (Deno supports it)
+  switch (typeof value) {
+    case "string":
+      return truncateString(value, state);
+    case "number":
+      return Number.isFinite(value)
+        ? value
+        : { $type: "number", value: String(value) };
+    case "boolean":
+      return value;
+    case "undefined":
+      return { $type: "undefined" };
+    case "bigint":
+      return { $type: "bigint", value: value.toString() };
+    case "symbol":
+      return { $type: "symbol", description: value.description };
+    case "function":
+      return { $type: "function", name: value.name || "anonymous" };
+  }
+  if (value === null) return null;
+
+  const object = value as object;
+  if (state.ancestors.has(object)) return { $type: "circular" };
+  if (depth >= state.maxDepth) return { $type: "truncated", reason: "depth" };
+
+  state.ancestors.add(object);
+  try {
+    return serializeObject(object, depth, state);
+  } finally {
+    state.ancestors.delete(object);
+  }
+}
+
+function serializeObject(
+  value: object,
+  depth: number,
+  state: SerializeState,
+): unknown {
+  if (value instanceof Error) return serializeError(value, depth, state);
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+  if (value instanceof RegExp) return { $type: "RegExp", value: String(value) };
+  if (value instanceof Map) {
+    return {
+      $type: "Map",
+      size: value.size,
+      entries: serializeItems(
+        value.entries(),
+        value.size,
+        ([key, item]) => [
+          serialize(key, depth + 1, state),
+          serialize(item, depth + 1, state),
+        ],
+        state,
+      ),
+    };
+  }
+  if (value instanceof Set) {
+    return {
+      $type: "Set",
+      size: value.size,
+      values: serializeItems(
+        value.values(),
+        value.size,
+        (item) => serialize(item, depth + 1, state),
+        state,
+      ),
+    };
+  }
+  if (value instanceof ArrayBuffer || value instanceof DataView) {
+    return { $type: value.constructor.name, byteLength: value.byteLength };
+  }
+  if (ArrayBuffer.isView(value)) {
+    // A typed array; elements are numbers, or bigints for the 64-bit ones
+    const array = value as unknown as ArrayLike<number | bigint>;
+    return {
+      $type: value.constructor.name,
+      length: array.length,
+      values: serializeItems(
+        Array.from(
+          { length: Math.min(array.length, state.maxItems) },
+          (_, i) => array[i],
+        ).values(),
+        array.length,
+        (item) => serialize(item, depth + 1, state),
+        state,
+      ),
+    };
+  }
+  if (Array.isArray(value)) {
+    return serializeItems(
+      value.values(),
+      value.length,
+      (item) => serialize(item, depth + 1, state),
+      state,
+    );
+  }
   if (
-    typeof AggregateError !== "undefined" && value instanceof AggregateError
+    value instanceof Promise || value instanceof WeakMap ||
+    value instanceof WeakSet
   ) {
-    // deno-lint-ignore no-explicit-any
-    const errorObj: Record<string, any> = {
-      name: value.name,
-      message: value.message,
-      stack: value.stack,
-      // Recursively serialize the aggregated errors
-      errors: value.errors.map(serializeValueForReport),
-    };
-    Object.getOwnPropertyNames(value).forEach((key) => {
-      if (
-        key !== "name" && key !== "message" && key !== "stack" &&
-        key !== "errors"
-      ) {
-        // deno-lint-ignore no-explicit-any
-        errorObj[key] = (value as any)[key];
-      }
-    });
-    return errorObj;
-  }
-
-  // For non-Error values, return them as is. JSON.stringify will handle
-  // primitives, plain objects, and arrays. It might produce less useful
-  // output for other complex objects (like Promises, Maps, Sets), but
-  // this is generally acceptable for a crash report's context details.
-  return value;
+    return { $type: value.constructor.name };
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    const json = tryGet(() => (value as { toJSON(): unknown }).toJSON());
+    // The object stays in `ancestors`, so `toJSON() { return this }` is caught
+    return "error" in json
+      ? { $type: "unserializable", error: json.error }
+      : serialize(json.value, depth, state);
+  }
+
+  const result: Record<string, unknown> = {};
+  const keys = Object.keys(value);
+  for (const key of keys.slice(0, state.maxItems)) {
+    result[key] = serializeProperty(value, key, depth, state);
+  }
+  if (keys.length > state.maxItems) {
+    result.$truncated = keys.length - state.maxItems;
+  }
+  return result;
+}
+
+function serializeError(error: Error, depth: number, state: SerializeState) {
+  // Capture standard error properties (getters on the prototype for some
+  // errors, like DOMException)
+  const result: Record<string, unknown> = {
+    name: truncateString(String(error.name), state),
+    message: truncateString(String(error.message), state),
+    stack: typeof error.stack === "string"
+      ? truncateString(error.stack, state)
+      : undefined,
+    frames: typeof error.stack === "string"
+      ? parseStack(error.stack).slice(0, state.maxItems)
+      : undefined,
+  };
+  if (typeof DOMException !== "undefined" && error instanceof DOMException) {
+    result.code = error.code;
+  }
+  // Capture any additional own properties (enumerable or not), like 'code',
+  // 'cause' and the 'errors' of an AggregateError
+  for (const key of Object.getOwnPropertyNames(error)) {
+    if (key === "name" || key === "message" || key === "stack") continue;
+    result[key] = serializeProperty(error, key, depth, state);
+  }
+  return result;
+}
+
+/** Serializes a property, turning a throwing getter into a marker. */
+function serializeProperty(
+  object: object,
+  key: string,
+  depth: number,
+  state: SerializeState,
+): unknown {
+  const property = tryGet(() => (object as Record<string, unknown>)[key]);
+  return "error" in property
+    ? { $type: "unserializable", error: property.error }
+    : serialize(property.value, depth + 1, state);
+}
+
+/**
+ * Serializes up to `maxItems` items of a collection, followed by a marker
+ * with the number of omitted items.
+ */
+function serializeItems<T>(
+  items: Iterator<T>,
+  size: number,
+  serializeItem: (item: T) => unknown,
+  state: SerializeState,
+): unknown[] {
+  const result: unknown[] = [];
+  for (let i = 0; i < Math.min(size, state.maxItems); i++) {
+    const next = items.next();
+    if (next.done) break;
+    result.push(serializeItem(next.value));
+  }
+  if (size > state.maxItems) {
+    result.push({ $type: "truncated", remaining: size - state.maxItems });
+  }
+  return result;
+}
+
+function truncateString(value: string, state: SerializeState): string {
+  if (value.length <= state.maxStringLength) return value;
+  return `${value.slice(0, state.maxStringLength)}… [${
+    value.length - state.maxStringLength
+  } more characters]`;
+}
+
+function tryGet(
+  get: () => unknown,
+): { value: unknown } | { error: string } {
+  try {
+    return { value: get() };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
 }
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { serializeValueForReport } from "./utils.ts";
+
+Deno.test("serializes AggregateError with its errors and cause", () => {
+  const cause = new RangeError("out of range");
+  const error = new AggregateError(
+    [new TypeError("first"), "second"],
+    "several failed",
+    { cause },
+  );
+
+  const result = serializeValueForReport(error);
+
+  assert.equal(result.name, "AggregateError");
+  assert.equal(result.message, "several failed");
+  assert.equal(typeof result.stack, "string");
+  assert.ok(result.frames.length > 0);
+  assert.equal(typeof result.frames[0].file, "string");
+  assert.deepEqual(
+    result.errors.map((e: unknown) =>
+      typeof e === "string" ? e : [(e as Error).name, (e as Error).message]
+    ),
+    [["TypeError", "first"], "second"],
+  );
+  assert.equal(result.cause.name, "RangeError");
+  assert.equal(result.cause.message, "out of range");
+});
+
+Deno.test("keeps custom properties of errors", () => {
+  const error = Object.assign(new Error("not found"), { code: "ENOENT" });
+  const result = serializeValueForReport(error);
+  assert.equal(result.code, "ENOENT");
+});
+
+Deno.test("marks cycles but serializes shared references", () => {
+  const shared = { id: 1 };
+  const value: Record<string, unknown> = { a: shared, b: shared, list: [] };
+  value.self = value;
+  (value.list as unknown[]).push(value.list);
+
+  const result = serializeValueForReport(value);
+
+  assert.deepEqual(result, {
+    a: { id: 1 },
+    b: { id: 1 },
+    list: [{ $type: "circular" }],
+    self: { $type: "circular" },
+  });
+  // The result survives JSON
+  assert.deepEqual(JSON.parse(JSON.stringify(result)), result);
+});
+
+Deno.test("serializes values JSON cannot represent", () => {
+  const result = serializeValueForReport({
+    map: new Map<unknown, unknown>([["key", 1], [2, new Set(["x"])]]),
+    set: new Set([1, 2]),
+    big: 10n,
+    symbol: Symbol("token"),
+    nan: NaN,
+    missing: undefined,
+    fn: function handler() {},
+    date: new Date(0),
+    regexp: /a+/g,
+  });
+
+  assert.deepEqual(result, {
+    map: {
+      $type: "Map",
+      size: 2,
+      entries: [["key", 1], [2, { $type: "Set", size: 1, values: ["x"] }]],
+    },
+    set: { $type: "Set", size: 2, values: [1, 2] },
+    big: { $type: "bigint", value: "10" },
+    symbol: { $type: "symbol", description: "token" },
+    nan: { $type: "number", value: "NaN" },
+    missing: { $type: "undefined" },
+    fn: { $type: "function", name: "handler" },
+    date: "1970-01-01T00:00:00.000Z",
+    regexp: { $type: "RegExp", value: "/a+/g" },
+  });
+});
+
+Deno.test("serializes typed arrays and buffers", () => {
+  const result = serializeValueForReport({
+    bytes: new Uint8Array([1, 2, 3]),
+    big: new BigInt64Array([5n]),
+    buffer: new ArrayBuffer(8),
+  });
+
+  assert.deepEqual(result, {
+    bytes: { $type: "Uint8Array", length: 3, values: [1, 2, 3] },
+    big: {
+      $type: "BigInt64Array",
+      length: 1,
+      values: [{ $type: "bigint", value: "5" }],
+    },
+    buffer: { $type: "ArrayBuffer", byteLength: 8 },
+  });
+});
+
+Deno.test("keeps the name and code of DOMException", () => {
+  const result = serializeValueForReport(
+    new DOMException("Operation aborted", "AbortError"),
+  );
+  assert.equal(result.name, "AbortError");
+  assert.equal(result.message, "Operation aborted");
+  assert.equal(result.code, DOMException.ABORT_ERR);
+});
+
+Deno.test("serializes thrown non-Error values as-is", () => {
+  let thrown: unknown;
+  try {
+    throw "hello world";
+  } catch (err) {
+    thrown = err;
+  }
+  assert.equal(serializeValueForReport(thrown), "hello world");
+  assert.equal(serializeValueForReport(null), null);
+  assert.deepEqual(serializeValueForReport({ reason: 42 }), { reason: 42 });
+});
+
+Deno.test("replaces values nested deeper than maxDepth", () => {
+  const result = serializeValueForReport(
+    { a: { b: { c: { d: 1 } } } },
+    { maxDepth: 2 },
+  );
+  assert.deepEqual(result, {
+    a: { b: { $type: "truncated", reason: "depth" } },
+  });
+});
+
+Deno.test("cuts long strings and collections", () => {
+  const options = { maxStringLength: 3, maxItems: 2 };
+
+  assert.equal(
+    serializeValueForReport("abcdef", options),
+    "abc… [3 more characters]",
+  );
+  assert.deepEqual(serializeValueForReport([1, 2, 3, 4], options), [
+    1,
+    2,
+    { $type: "truncated", remaining: 2 },
+  ]);
+  assert.deepEqual(serializeValueForReport(new Set([1, 2, 3]), options), {
+    $type: "Set",
+    size: 3,
+    values: [1, 2, { $type: "truncated", remaining: 1 }],
+  });
+  assert.deepEqual(serializeValueForReport({ a: 1, b: 2, c: 3 }, options), {
+    a: 1,
+    b: 2,
+    $truncated: 1,
+  });
+});
+
+Deno.test("stops after maxNodes values", () => {
+  const result = serializeValueForReport([1, 2, 3, 4], { maxNodes: 3 });
+  assert.deepEqual(result, [
+    1,
+    2,
+    { $type: "truncated", reason: "size" },
+    { $type: "truncated", reason: "size" },
+  ]);
+});
+
+Deno.test("turns throwing getters and toJSON into markers", () => {
+  const value = {
+    get broken() {
+      throw new Error("getter failed");
+    },
+    custom: { toJSON: () => ({ as: "json" }) },
+    failing: {
+      toJSON() {
+        throw new Error("toJSON failed");
+      },
+    },
+  };
+  assert.deepEqual(serializeValueForReport(value), {
+    broken: { $type: "unserializable", error: "getter failed" },
+    custom: { as: "json" },
+    failing: { $type: "unserializable", error: "toJSON failed" },
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @module crash-report/worker
+ *
+ * Crash Report Hook Module for Web Workers.
+ *
+ * Import this module **once** at the very beginning of the worker script. It
+ * attaches listeners for uncaught errors and unhandled rejections inside the
+ * worker, prints them, and forwards them (serialized, together with the
+ * worker's scope: `setTag`, `setUser`, ...) to the main thread, where
+ * `monitorWorker` reports them through the main thread's reporter, tagged
+ * with the worker's name. The worker then closes, as it would after an
+ * uncaught error.
+ *
+ * The main thread must call `monitorWorker` on the worker; otherwise the crash
+ * messages arrive as plain `message` events.
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * import "jsr:@sigmasd/crash-report/worker";
+ *
+ * self.onmessage = (event) => processJob(event.data);
+ * ```
+ *
+ * ```typescript
+ * // main.ts
+ * import "jsr:@sigmasd/crash-report/hook";
+ * import { monitorWorker } from "jsr:@sigmasd/crash-report";
+ *
+ * const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+ *   type: "module",
+ *   name: "jobs",
+ * });
+ * monitorWorker(worker);
+ * ```
+ */
+import type { ErrorReport, UnhandledRejectionReport } from "./payload.ts";
+import { getScopeData } from "./scope.ts";
+import { serializeValueForReport } from "./utils.ts";
+import {
+  WORKER_CRASH_MESSAGE_KEY,
+  type WorkerCrashMessage,
+} from "./worker_message.ts";
+
+/** The parts of the worker global scope used here. */
+interface WorkerScope {
+  name?: string;
+  postMessage(message: unknown): void;
+  close(): void;
+}
+
+const workerScope = self as unknown as WorkerScope;
+
+self.addEventListener("error", (event: ErrorEvent) => {
+  event.preventDefault(); // Forwarded instead of propagated to the Worker object
+  console.error("\n--- Uncaught Error in Worker ---");
+  console.error(event.error ?? event.message);
+
+  const report: ErrorReport = {
+    type: "error",
+    message: event.message,
+    filename: event.filename,
+    lineno: event.lineno,
+    colno: event.colno,
+    error: serializeValueForReport(event.error),
+  };
+  forwardCrash(report, event.error);
+});
+
+self.addEventListener(
+  "unhandledrejection",
+  (event: PromiseRejectionEvent) => {
+    event.preventDefault();
+    console.error("\n--- Unhandled Promise Rejection in Worker ---");
+    console.error(event.reason);
+
+    const report: UnhandledRejectionReport = {
+      type: "unhandledrejection",
+      reason: serializeValueForReport(event.reason),
+    };
+    forwardCrash(report, event.reason);
+  },
+);
+
+/**
+ * Posts the report to the main thread, then closes the worker.
+ * @param report The report content.
+ * @param error The thrown value, whose `withScope` scope is forwarded.
+ */
+function forwardCrash(
+  report: ErrorReport | UnhandledRejectionReport,
+  error: unknown,
+) {
+  const message: WorkerCrashMessage = {
+    [WORKER_CRASH_MESSAGE_KEY]: {
+      worker: workerScope.name || undefined,
+      report,
+      scope: getScopeData(error),
+    },
+  };
+  try {
+    workerScope.postMessage(message);
+  } catch (err) {
+    console.error("Failed to forward crash to the main thread:", err);
+  }
+  workerScope.close();
+}
@@ -0,0 +1,35 @@
+/**
+ * The message the worker hook (`./worker.ts`) posts to the main thread after
+ * a crash, received by `monitorWorker` (see `./supervise.ts`).
+ *
+ * Kept apart from `./supervise.ts` without side effects, so the worker hook
+ * does not load the reporter: workers without permissions (e.g. no env
+ * access) can import it.
+ */
+
+import type { ErrorReport, UnhandledRejectionReport } from "./payload.ts";
+import type { ScopeData } from "./scope.ts";
+
+/** Key marking the messages posted by the worker hook. */
+export const WORKER_CRASH_MESSAGE_KEY = "$crashReport";
+
+/** The message the worker hook posts to the main thread after a crash. */
+export interface WorkerCrashMessage {
+  [WORKER_CRASH_MESSAGE_KEY]: {
+    /** The worker's `name`, if it was given one. */
+    worker?: string;
+    report: ErrorReport | UnhandledRejectionReport;
+    /** The worker's scope (tags, user, contexts) at the time of the crash. */
+    scope: ScopeData;
+  };
+}
+
+/** Whether a message received from a worker is a `WorkerCrashMessage`. */
+export function isWorkerCrashMessage(
+  data: unknown,
+): data is WorkerCrashMessage {
+  if (typeof data !== "object" || data === null) return false;
+  const message = (data as Record<string, unknown>)[WORKER_CRASH_MESSAGE_KEY];
+  return typeof message === "object" && message !== null &&
+    "report" in message;
+}